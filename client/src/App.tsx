@@ -4,6 +4,7 @@ import NotFound from "@/pages/NotFound";
 import { Route, Switch } from "wouter";
 import ErrorBoundary from "./components/ErrorBoundary";
 import { ThemeProvider } from "./contexts/ThemeContext";
+import { PortfolioProvider } from "./contexts/PortfolioContext";
 import Navigation from "./components/Navigation";
 import Home from "./pages/Home";
 import Stocks from "./pages/Stocks";
@@ -13,6 +14,7 @@ import Watchlist from "./pages/Watchlist";
 import Reports from "./pages/Reports";
 import Import from "./pages/Import";
 import TransactionAudit from "./pages/TransactionAudit";
+import Cash from "./pages/Cash";
 import Settings from "./pages/Settings";
 import LoginPage from "./pages/auth/LoginPage";
 import SignupPage from "./pages/auth/SignupPage";
@@ -53,6 +55,9 @@ function Router() {
       <Route path="/audit">
         <ProtectedRoute component={TransactionAudit} />
       </Route>
+      <Route path="/cash">
+        <ProtectedRoute component={Cash} />
+      </Route>
       <Route path="/watchlist">
         <ProtectedRoute component={Watchlist} />
       </Route>
@@ -82,15 +87,17 @@ function App() {
         defaultTheme="light"
         switchable
       >
-        <TooltipProvider>
-          <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
-            <Navigation />
-            <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-              <Router />
-            </main>
-          </div>
-          <Toaster />
-        </TooltipProvider>
+        <PortfolioProvider>
+          <TooltipProvider>
+            <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+              <Navigation />
+              <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+                <Router />
+              </main>
+            </div>
+            <Toaster />
+          </TooltipProvider>
+        </PortfolioProvider>
       </ThemeProvider>
     </ErrorBoundary>
   );
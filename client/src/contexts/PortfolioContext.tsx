@@ -0,0 +1,39 @@
+import React, { createContext, useContext, useEffect, useState } from "react";
+
+interface PortfolioContextType {
+  // undefined means the consolidated view across every portfolio
+  portfolioId: number | undefined;
+  setPortfolioId: (portfolioId: number | undefined) => void;
+}
+
+const PortfolioContext = createContext<PortfolioContextType | undefined>(undefined);
+
+export function PortfolioProvider({ children }: { children: React.ReactNode }) {
+  const [portfolioId, setPortfolioId] = useState<number | undefined>(() => {
+    // Restore the last selected portfolio, falling back to the consolidated view
+    const saved = Number(localStorage.getItem("portfolioId"));
+    return Number.isInteger(saved) && saved > 0 ? saved : undefined;
+  });
+
+  useEffect(() => {
+    if (portfolioId === undefined) {
+      localStorage.removeItem("portfolioId");
+    } else {
+      localStorage.setItem("portfolioId", String(portfolioId));
+    }
+  }, [portfolioId]);
+
+  return (
+    <PortfolioContext.Provider value={{ portfolioId, setPortfolioId }}>
+      {children}
+    </PortfolioContext.Provider>
+  );
+}
+
+export function usePortfolio() {
+  const context = useContext(PortfolioContext);
+  if (!context) {
+    throw new Error("usePortfolio must be used within PortfolioProvider");
+  }
+  return context;
+}
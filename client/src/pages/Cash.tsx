@@ -0,0 +1,234 @@
+import { useAuth } from "@/_core/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Trash2 } from "lucide-react";
+import { trpc } from "@/lib/trpc";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import { toast } from "sonner";
+import { useState } from "react";
+import { usePortfolio } from "@/contexts/PortfolioContext";
+
+type CashMovementType = "DEPOSIT" | "WITHDRAWAL" | "FEE" | "INTEREST";
+
+const MOVEMENT_LABELS: Record<CashMovementType, string> = {
+  DEPOSIT: "Deposit",
+  WITHDRAWAL: "Withdrawal",
+  FEE: "Account fee",
+  INTEREST: "Interest",
+};
+
+export default function Cash() {
+  const { user } = useAuth();
+  const { portfolioId: currentPortfolioId } = usePortfolio();
+  const [entryPortfolioId, setEntryPortfolioId] = useState(currentPortfolioId ? String(currentPortfolioId) : "");
+  const [type, setType] = useState<CashMovementType>("DEPOSIT");
+  const [date, setDate] = useState(formatDate(new Date()));
+  const [amount, setAmount] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const { data: portfolios } = trpc.portfolio.list.useQuery(undefined, { enabled: !!user });
+  const portfolioId = entryPortfolioId ? parseInt(entryPortfolioId) : portfolios?.[0]?.id;
+  const { data: ledger, isLoading, refetch } = trpc.cash.ledger.useQuery(
+    { portfolioId: currentPortfolioId },
+    { enabled: !!user }
+  );
+  const addMutation = trpc.cash.add.useMutation();
+  const deleteMutation = trpc.cash.delete.useMutation();
+
+  const portfolioName = (id: number) => portfolios?.find((p) => p.id === id)?.name ?? "";
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (portfolioId === undefined || !date || !amount) {
+      toast.error("Please fill in all required fields");
+      return;
+    }
+
+    try {
+      await addMutation.mutateAsync({
+        portfolioId,
+        type,
+        date: new Date(date),
+        amount,
+        notes: notes || undefined,
+      });
+      toast.success(`${MOVEMENT_LABELS[type]} recorded`);
+      setAmount("");
+      setNotes("");
+      refetch();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to record cash movement");
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!confirm("Are you sure you want to delete this cash movement?")) return;
+
+    try {
+      await deleteMutation.mutateAsync({ id });
+      toast.success("Cash movement deleted");
+      refetch();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to delete cash movement");
+    }
+  };
+
+  // Newest first for display; the running balance was computed oldest first
+  const entries = [...(ledger?.entries ?? [])].reverse();
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Cash</h1>
+          <p className="text-muted-foreground">Uninvested cash held at your brokers</p>
+        </div>
+        <div className="text-right">
+          <p className="text-sm text-muted-foreground">Cash balance</p>
+          <p className="text-2xl font-bold">{formatCurrency(ledger?.balance ?? "0")}</p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Record Cash Movement</CardTitle>
+          <CardDescription>
+            Buys, sells and dividends update the balance automatically; record everything else here.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div>
+              <Label htmlFor="cash-portfolio">Portfolio *</Label>
+              <Select value={portfolioId !== undefined ? String(portfolioId) : ""} onValueChange={setEntryPortfolioId}>
+                <SelectTrigger id="cash-portfolio">
+                  <SelectValue placeholder="Select a portfolio" />
+                </SelectTrigger>
+                <SelectContent>
+                  {portfolios?.map((p) => (
+                    <SelectItem key={p.id} value={String(p.id)}>
+                      {p.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="cash-type">Type *</Label>
+              <Select value={type} onValueChange={(v) => setType(v as CashMovementType)}>
+                <SelectTrigger id="cash-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(MOVEMENT_LABELS) as CashMovementType[]).map((t) => (
+                    <SelectItem key={t} value={t}>
+                      {MOVEMENT_LABELS[t]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="cash-date">Date *</Label>
+              <Input id="cash-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="cash-amount">Amount (PKR) *</Label>
+              <Input
+                id="cash-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Input placeholder="Notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+              <Button type="submit" disabled={addMutation.isPending}>
+                {addMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : "Add"}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Ledger */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Cash Ledger</CardTitle>
+          <CardDescription>Every movement of cash with the running balance after it</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="animate-spin" />
+            </div>
+          ) : entries.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    {currentPortfolioId === undefined && <TableHead>Portfolio</TableHead>}
+                    <TableHead>Type</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                    <TableHead className="text-center">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => {
+                    const amountValue = parseFloat(entry.amount);
+                    return (
+                      <TableRow key={entry.cashMovementId ? `cash-${entry.cashMovementId}` : `txn-${entry.transactionId}`}>
+                        <TableCell>{entry.date}</TableCell>
+                        {currentPortfolioId === undefined && <TableCell>{portfolioName(entry.portfolioId)}</TableCell>}
+                        <TableCell>
+                          <Badge variant={entry.cashMovementId ? "outline" : "secondary"}>
+                            {MOVEMENT_LABELS[entry.type as CashMovementType] ?? entry.type}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {[entry.stockSymbol, entry.notes].filter(Boolean).join(" · ") || "-"}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right ${amountValue >= 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}`}
+                        >
+                          {formatCurrency(amountValue)}
+                        </TableCell>
+                        <TableCell className="text-right font-medium">{formatCurrency(entry.balance)}</TableCell>
+                        <TableCell className="text-center">
+                          {entry.cashMovementId && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDelete(entry.cashMovementId!)}
+                              disabled={deleteMutation.isPending}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">No cash movements yet</div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
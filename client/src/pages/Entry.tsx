@@ -1,292 +1,542 @@
-import { useAuth } from "@/_core/hooks/useAuth";
-import { Button } from "@/components/ui/button";
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Textarea } from "@/components/ui/textarea";
-import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogTitle } from "@/components/ui/alert-dialog";
-import { toast } from "sonner";
-import { trpc } from "@/lib/trpc";
-import { formatCurrency, formatDate } from "@/lib/utils";
-import { useLocation, Link } from "wouter";
-import Decimal from "decimal.js";
-import { useState } from "react";
-
-export default function Entry() {
-  const { user } = useAuth();
-  const [, setLocation] = useLocation();
-  const [stockSymbol, setStockSymbol] = useState("");
-  const [stockName, setStockName] = useState("");
-  const [transactionType, setTransactionType] = useState<"BUY" | "SELL" | "DIVIDEND">("BUY");
-  const [date, setDate] = useState(formatDate(new Date()));
-  const [quantity, setQuantity] = useState("");
-  const [totalAmount, setTotalAmount] = useState("");
-  const [notes, setNotes] = useState("");
-  const [showWarning, setShowWarning] = useState(false);
-  const [warningMessage, setWarningMessage] = useState("");
-  const [confirmOverride, setConfirmOverride] = useState(false);
-
-  const { data: stocks } = trpc.stock.list.useQuery(undefined, { enabled: !!user });
-  const addTransactionMutation = trpc.transaction.add.useMutation();
-
-  const unitPrice = quantity && totalAmount ? new Decimal(totalAmount).dividedBy(new Decimal(quantity)) : null;
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-
-    if (!stockSymbol || !transactionType || !date) {
-      toast.error("Please fill in all required fields");
-      return;
-    }
-
-    if ((transactionType === "BUY" || transactionType === "SELL") && (!quantity || !totalAmount)) {
-      toast.error("Quantity and total amount are required for BUY/SELL");
-      return;
-    }
-
-    if (transactionType === "DIVIDEND" && !totalAmount) {
-      toast.error("Total amount is required for DIVIDEND");
-      return;
-    }
-
-    // Check for warnings
-    const existingStock = stocks?.find((s) => s.symbol.toUpperCase() === stockSymbol.toUpperCase());
-
-    if (transactionType === "SELL" && existingStock && quantity) {
-      const totalShares = new Decimal(existingStock.totalShares || "0");
-      const qty = new Decimal(quantity);
-      // avgCost is stored in PKR
-      const avgCost = new Decimal(existingStock.avgCost || "0");
-
-      // totalAmount is in PKR (user input)
-      const totalAmountDecimal = new Decimal(totalAmount);
-      const sellPrice = totalAmountDecimal.dividedBy(qty);
-
-      if (qty.greaterThan(totalShares) && !confirmOverride) {
-        setWarningMessage(
-          `You are trying to sell ${qty.toString()} shares but only have ${totalShares.toString()} shares. Confirm to proceed.`
-        );
-        setShowWarning(true);
-        return;
-      }
-
-      if (sellPrice.lessThan(avgCost) && !confirmOverride) {
-        setWarningMessage(
-          `You are selling at ${sellPrice.toFixed(2)} PKR/share below your average cost of ${avgCost.toFixed(2)} PKR/share. Confirm to proceed.`
-        );
-        setShowWarning(true);
-        return;
-      }
-    }
-
-    // Only allow transactions for existing stocks
-    if (!existingStock) {
-      toast.error("Stock not found. Please add the stock first from the Stocks page.");
-      return;
-    }
-
-    try {
-      // Add transaction
-      await addTransactionMutation.mutateAsync({
-        stockId: existingStock.id,
-        type: transactionType,
-        date: new Date(date),
-        quantity: transactionType === "DIVIDEND" ? null : (quantity || null),
-        totalAmount: totalAmount,
-        notes: notes || undefined,
-        confirmOverride,
-      });
-
-      toast.success("Transaction added successfully");
-      setStockSymbol("");
-      setStockName("");
-      setTransactionType("BUY");
-      setDate(formatDate(new Date()));
-      setQuantity("");
-      setTotalAmount("");
-      setNotes("");
-      setConfirmOverride(false);
-      setLocation("/");
-    } catch (error: any) {
-      toast.error(error.message || "Failed to add transaction");
-    }
-  };
-
-  return (
-    <div className="max-w-3xl mx-auto">
-      <div className="mb-6">
-        <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Add Transaction</h1>
-        <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-          Record buy, sell, or dividend transactions for your portfolio
-        </p>
-      </div>
-      <Card className="border-gray-200 dark:border-gray-800 shadow-sm bg-white dark:bg-gray-900">
-        <CardHeader className="border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-900/50">
-          <CardTitle className="text-lg font-semibold text-gray-900 dark:text-gray-100">
-            Transaction Details
-          </CardTitle>
-          <CardDescription className="text-gray-600 dark:text-gray-400">
-            Select a stock from your database and enter transaction information
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-6">
-            {/* Stock Selection */}
-            <div>
-              <Label htmlFor="symbol">Stock *</Label>
-              <Select
-                value={stockSymbol}
-                onValueChange={(value) => {
-                  setStockSymbol(value);
-                  const stock = stocks?.find((s) => s.symbol === value);
-                  if (stock) setStockName(stock.name);
-                }}
-              >
-                <SelectTrigger id="symbol" className="w-full">
-                  <SelectValue placeholder="Select a stock from database" />
-                </SelectTrigger>
-                <SelectContent>
-                  {stocks && stocks.length > 0 ? (
-                    stocks.map((stock) => (
-                      <SelectItem key={stock.id} value={stock.symbol}>
-                        {stock.symbol} - {stock.name}
-                      </SelectItem>
-                    ))
-                  ) : (
-                    <div className="px-2 py-6 text-center text-sm text-gray-500">
-                      No stocks available. Add stocks first.
-                    </div>
-                  )}
-                </SelectContent>
-              </Select>
-              {stocks && stocks.length === 0 && (
-                <p className="text-sm text-amber-600 mt-1.5">
-                  No stocks in database. <Link href="/stocks" className="underline font-medium">Add stocks first</Link>
-                </p>
-              )}
-            </div>
-
-            {/* Transaction Type */}
-            <div>
-              <Label htmlFor="type">Transaction Type *</Label>
-              <Select value={transactionType} onValueChange={(value: any) => setTransactionType(value)}>
-                <SelectTrigger id="type">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="BUY">Buy</SelectItem>
-                  <SelectItem value="SELL">Sell</SelectItem>
-                  <SelectItem value="DIVIDEND">Dividend</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-
-            {/* Date */}
-            <div>
-              <Label htmlFor="date">Date *</Label>
-              <Input
-                id="date"
-                type="date"
-                value={date}
-                onChange={(e) => setDate(e.target.value)}
-              />
-            </div>
-
-            {/* Quantity & Amount */}
-            {transactionType !== "DIVIDEND" && (
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="quantity">Quantity (shares) *</Label>
-                  <Input
-                    id="quantity"
-                    type="number"
-                    step="0.01"
-                    value={quantity}
-                    onChange={(e) => setQuantity(e.target.value)}
-                    placeholder="e.g., 100"
-                  />
-                </div>
-
-                <div>
-                  <Label htmlFor="amount">Total Amount (PKR) *</Label>
-                  <Input
-                    id="amount"
-                    type="number"
-                    step="0.01"
-                    value={totalAmount}
-                    onChange={(e) => setTotalAmount(e.target.value)}
-                    placeholder="e.g., 50000"
-                  />
-                </div>
-              </div>
-            )}
-
-            {transactionType === "DIVIDEND" && (
-              <div>
-                <Label htmlFor="dividend">Dividend Amount (PKR) *</Label>
-                <Input
-                  id="dividend"
-                  type="number"
-                  step="0.01"
-                  value={totalAmount}
-                  onChange={(e) => setTotalAmount(e.target.value)}
-                  placeholder="e.g., 500"
-                />
-              </div>
-            )}
-
-            {/* Unit Price Display */}
-            {unitPrice && (
-              <div className="bg-blue-50 p-3 rounded border border-blue-200">
-                <p className="text-sm text-blue-900">
-                  Unit Price: <strong>{unitPrice.toString()} PKR/share</strong>
-                </p>
-              </div>
-            )}
-
-            {/* Notes */}
-            <div>
-              <Label htmlFor="notes">Notes</Label>
-              <Textarea
-                id="notes"
-                value={notes}
-                onChange={(e) => setNotes(e.target.value)}
-                placeholder="Optional notes about this transaction"
-                rows={3}
-              />
-            </div>
-
-            {/* Submit Button */}
-            <Button type="submit" className="w-full">
-              Add Transaction
-            </Button>
-          </form>
-        </CardContent>
-      </Card>
-
-      {/* Warning Dialog */}
-      <AlertDialog open={showWarning} onOpenChange={setShowWarning}>
-        <AlertDialogContent>
-          <AlertDialogTitle>Confirm Transaction</AlertDialogTitle>
-          <AlertDialogDescription>{warningMessage}</AlertDialogDescription>
-          <div className="flex gap-3 justify-end">
-            <AlertDialogCancel onClick={() => {
-              setShowWarning(false);
-              setConfirmOverride(false);
-            }}>
-              Cancel
-            </AlertDialogCancel>
-            <AlertDialogAction onClick={() => {
-              setConfirmOverride(true);
-              setShowWarning(false);
-              handleSubmit({ preventDefault: () => { } } as any);
-            }}>
-              Confirm
-            </AlertDialogAction>
-          </div>
-        </AlertDialogContent>
-      </AlertDialog>
-    </div>
-  );
-}
+import { useAuth } from "@/_core/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { trpc } from "@/lib/trpc";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import { useLocation, Link } from "wouter";
+import Decimal from "decimal.js";
+import { useEffect, useState } from "react";
+import {
+  TRANSACTION_FEE_FIELDS,
+  TRANSACTION_FEE_LABELS,
+  DIVIDEND_DEDUCTION_FIELDS,
+  DIVIDEND_DEDUCTION_LABELS,
+  type TransactionFees,
+  type DividendDeductions,
+} from "@shared/const";
+import { computeCharges } from "@shared/fees";
+import type { TradeWarning } from "@shared/warnings";
+import { usePortfolio } from "@/contexts/PortfolioContext";
+
+export default function Entry() {
+  const { user } = useAuth();
+  const [, setLocation] = useLocation();
+  const { portfolioId: currentPortfolioId } = usePortfolio();
+  // Portfolio the trade is booked into; defaults to the one being viewed
+  const [entryPortfolioId, setEntryPortfolioId] = useState(currentPortfolioId ? String(currentPortfolioId) : "");
+  const [stockSymbol, setStockSymbol] = useState("");
+  const [stockName, setStockName] = useState("");
+  // TRANSFER moves shares to another of the user's portfolios
+  const [transactionType, setTransactionType] = useState<"BUY" | "SELL" | "DIVIDEND" | "TRANSFER">("BUY");
+  const [transferToId, setTransferToId] = useState("");
+  const [date, setDate] = useState(formatDate(new Date()));
+  const [quantity, setQuantity] = useState("");
+  const [totalAmount, setTotalAmount] = useState("");
+  const [notes, setNotes] = useState("");
+  const [fees, setFees] = useState<TransactionFees>({});
+  const [deductions, setDeductions] = useState<DividendDeductions>({});
+  // Warnings the server raised against the trade, shown for the user to confirm
+  const [showWarning, setShowWarning] = useState(false);
+  const [warningMessage, setWarningMessage] = useState("");
+  // Specific-lot picks for a SELL, keyed by the lot's BUY transaction id
+  const [lotPicks, setLotPicks] = useState<Record<number, string>>({});
+  // Broker whose fee schedule pre-fills the charges; "" means the default schedule
+  const [brokerId, setBrokerId] = useState("");
+
+  const { data: portfolios } = trpc.portfolio.list.useQuery(undefined, { enabled: !!user });
+  const portfolioId = entryPortfolioId ? parseInt(entryPortfolioId) : portfolios?.[0]?.id;
+  const { data: stocks } = trpc.stock.list.useQuery({ portfolioId }, { enabled: !!user && portfolioId !== undefined });
+  const { data: feeSchedules } = trpc.settings.feeSchedules.useQuery(undefined, { enabled: !!user });
+  const addTransactionMutation = trpc.transaction.add.useMutation();
+  const transferMutation = trpc.transaction.transfer.useMutation();
+
+  const activeSchedule = brokerId
+    ? feeSchedules?.find((s) => String(s.id) === brokerId)
+    : feeSchedules?.find((s) => s.isDefault);
+
+  // Re-price the charges whenever the trade or broker changes; manual edits stick until then
+  useEffect(() => {
+    if (!activeSchedule || transactionType === "DIVIDEND" || transactionType === "TRANSFER" || !quantity || !totalAmount) return;
+    setFees(computeCharges(activeSchedule, transactionType, quantity, totalAmount));
+  }, [activeSchedule, transactionType, quantity, totalAmount]);
+
+  const selectedStock = stocks?.find((s) => s.symbol === stockSymbol);
+  const { data: lots } = trpc.stock.getLots.useQuery(
+    { stockId: selectedStock?.id ?? 0, portfolioId },
+    { enabled: !!user && transactionType === "SELL" && !!selectedStock }
+  );
+  const openLots = (lots ?? []).filter((lot) => parseFloat(lot.openQuantity) > 0);
+
+  const lotAllocation = Object.entries(lotPicks)
+    .filter(([, qty]) => qty && parseFloat(qty) > 0)
+    .map(([buyTransactionId, qty]) => ({ buyTransactionId: Number(buyTransactionId), quantity: qty }));
+  const allocatedShares = lotAllocation.reduce((sum, a) => sum.plus(a.quantity), new Decimal(0));
+
+  const unitPrice = quantity && totalAmount ? new Decimal(totalAmount).dividedBy(new Decimal(quantity)) : null;
+  const totalFees = TRANSACTION_FEE_FIELDS.reduce((sum, field) => sum.plus(fees[field] || 0), new Decimal(0));
+  // What actually leaves or reaches the account once charges are applied
+  const netAmount = totalAmount
+    ? transactionType === "SELL"
+      ? new Decimal(totalAmount).minus(totalFees)
+      : new Decimal(totalAmount).plus(totalFees)
+    : null;
+  const netDividend = totalAmount
+    ? DIVIDEND_DEDUCTION_FIELDS.reduce((net, field) => net.minus(deductions[field] || 0), new Decimal(totalAmount))
+    : null;
+
+  // The server refuses oversells and sales below average cost until they are confirmed
+  const confirmWarnings = (error: any) => {
+    const warnings: TradeWarning[] | undefined = error?.data?.warnings;
+    if (!warnings || warnings.length === 0) return false;
+    setWarningMessage(`${warnings.map((w) => w.message).join(" ")} Confirm to proceed.`);
+    setShowWarning(true);
+    return true;
+  };
+
+  const handleTransfer = async (confirmOverride: boolean) => {
+    const stock = stocks?.find((s) => s.symbol === stockSymbol);
+    if (!stock || portfolioId === undefined || !transferToId || !quantity) {
+      toast.error("Quantity and destination portfolio are required for a transfer");
+      return;
+    }
+
+    try {
+      await transferMutation.mutateAsync({
+        fromPortfolioId: portfolioId,
+        toPortfolioId: parseInt(transferToId),
+        stockId: stock.id,
+        date: new Date(date),
+        quantity,
+        notes: notes || undefined,
+        confirmOverride,
+      });
+
+      toast.success("Transfer recorded");
+      setStockSymbol("");
+      setStockName("");
+      setTransactionType("BUY");
+      setTransferToId("");
+      setQuantity("");
+      setNotes("");
+      setLocation("/");
+    } catch (error: any) {
+      if (confirmWarnings(error)) return;
+      toast.error(error.message || "Failed to record transfer");
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent, confirmOverride = false) => {
+    e.preventDefault();
+
+    if (portfolioId === undefined || !stockSymbol || !transactionType || !date) {
+      toast.error("Please fill in all required fields");
+      return;
+    }
+
+    if (transactionType === "TRANSFER") {
+      await handleTransfer(confirmOverride);
+      return;
+    }
+
+    if ((transactionType === "BUY" || transactionType === "SELL") && (!quantity || !totalAmount)) {
+      toast.error("Quantity and total amount are required for BUY/SELL");
+      return;
+    }
+
+    if (transactionType === "DIVIDEND" && !totalAmount) {
+      toast.error("Total amount is required for DIVIDEND");
+      return;
+    }
+
+    if (transactionType === "DIVIDEND" && netDividend?.lessThan(0)) {
+      toast.error("Withholding tax and zakat exceed the gross dividend");
+      return;
+    }
+
+    if (transactionType === "SELL" && quantity && allocatedShares.greaterThan(new Decimal(quantity))) {
+      toast.error(`Lots selected (${allocatedShares.toString()}) exceed the quantity sold (${quantity})`);
+      return;
+    }
+
+    const existingStock = stocks?.find((s) => s.symbol.toUpperCase() === stockSymbol.toUpperCase());
+
+    // Only allow transactions for existing stocks
+    if (!existingStock) {
+      toast.error("Stock not found. Please add the stock first from the Stocks page.");
+      return;
+    }
+
+    try {
+      // Add transaction
+      await addTransactionMutation.mutateAsync({
+        portfolioId,
+        stockId: existingStock.id,
+        type: transactionType,
+        date: new Date(date),
+        quantity: transactionType === "DIVIDEND" ? null : (quantity || null),
+        totalAmount: totalAmount,
+        notes: notes || undefined,
+        lotAllocation: transactionType === "SELL" && lotAllocation.length > 0 ? lotAllocation : undefined,
+        fees: transactionType === "DIVIDEND" ? undefined : fees,
+        deductions: transactionType === "DIVIDEND" ? deductions : undefined,
+        confirmOverride,
+      });
+
+      toast.success("Transaction added successfully");
+      setStockSymbol("");
+      setStockName("");
+      setTransactionType("BUY");
+      setDate(formatDate(new Date()));
+      setQuantity("");
+      setTotalAmount("");
+      setNotes("");
+      setFees({});
+      setDeductions({});
+      setLotPicks({});
+      setBrokerId("");
+      setLocation("/");
+    } catch (error: any) {
+      if (confirmWarnings(error)) return;
+      toast.error(error.message || "Failed to add transaction");
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Add Transaction</h1>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+          Record buy, sell, or dividend transactions for your portfolio
+        </p>
+      </div>
+      <Card className="border-gray-200 dark:border-gray-800 shadow-sm bg-white dark:bg-gray-900">
+        <CardHeader className="border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-900/50">
+          <CardTitle className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            Transaction Details
+          </CardTitle>
+          <CardDescription className="text-gray-600 dark:text-gray-400">
+            Select a stock from your database and enter transaction information
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {/* Portfolio */}
+            <div>
+              <Label htmlFor="portfolio">Portfolio *</Label>
+              <Select
+                value={portfolioId !== undefined ? String(portfolioId) : ""}
+                onValueChange={(value) => {
+                  setEntryPortfolioId(value);
+                  setLotPicks({});
+                }}
+              >
+                <SelectTrigger id="portfolio" className="w-full">
+                  <SelectValue placeholder="Select a portfolio" />
+                </SelectTrigger>
+                <SelectContent>
+                  {portfolios?.map((p) => (
+                    <SelectItem key={p.id} value={String(p.id)}>
+                      {p.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Stock Selection */}
+            <div>
+              <Label htmlFor="symbol">Stock *</Label>
+              <Select
+                value={stockSymbol}
+                onValueChange={(value) => {
+                  setStockSymbol(value);
+                  setLotPicks({});
+                  const stock = stocks?.find((s) => s.symbol === value);
+                  if (stock) setStockName(stock.name);
+                }}
+              >
+                <SelectTrigger id="symbol" className="w-full">
+                  <SelectValue placeholder="Select a stock from database" />
+                </SelectTrigger>
+                <SelectContent>
+                  {stocks && stocks.length > 0 ? (
+                    stocks.map((stock) => (
+                      <SelectItem key={stock.id} value={stock.symbol}>
+                        {stock.symbol} - {stock.name}
+                      </SelectItem>
+                    ))
+                  ) : (
+                    <div className="px-2 py-6 text-center text-sm text-gray-500">
+                      No stocks available. Add stocks first.
+                    </div>
+                  )}
+                </SelectContent>
+              </Select>
+              {stocks && stocks.length === 0 && (
+                <p className="text-sm text-amber-600 mt-1.5">
+                  No stocks in database. <Link href="/stocks" className="underline font-medium">Add stocks first</Link>
+                </p>
+              )}
+            </div>
+
+            {/* Transaction Type */}
+            <div>
+              <Label htmlFor="type">Transaction Type *</Label>
+              <Select value={transactionType} onValueChange={(value: any) => setTransactionType(value)}>
+                <SelectTrigger id="type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="BUY">Buy</SelectItem>
+                  <SelectItem value="SELL">Sell</SelectItem>
+                  <SelectItem value="DIVIDEND">Dividend</SelectItem>
+                  <SelectItem value="TRANSFER">Transfer to another portfolio</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Transfer destination */}
+            {transactionType === "TRANSFER" && (
+              <div>
+                <Label htmlFor="transfer-to">Transfer To *</Label>
+                <Select value={transferToId} onValueChange={setTransferToId}>
+                  <SelectTrigger id="transfer-to" className="w-full">
+                    <SelectValue placeholder="Select the receiving portfolio" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {portfolios
+                      ?.filter((p) => p.id !== portfolioId)
+                      .map((p) => (
+                        <SelectItem key={p.id} value={String(p.id)}>
+                          {p.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1.5">
+                  The shares keep their cost and purchase dates; no profit or loss is realized.
+                </p>
+              </div>
+            )}
+
+            {/* Date */}
+            <div>
+              <Label htmlFor="date">Date *</Label>
+              <Input
+                id="date"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+              />
+            </div>
+
+            {/* Quantity & Amount */}
+            {transactionType !== "DIVIDEND" && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="quantity">Quantity (shares) *</Label>
+                  <Input
+                    id="quantity"
+                    type="number"
+                    step="0.01"
+                    value={quantity}
+                    onChange={(e) => setQuantity(e.target.value)}
+                    placeholder="e.g., 100"
+                  />
+                </div>
+
+                {transactionType !== "TRANSFER" && (
+                  <div>
+                    <Label htmlFor="amount">Trade Value (PKR, before charges) *</Label>
+                    <Input
+                      id="amount"
+                      type="number"
+                      step="0.01"
+                      value={totalAmount}
+                      onChange={(e) => setTotalAmount(e.target.value)}
+                      placeholder="e.g., 50000"
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
+            {transactionType === "DIVIDEND" && (
+              <div className="space-y-3">
+                <div>
+                  <Label htmlFor="dividend">Gross Dividend (PKR) *</Label>
+                  <Input
+                    id="dividend"
+                    type="number"
+                    step="0.01"
+                    value={totalAmount}
+                    onChange={(e) => setTotalAmount(e.target.value)}
+                    placeholder="e.g., 500"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  {DIVIDEND_DEDUCTION_FIELDS.map((field) => (
+                    <div key={field}>
+                      <Label htmlFor={`deduction-${field}`} className="text-xs text-gray-500 dark:text-gray-400">
+                        {DIVIDEND_DEDUCTION_LABELS[field]} (PKR)
+                      </Label>
+                      <Input
+                        id={`deduction-${field}`}
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={deductions[field] ?? ""}
+                        onChange={(e) => setDeductions({ ...deductions, [field]: e.target.value })}
+                        placeholder="0"
+                      />
+                    </div>
+                  ))}
+                </div>
+                {netDividend && (
+                  <div className="bg-blue-50 p-3 rounded border border-blue-200">
+                    <p className="text-sm text-blue-900">
+                      Net Dividend: <strong>{formatCurrency(netDividend.toNumber())}</strong>
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Charges */}
+            {(transactionType === "BUY" || transactionType === "SELL") && (
+              <div>
+                {!!feeSchedules?.length && (
+                  <div className="mb-3">
+                    <Label htmlFor="broker">Broker</Label>
+                    <Select value={brokerId || "default"} onValueChange={(v) => setBrokerId(v === "default" ? "" : v)}>
+                      <SelectTrigger id="broker" className="w-64">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="default">Default broker</SelectItem>
+                        {feeSchedules.map((s) => (
+                          <SelectItem key={s.id} value={String(s.id)}>
+                            {s.brokerName}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <Label>Charges (PKR)</Label>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mt-1.5">
+                  {TRANSACTION_FEE_FIELDS.map((field) => (
+                    <div key={field}>
+                      <Label htmlFor={`fee-${field}`} className="text-xs text-gray-500 dark:text-gray-400">
+                        {TRANSACTION_FEE_LABELS[field]}
+                      </Label>
+                      <Input
+                        id={`fee-${field}`}
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={fees[field] ?? ""}
+                        onChange={(e) => setFees({ ...fees, [field]: e.target.value })}
+                        placeholder="0"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Unit Price Display */}
+            {unitPrice && (
+              <div className="bg-blue-50 p-3 rounded border border-blue-200">
+                <p className="text-sm text-blue-900">
+                  Unit Price: <strong>{unitPrice.toString()} PKR/share</strong>
+                </p>
+                {netAmount && totalFees.greaterThan(0) && (
+                  <p className="text-sm text-blue-900 mt-1">
+                    Charges: <strong>{formatCurrency(totalFees.toNumber())}</strong> · Net{" "}
+                    {transactionType === "SELL" ? "proceeds" : "cost"}: <strong>{formatCurrency(netAmount.toNumber())}</strong>
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Specific-lot selection */}
+            {transactionType === "SELL" && openLots.length > 0 && (
+              <div className="rounded border border-gray-200 dark:border-gray-800 p-3 space-y-2">
+                <div>
+                  <Label>Sell from specific lots (optional)</Label>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                    Shares not assigned to a lot are matched by your cost-basis method.
+                  </p>
+                </div>
+                {openLots.map((lot) => (
+                  <div key={lot.id} className="grid grid-cols-4 gap-2 items-center text-sm">
+                    <span>{formatDate(new Date(lot.acquiredDate))}</span>
+                    <span className="text-right">{parseFloat(lot.openQuantity).toFixed(2)} open</span>
+                    <span className="text-right">{formatCurrency(parseFloat(lot.unitCost))}</span>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      max={lot.openQuantity}
+                      value={lotPicks[lot.buyTransactionId] ?? ""}
+                      onChange={(e) => setLotPicks({ ...lotPicks, [lot.buyTransactionId]: e.target.value })}
+                      placeholder="Qty"
+                    />
+                  </div>
+                ))}
+                {allocatedShares.greaterThan(0) && (
+                  <p className="text-xs text-gray-600 dark:text-gray-400">
+                    {allocatedShares.toString()} of {quantity || "0"} shares assigned to lots
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Notes */}
+            <div>
+              <Label htmlFor="notes">Notes</Label>
+              <Textarea
+                id="notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Optional notes about this transaction"
+                rows={3}
+              />
+            </div>
+
+            {/* Submit Button */}
+            <Button type="submit" className="w-full">
+              Add Transaction
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Warning Dialog */}
+      <AlertDialog open={showWarning} onOpenChange={setShowWarning}>
+        <AlertDialogContent>
+          <AlertDialogTitle>Confirm Transaction</AlertDialogTitle>
+          <AlertDialogDescription>{warningMessage}</AlertDialogDescription>
+          <div className="flex gap-3 justify-end">
+            <AlertDialogCancel onClick={() => setShowWarning(false)}>
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction onClick={() => {
+              setShowWarning(false);
+              handleSubmit({ preventDefault: () => { } } as any, true);
+            }}>
+              Confirm
+            </AlertDialogAction>
+          </div>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
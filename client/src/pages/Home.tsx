@@ -7,18 +7,21 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Link } from "wouter";
 import { trpc } from "@/lib/trpc";
-import { Loader2, Plus, TrendingUp, TrendingDown, ArrowUpRight, ArrowDownRight, DollarSign, PieChart, Search, Filter, ArrowUpDown } from "lucide-react";
+import { Loader2, Plus, TrendingUp, TrendingDown, ArrowUpRight, ArrowDownRight, DollarSign, PieChart, Search, Filter, ArrowUpDown, Wallet } from "lucide-react";
 import { formatCurrency, formatPercent } from "@/lib/utils";
 import { useState, useMemo } from "react";
+import { usePortfolio } from "@/contexts/PortfolioContext";
 
 type SortField = "symbol" | "name" | "totalShares" | "totalInvested" | "currentPrice" | "unrealizedProfit" | "realizedProfit" | "gainLossPercent";
 type SortOrder = "asc" | "desc";
 
 export default function Home() {
   const { user, loading: authLoading } = useAuth();
-  const { data: stocks, isLoading, error } = trpc.stock.list.useQuery(undefined, {
+  const { portfolioId } = usePortfolio();
+  const { data: stocks, isLoading, error } = trpc.stock.list.useQuery({ portfolioId }, {
     enabled: !!user,
   });
+  const { data: cashLedger } = trpc.cash.ledger.useQuery({ portfolioId }, { enabled: !!user });
   console.log(stocks);
 
   // Filter and sort state - MUST be before any conditional returns
@@ -119,6 +122,8 @@ export default function Home() {
     return sum;
   }, 0) || 0;
   const totalValue = totalMarketValue; // Already in PKR
+  const cashBalance = parseFloat(cashLedger?.balance ?? "0");
+  const totalEquity = totalValue + cashBalance;
   const overallGainLoss = totalRealized + totalUnrealized;
   console.log(totalInvested, totalRealized, totalUnrealized, overallGainLoss);
   const overallGainLossPercent = totalInvested > 0 ? (overallGainLoss / totalInvested) * 100 : 0;
@@ -176,7 +181,7 @@ export default function Home() {
       </div>
 
       {/* Summary Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         <Card className="border-gray-200 dark:border-gray-800 shadow-sm bg-white dark:bg-gray-900">
           <CardHeader className="pb-3">
             <div className="flex items-center justify-between">
@@ -211,6 +216,45 @@ export default function Home() {
           </CardContent>
         </Card>
 
+        <Card className="border-gray-200 dark:border-gray-800 shadow-sm bg-white dark:bg-gray-900">
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-sm font-medium text-gray-600 dark:text-gray-400">
+                Cash
+              </CardTitle>
+              <Wallet className="w-5 h-5 text-gray-400 dark:text-gray-500" />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <p
+              className={`text-3xl font-bold ${cashBalance >= 0
+                ? "text-gray-900 dark:text-gray-100"
+                : "text-red-600 dark:text-red-400"
+                }`}
+            >
+              {formatCurrency(cashBalance)}
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Uninvested at broker</p>
+          </CardContent>
+        </Card>
+
+        <Card className="border-gray-200 dark:border-gray-800 shadow-sm bg-white dark:bg-gray-900">
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-sm font-medium text-gray-600 dark:text-gray-400">
+                Account Equity
+              </CardTitle>
+              <DollarSign className="w-5 h-5 text-gray-400 dark:text-gray-500" />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+              {formatCurrency(totalEquity)}
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Market value plus cash</p>
+          </CardContent>
+        </Card>
+
         <Card className="border-gray-200 dark:border-gray-800 shadow-sm bg-white dark:bg-gray-900">
           <CardHeader className="pb-3">
             <div className="flex items-center justify-between">
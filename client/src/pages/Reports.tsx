@@ -12,16 +12,19 @@ import { ResponsiveLine } from "@nivo/line";
 import { ResponsiveBar } from "@nivo/bar";
 import { ResponsivePie } from "@nivo/pie";
 import { ResponsiveScatterPlot } from "@nivo/scatterplot";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { AlertCircle } from "lucide-react";
 import { useTheme } from "@/contexts/ThemeContext";
+import { usePortfolio } from "@/contexts/PortfolioContext";
 
-type ChartType = "daywise" | "runningBalance" | "performance" | "volume" | "distribution";
+type ChartType = "daywise" | "runningBalance" | "performance" | "volume" | "distribution" | "capitalGains";
 
 export default function Reports() {
   const now = new Date();
   const { user } = useAuth();
   const { theme } = useTheme();
+  const { portfolioId } = usePortfolio();
   const [fromDate, setFromDate] = useState(formatDate(new Date(now.getFullYear(), now.getMonth(), 1)));
   const [toDate, setToDate] = useState(formatDate(new Date()));
   const [selectedChart, setSelectedChart] = useState<ChartType>("daywise");
@@ -42,6 +45,7 @@ export default function Reports() {
       from: new Date(fromDate),
       to: new Date(toDate),
       stockId: selectedStockId,
+      portfolioId,
     },
     { enabled: !!user && selectedChart === "daywise" }
   );
@@ -49,6 +53,7 @@ export default function Reports() {
   const { data: performanceData, isLoading: performanceLoading } = trpc.reports.stockPerformance.useQuery(
     {
       stockIds: selectedStockId ? [selectedStockId] : undefined,
+      portfolioId,
     },
     { enabled: !!user && selectedChart === "performance" }
   );
@@ -59,19 +64,29 @@ export default function Reports() {
       to: new Date(toDate),
       type: selectedType,
       stockId: selectedStockId,
+      portfolioId,
     },
     { enabled: !!user && selectedChart === "volume" }
   );
 
   const { data: distributionData, isLoading: distributionLoading } = trpc.reports.portfolioDistribution.useQuery(
-    undefined,
+    { portfolioId },
     { enabled: !!user && selectedChart === "distribution" }
   );
 
+  const { data: cgtData, isLoading: cgtLoading } = trpc.reports.capitalGainsTax.useQuery({ portfolioId }, {
+    enabled: !!user && selectedChart === "capitalGains",
+  });
+
+  const { data: dividendTaxData, isLoading: dividendTaxLoading } = trpc.reports.dividendTax.useQuery({ portfolioId }, {
+    enabled: !!user && selectedChart === "capitalGains",
+  });
+
   const { data: runningBalanceData, isLoading: runningBalanceLoading } = trpc.transaction.runningBalanceRange.useQuery(
     {
       from: new Date(fromDate + "T00:00:00Z"),
       to: new Date(toDate + "T23:59:59Z"),
+      portfolioId,
     },
     {
       enabled: !!user && selectedChart === "runningBalance",
@@ -91,18 +106,26 @@ export default function Reports() {
     }
   }, [selectedChart, fromDate, toDate]);
 
-  const isLoading = daywiseLoading || performanceLoading || volumeLoading || distributionLoading || runningBalanceLoading;
+  const isLoading =
+    daywiseLoading || performanceLoading || volumeLoading || distributionLoading || runningBalanceLoading || cgtLoading || dividendTaxLoading;
 
   // Prepare chart data
   const daywiseChartData = daywiseData
     ? [
       {
-        id: "Profit",
+        id: "Net Profit",
         data: daywiseData.map((d) => ({
           x: d.date,
           y: d.profit,
         })),
       },
+      {
+        id: "Gross Profit",
+        data: daywiseData.map((d) => ({
+          x: d.date,
+          y: d.grossProfit,
+        })),
+      },
     ]
     : [];
 
@@ -175,6 +198,14 @@ export default function Reports() {
     }))
     : [];
 
+  const cgtChartData = cgtData
+    ? cgtData.years.map((year) => ({
+      fiscalYear: year.fiscalYear,
+      "Net Gain": year.netGain,
+      "Tax Payable": year.tax,
+    }))
+    : [];
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -203,11 +234,12 @@ export default function Reports() {
                   <SelectItem value="performance">Stock Performance</SelectItem>
                   <SelectItem value="volume">Transaction Volume</SelectItem>
                   <SelectItem value="distribution">Portfolio Distribution</SelectItem>
+                  <SelectItem value="capitalGains">Capital Gains & Dividend Tax</SelectItem>
                 </SelectContent>
               </Select>
             </div>
 
-            {selectedChart !== "runningBalance" && (
+            {selectedChart !== "runningBalance" && selectedChart !== "capitalGains" && (
               <div>
                 <Label htmlFor="stock-filter">Stock (Optional)</Label>
                 <Select
@@ -284,13 +316,16 @@ export default function Reports() {
             {selectedChart === "performance" && "Stock Performance Comparison"}
             {selectedChart === "volume" && "Transaction Volume Over Time"}
             {selectedChart === "distribution" && "Portfolio Distribution"}
+            {selectedChart === "capitalGains" && "Capital Gains Tax by Fiscal Year"}
           </CardTitle>
           <CardDescription className="text-gray-600 dark:text-gray-400">
-            {selectedChart === "daywise" && "Daily realized profit/loss over the selected period"}
+            {selectedChart === "daywise" && "Daily realized profit/loss over the selected period, net and gross of charges"}
             {selectedChart === "runningBalance" && "Cumulative balance progression showing invested, realized profit, and dividends"}
             {selectedChart === "performance" && "Compare investment and returns across stocks"}
             {selectedChart === "volume" && "Transaction volume by type over time"}
             {selectedChart === "distribution" && "Portfolio allocation by stock"}
+            {selectedChart === "capitalGains" &&
+              `Net realized gain and tax payable per July–June fiscal year (${cgtData?.isFiler === false ? "non-filer" : "filer"} rates)`}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -319,7 +354,7 @@ export default function Reports() {
                     },
                     grid: { line: { stroke: gridColor, strokeWidth: 1 } },
                   }}
-                  colors={isDark ? ["#60a5fa"] : ["#2563eb"]}
+                  colors={isDark ? ["#60a5fa", "#9ca3af"] : ["#2563eb", "#9ca3af"]}
                   axisTop={null}
                   axisRight={null}
                   axisBottom={{
@@ -617,11 +652,74 @@ export default function Reports() {
                 />
               )}
 
+              {selectedChart === "capitalGains" && cgtChartData.length > 0 && (
+                <ResponsiveBar
+                  data={cgtChartData}
+                  keys={["Net Gain", "Tax Payable"]}
+                  indexBy="fiscalYear"
+                  groupMode="grouped"
+                  margin={{ top: 50, right: 130, bottom: 50, left: 60 }}
+                  padding={0.3}
+                  valueScale={{ type: "linear" }}
+                  indexScale={{ type: "band", round: true }}
+                  colors={isDark ? ["#60a5fa", "#f87171"] : ["#2563eb", "#ef4444"]}
+                  theme={{
+                    text: { fill: textColor, fontSize: 12 },
+                    axis: {
+                      domain: { line: { stroke: axisColor, strokeWidth: 1 } },
+                      ticks: { line: { stroke: axisColor, strokeWidth: 1 }, text: { fill: textColor } },
+                      legend: { text: { fill: textColor } },
+                    },
+                    grid: { line: { stroke: gridColor, strokeWidth: 1 } },
+                  }}
+                  axisTop={null}
+                  axisRight={null}
+                  axisBottom={{
+                    tickSize: 5,
+                    tickPadding: 5,
+                    tickRotation: 0,
+                    legend: "Fiscal Year",
+                    legendPosition: "middle",
+                    legendOffset: 40,
+                  }}
+                  axisLeft={{
+                    tickSize: 5,
+                    tickPadding: 5,
+                    tickRotation: 0,
+                    legend: "Amount (PKR)",
+                    legendPosition: "middle",
+                    legendOffset: -40,
+                    format: (value) => formatCurrency(value),
+                  }}
+                  enableLabel={false}
+                  legends={[
+                    {
+                      dataFrom: "keys",
+                      anchor: "bottom-right",
+                      direction: "column",
+                      justify: false,
+                      translateX: 120,
+                      translateY: 0,
+                      itemsSpacing: 2,
+                      itemWidth: 100,
+                      itemHeight: 20,
+                      itemDirection: "left-to-right",
+                      itemOpacity: 0.85,
+                      symbolSize: 20,
+                      itemTextColor: legendTextColor,
+                    },
+                  ]}
+                  animate={true}
+                  motionConfig="gentle"
+                />
+              )}
+
               {((selectedChart === "daywise" && daywiseChartData.length === 0) ||
                 (selectedChart === "runningBalance" && runningBalanceChartData.length === 0) ||
                 (selectedChart === "performance" && performanceChartData.length === 0) ||
                 (selectedChart === "volume" && volumeChartData.length === 0) ||
-                (selectedChart === "distribution" && distributionChartData.length === 0)) && (
+                (selectedChart === "distribution" && distributionChartData.length === 0) ||
+                (selectedChart === "capitalGains" && cgtChartData.length === 0)) && (
                   <div className="flex items-center justify-center h-full text-muted-foreground">
                     <p>No data available for the selected filters.</p>
                   </div>
@@ -640,7 +738,7 @@ export default function Reports() {
           <CardContent>
             <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
               <div>
-                <p className="text-sm text-muted-foreground">Total Profit</p>
+                <p className="text-sm text-muted-foreground">Total Profit (net)</p>
                 <p
                   className={`text-2xl font-bold ${(daywiseData.reduce((sum, d) => sum + d.profit, 0) >= 0
                     ? "text-green-600 dark:text-green-400"
@@ -649,6 +747,10 @@ export default function Reports() {
                 >
                   {formatCurrency(daywiseData.reduce((sum, d) => sum + d.profit, 0))}
                 </p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Gross {formatCurrency(daywiseData.reduce((sum, d) => sum + d.grossProfit, 0))} · Charges{" "}
+                  {formatCurrency(daywiseData.reduce((sum, d) => sum + d.fees, 0))}
+                </p>
               </div>
               <div>
                 <p className="text-sm text-muted-foreground">Days with Profit</p>
@@ -712,10 +814,14 @@ export default function Reports() {
                                           <p className="text-muted-foreground">Avg Cost</p>
                                           <p className="font-medium">{formatCurrency(loss.avgCost)}</p>
                                         </div>
-                                        <div className="col-span-2">
+                                        <div>
                                           <p className="text-muted-foreground">Total Amount</p>
                                           <p className="font-medium">{formatCurrency(loss.totalAmount)}</p>
                                         </div>
+                                        <div>
+                                          <p className="text-muted-foreground">Charges</p>
+                                          <p className="font-medium">{formatCurrency(loss.fees)}</p>
+                                        </div>
                                         <div className="col-span-2">
                                           <p className="text-muted-foreground">Loss</p>
                                           <p className="font-bold text-red-600 dark:text-red-400">
@@ -748,6 +854,144 @@ export default function Reports() {
           </CardContent>
         </Card>
       )}
+
+      {selectedChart === "capitalGains" && cgtData && cgtData.disposals.length > 0 && (
+        <>
+          <Card className="border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-900">
+            <CardHeader>
+              <CardTitle className="text-gray-900 dark:text-gray-100">Tax per Fiscal Year</CardTitle>
+              <CardDescription className="text-gray-600 dark:text-gray-400">
+                Losses are set off against gains within the same year
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fiscal Year</TableHead>
+                    <TableHead className="text-right">Gains</TableHead>
+                    <TableHead className="text-right">Losses</TableHead>
+                    <TableHead className="text-right">Net Gain</TableHead>
+                    <TableHead className="text-right">Unabsorbed Loss</TableHead>
+                    <TableHead className="text-right">Tax Payable</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {cgtData.years.map((year) => (
+                    <TableRow key={year.fiscalYear}>
+                      <TableCell className="font-medium">{year.fiscalYear}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(year.gains)}</TableCell>
+                      <TableCell className="text-right text-red-600 dark:text-red-400">{formatCurrency(year.losses)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(year.netGain)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(year.unabsorbedLoss)}</TableCell>
+                      <TableCell className="text-right font-bold">{formatCurrency(year.tax)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card className="border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-900">
+            <CardHeader>
+              <CardTitle className="text-gray-900 dark:text-gray-100">Tax per Disposal</CardTitle>
+              <CardDescription className="text-gray-600 dark:text-gray-400">
+                Each lot sold, the rate for its holding period and the tax after loss set-off
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Stock</TableHead>
+                    <TableHead>Acquired</TableHead>
+                    <TableHead>Sold</TableHead>
+                    <TableHead>FY</TableHead>
+                    <TableHead className="text-right">Days Held</TableHead>
+                    <TableHead className="text-right">Shares</TableHead>
+                    <TableHead className="text-right">Cost</TableHead>
+                    <TableHead className="text-right">Proceeds</TableHead>
+                    <TableHead className="text-right">Gain</TableHead>
+                    <TableHead className="text-right">Rate</TableHead>
+                    <TableHead className="text-right">Tax</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {cgtData.disposals.map((d) => (
+                    <TableRow key={d.id}>
+                      <TableCell className="font-medium">{d.stockSymbol}</TableCell>
+                      <TableCell>{formatDate(new Date(d.acquiredDate))}</TableCell>
+                      <TableCell>{formatDate(new Date(d.disposedDate))}</TableCell>
+                      <TableCell>{d.fiscalYear}</TableCell>
+                      <TableCell className="text-right">{d.holdingDays}</TableCell>
+                      <TableCell className="text-right">{d.quantity.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(d.costBasis)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(d.proceeds)}</TableCell>
+                      <TableCell
+                        className={`text-right ${d.gain >= 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}`}
+                      >
+                        {formatCurrency(d.gain)}
+                      </TableCell>
+                      <TableCell className="text-right">{d.rate}%</TableCell>
+                      <TableCell className="text-right">{formatCurrency(d.tax)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {selectedChart === "capitalGains" && dividendTaxData && dividendTaxData.length > 0 && (
+        <Card className="border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-900">
+          <CardHeader>
+            <CardTitle className="text-gray-900 dark:text-gray-100">Dividend Tax per Fiscal Year</CardTitle>
+            <CardDescription className="text-gray-600 dark:text-gray-400">
+              Gross dividends, tax withheld at source and zakat deducted, for your return
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Fiscal Year</TableHead>
+                  <TableHead>Stock</TableHead>
+                  <TableHead className="text-right">Payouts</TableHead>
+                  <TableHead className="text-right">Gross</TableHead>
+                  <TableHead className="text-right">Withholding Tax</TableHead>
+                  <TableHead className="text-right">Zakat</TableHead>
+                  <TableHead className="text-right">Net</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {dividendTaxData.flatMap((year) => [
+                  ...year.stocks.map((stock) => (
+                    <TableRow key={`${year.fiscalYear}-${stock.symbol}`}>
+                      <TableCell>{year.fiscalYear}</TableCell>
+                      <TableCell>{stock.symbol}</TableCell>
+                      <TableCell className="text-right">{stock.count}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(stock.gross)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(stock.withholdingTax)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(stock.zakat)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(stock.net)}</TableCell>
+                    </TableRow>
+                  )),
+                  <TableRow key={`${year.fiscalYear}-total`} className="font-bold">
+                    <TableCell>{year.fiscalYear}</TableCell>
+                    <TableCell>Total</TableCell>
+                    <TableCell className="text-right">{year.count}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(year.gross)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(year.withholdingTax)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(year.zakat)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(year.net)}</TableCell>
+                  </TableRow>,
+                ])}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
@@ -2,18 +2,30 @@ import { useAuth } from "@/_core/hooks/useAuth";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
-import { Loader2 } from "lucide-react";
+import { Loader2, Lock, Pencil, Plus, Trash2 } from "lucide-react";
+import { useState } from "react";
 
 const WINDOW_OPTIONS = [
-  { value: 1, label: "1 day (same day only)" },
-  { value: 2, label: "2 days" },
-  { value: 3, label: "3 days" },
-  { value: 5, label: "5 days (1 week)" },
-  { value: 7, label: "7 days" },
+  { value: 1, label: "1 session (same day only)" },
+  { value: 2, label: "2 sessions" },
+  { value: 3, label: "3 sessions" },
+  { value: 5, label: "5 sessions (1 week)" },
+  { value: 7, label: "7 sessions" },
 ];
 
+const COST_BASIS_OPTIONS = [
+  { value: "AVERAGE", label: "Moving average" },
+  { value: "FIFO", label: "FIFO (first in, first out)" },
+  { value: "LIFO", label: "LIFO (last in, first out)" },
+] as const;
+
 export default function Settings() {
   const { user } = useAuth();
   const utils = trpc.useUtils();
@@ -24,9 +36,23 @@ export default function Settings() {
 
   const setWindowMutation = trpc.settings.setTradingWindow.useMutation({
     onSuccess: (data) => {
-      utils.settings.get.setData(undefined, data);
+      utils.settings.get.setData(undefined, (prev) => prev && { ...prev, tradingWindowDays: data.tradingWindowDays });
+      utils.stock.list.invalidate();
+      toast.success("Setting saved", {
+        description: `Trading window set to ${data.tradingWindowDays} session${data.tradingWindowDays > 1 ? "s" : ""}; recomputed ${data.stocksRecomputed} stock${data.stocksRecomputed === 1 ? "" : "s"}.`,
+      });
+    },
+    onError: (err) => {
+      toast.error("Failed to save setting", { description: err.message });
+    },
+  });
+
+  const setMethodMutation = trpc.settings.setCostBasisMethod.useMutation({
+    onSuccess: (data) => {
+      utils.settings.get.setData(undefined, (prev) => prev && { ...prev, costBasisMethod: data.costBasisMethod });
+      utils.stock.list.invalidate();
       toast.success("Setting saved", {
-        description: `Trading window set to ${data.tradingWindowDays} day${data.tradingWindowDays > 1 ? "s" : ""}.`,
+        description: `Recomputed ${data.stocksRecomputed} stock${data.stocksRecomputed === 1 ? "" : "s"} using ${data.costBasisMethod}.`,
       });
     },
     onError: (err) => {
@@ -38,6 +64,10 @@ export default function Settings() {
     setWindowMutation.mutate({ days: parseInt(value, 10) });
   };
 
+  const handleMethodChange = (value: string) => {
+    setMethodMutation.mutate({ method: value as (typeof COST_BASIS_OPTIONS)[number]["value"] });
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-48">
@@ -53,13 +83,49 @@ export default function Settings() {
         <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Configure how your portfolio is calculated.</p>
       </div>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>Cost-Basis Method</CardTitle>
+          <CardDescription>
+            How the cost of sold shares is determined. Moving average uses the running average cost
+            (with the trading window below); FIFO and LIFO relieve your oldest or newest buy lots first.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="cost-basis-method">Method</Label>
+            <Select
+              value={settings?.costBasisMethod ?? "AVERAGE"}
+              onValueChange={handleMethodChange}
+              disabled={setMethodMutation.isPending}
+            >
+              <SelectTrigger id="cost-basis-method" className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COST_BASIS_OPTIONS.map((opt) => (
+                  <SelectItem key={opt.value} value={opt.value}>
+                    {opt.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            Switching the method recomputes every stock in your portfolio immediately.
+          </div>
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle>Trading Window</CardTitle>
           <CardDescription>
-            When you sell shares within this many days of buying them, the profit is calculated using
-            the original buy price (FIFO) rather than the running average cost. Use a larger window if
-            you typically hold trades for a couple of days before selling.
+            When you sell shares within this many trading sessions of buying them, the profit is
+            calculated using the original buy price (FIFO) rather than the running average cost. Use a
+            larger window if you typically hold trades for a couple of days before selling. Only applies
+            to the moving average method.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -84,17 +150,590 @@ export default function Settings() {
           </div>
 
           <div className="rounded-md bg-blue-50 dark:bg-blue-900/20 p-3 text-sm text-blue-700 dark:text-blue-300">
-            <strong>Example:</strong> With a 2-day window, buying FCEPL at 105 on Monday and selling
+            <strong>Example:</strong> With a 2-session window, buying FCEPL at 105 on Monday and selling
             at 107 on Tuesday uses 105 as the cost basis — profit is 2/share — even if the running
             average is higher.
           </div>
 
+          <div className="text-sm text-gray-600 dark:text-gray-300">
+            The window counts sessions, not calendar days: weekends and the market holidays below are
+            skipped, so a Friday buy and a Monday sell are two consecutive sessions.
+          </div>
+
           <div className="text-xs text-gray-500 dark:text-gray-400">
             Changing this setting triggers a full recompute of your portfolio the next time transactions
             are saved. To apply it immediately, use the "Recompute" button on any stock.
           </div>
         </CardContent>
       </Card>
+
+      {settings && <MarketHolidaysCard holidays={settings.marketHolidays} />}
+
+      {settings && <CapitalGainsTaxCard isFiler={settings.isFiler} slabs={settings.cgtSlabs} />}
+
+      <PortfoliosCard />
+
+      <FeeSchedulesCard />
     </div>
   );
 }
+
+function PortfoliosCard() {
+  const { user } = useAuth();
+  const utils = trpc.useUtils();
+  const { data: portfolios = [] } = trpc.portfolio.list.useQuery();
+  const [editing, setEditing] = useState<(typeof portfolios)[number] | "new" | null>(null);
+
+  const onSaved = () => {
+    utils.portfolio.list.invalidate();
+    setEditing(null);
+    toast.success("Portfolio saved");
+  };
+  const onError = (err: { message: string }) => {
+    toast.error("Failed to save portfolio", { description: err.message });
+  };
+  const createMutation = trpc.portfolio.create.useMutation({ onSuccess: onSaved, onError });
+  const updateMutation = trpc.portfolio.update.useMutation({ onSuccess: onSaved, onError });
+  const lockMutation = trpc.portfolio.setLock.useMutation({
+    onSuccess: (portfolio) => {
+      utils.portfolio.list.invalidate();
+      toast.success(portfolio.lockedThrough ? `Books closed through ${portfolio.lockedThrough}` : "Books reopened");
+    },
+    onError: (err) => {
+      toast.error("Failed to change the locked period", { description: err.message });
+    },
+  });
+
+  const deleteMutation = trpc.portfolio.delete.useMutation({
+    onSuccess: () => {
+      utils.portfolio.list.invalidate();
+      toast.success("Portfolio deleted");
+    },
+    onError: (err) => {
+      toast.error("Failed to delete portfolio", { description: err.message });
+    },
+  });
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const formData = new FormData(e.target as HTMLFormElement);
+    const input = {
+      name: (formData.get("name") as string) || "",
+      brokerName: (formData.get("brokerName") as string) || undefined,
+      allowShortSelling: formData.get("allowShortSelling") === "on",
+    };
+
+    if (editing && editing !== "new") {
+      updateMutation.mutate({ id: editing.id, ...input });
+      const lockedThrough = (formData.get("lockedThrough") as string) || null;
+      if (lockedThrough !== editing.lockedThrough) {
+        lockMutation.mutate({ id: editing.id, lockedThrough });
+      }
+    } else {
+      createMutation.mutate(input);
+    }
+  };
+
+  const handleDelete = (id: number, name: string) => {
+    if (!confirm(`Delete the portfolio ${name}?`)) return;
+    deleteMutation.mutate({ id });
+  };
+
+  const current = editing && editing !== "new" ? editing : null;
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Portfolios</CardTitle>
+        <CardDescription>
+          Keep each brokerage account separate. Holdings, cost basis and realized gains are tracked per
+          portfolio; pick "All portfolios" in the header for a consolidated view. Only portfolios without
+          transactions can be deleted.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="divide-y dark:divide-gray-800">
+          {portfolios.map((portfolio) => (
+            <div key={portfolio.id} className="flex items-center justify-between py-2">
+              <div>
+                <div className="font-medium">{portfolio.name}</div>
+                {(portfolio.brokerName || portfolio.allowShortSelling || portfolio.lockedThrough) && (
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {[
+                      portfolio.brokerName,
+                      portfolio.allowShortSelling && "Short selling",
+                      portfolio.lockedThrough && `Locked through ${portfolio.lockedThrough}`,
+                    ].filter(Boolean).join(" · ")}
+                  </div>
+                )}
+              </div>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="icon" onClick={() => setEditing(portfolio)}>
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(portfolio.id, portfolio.name)}
+                  disabled={deleteMutation.isPending || portfolios.length === 1}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <Button variant="outline" onClick={() => setEditing("new")}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Portfolio
+        </Button>
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{current ? "Edit Portfolio" : "Add Portfolio"}</DialogTitle>
+            <DialogDescription>A portfolio usually maps to one brokerage account.</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div>
+              <Label htmlFor="portfolio-name">Name *</Label>
+              <Input id="portfolio-name" name="name" defaultValue={current?.name ?? ""} maxLength={100} required />
+            </div>
+            <div>
+              <Label htmlFor="portfolio-brokerName">Broker</Label>
+              <Input
+                id="portfolio-brokerName"
+                name="brokerName"
+                defaultValue={current?.brokerName ?? ""}
+                maxLength={100}
+              />
+            </div>
+            <div className="flex items-start gap-2">
+              <Checkbox
+                id="portfolio-allowShortSelling"
+                name="allowShortSelling"
+                defaultChecked={current?.allowShortSelling ?? false}
+              />
+              <div>
+                <Label htmlFor="portfolio-allowShortSelling">Allow short selling</Label>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  For margin accounts: sells beyond the shares held open a short position, and buys cover it.
+                </p>
+              </div>
+            </div>
+            {current && (
+              <div>
+                <Label htmlFor="portfolio-lockedThrough" className="flex items-center gap-1">
+                  <Lock className="w-3 h-3" />
+                  Books closed through
+                </Label>
+                <Input
+                  id="portfolio-lockedThrough"
+                  name="lockedThrough"
+                  type="date"
+                  defaultValue={current.lockedThrough ?? ""}
+                  min={user?.role === "admin" ? undefined : current.lockedThrough ?? undefined}
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Once taxes are filed for a year, close its books: transactions on or before this date can no
+                  longer be added, edited, deleted or imported. Only an admin can move the date back or clear it.
+                </p>
+              </div>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : "Save"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+function MarketHolidaysCard(props: { holidays: { date: string; name: string }[] }) {
+  const utils = trpc.useUtils();
+  const [holidays, setHolidays] = useState(props.holidays);
+
+  const saveMutation = trpc.settings.setMarketHolidays.useMutation({
+    onSuccess: (data) => {
+      utils.settings.get.setData(undefined, (prev) => prev && { ...prev, marketHolidays: data.marketHolidays });
+      utils.stock.list.invalidate();
+      toast.success("Setting saved", {
+        description: `Recomputed ${data.stocksRecomputed} stock${data.stocksRecomputed === 1 ? "" : "s"} with the new holidays.`,
+      });
+    },
+    onError: (err) => {
+      toast.error("Failed to save setting", { description: err.message });
+    },
+  });
+
+  const updateHoliday = (index: number, patch: Partial<{ date: string; name: string }>) => {
+    setHolidays(holidays.map((holiday, i) => (i === index ? { ...holiday, ...patch } : holiday)));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Market Holidays</CardTitle>
+        <CardDescription>
+          Days the PSX is closed besides weekends, skipped when the trading window counts sessions.
+          Enter MM-DD for a holiday on the same date every year, and YYYY-MM-DD for one that moves,
+          such as the Eids, once it is announced.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <div className="grid grid-cols-[1fr_2fr_auto] gap-2 text-xs text-gray-500 dark:text-gray-400">
+            <span>Date</span>
+            <span>Holiday</span>
+            <span className="w-9" />
+          </div>
+          {holidays.map((holiday, index) => (
+            <div key={index} className="grid grid-cols-[1fr_2fr_auto] gap-2">
+              <Input
+                value={holiday.date}
+                onChange={(e) => updateHoliday(index, { date: e.target.value })}
+                placeholder="YYYY-MM-DD"
+              />
+              <Input value={holiday.name} onChange={(e) => updateHoliday(index, { name: e.target.value })} />
+              <Button variant="ghost" size="icon" onClick={() => setHolidays(holidays.filter((_, i) => i !== index))}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={() => setHolidays([...holidays, { date: "", name: "" }])}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Holiday
+          </Button>
+          <Button onClick={() => saveMutation.mutate({ holidays })} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : "Save"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+type CgtSlabRow = { maxHoldingMonths: string; filerRate: string; nonFilerRate: string };
+
+function CapitalGainsTaxCard(props: {
+  isFiler: boolean;
+  slabs: { maxHoldingMonths: number | null; filerRate: string; nonFilerRate: string }[];
+}) {
+  const utils = trpc.useUtils();
+  const [isFiler, setIsFiler] = useState(props.isFiler);
+  const [slabs, setSlabs] = useState<CgtSlabRow[]>(
+    props.slabs.map((slab) => ({ ...slab, maxHoldingMonths: slab.maxHoldingMonths?.toString() ?? "" }))
+  );
+
+  const saveMutation = trpc.settings.setCapitalGainsTax.useMutation({
+    onSuccess: (data) => {
+      utils.settings.get.setData(undefined, (prev) => prev && { ...prev, ...data });
+      utils.reports.capitalGainsTax.invalidate();
+      toast.success("Setting saved", { description: "Capital gains tax rates updated." });
+    },
+    onError: (err) => {
+      toast.error("Failed to save setting", { description: err.message });
+    },
+  });
+
+  const updateSlab = (index: number, patch: Partial<CgtSlabRow>) => {
+    setSlabs(slabs.map((slab, i) => (i === index ? { ...slab, ...patch } : slab)));
+  };
+
+  const handleSave = () => {
+    saveMutation.mutate({
+      isFiler,
+      slabs: slabs.map((slab) => ({
+        maxHoldingMonths: slab.maxHoldingMonths ? parseInt(slab.maxHoldingMonths, 10) : null,
+        filerRate: slab.filerRate || "0",
+        nonFilerRate: slab.nonFilerRate || "0",
+      })),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Capital Gains Tax</CardTitle>
+        <CardDescription>
+          Rates applied to realized gains by holding period, used by the Capital Gains Tax report.
+          Leave the holding period blank for the slab that covers anything longer.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="filer-status">Filer status</Label>
+          <Select value={isFiler ? "filer" : "non-filer"} onValueChange={(v) => setIsFiler(v === "filer")}>
+            <SelectTrigger id="filer-status" className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="filer">Filer (on the ATL)</SelectItem>
+              <SelectItem value="non-filer">Non-filer</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 text-xs text-gray-500 dark:text-gray-400">
+            <span>Held up to (months)</span>
+            <span>Filer rate (%)</span>
+            <span>Non-filer rate (%)</span>
+            <span className="w-9" />
+          </div>
+          {slabs.map((slab, index) => (
+            <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2">
+              <Input
+                type="number"
+                min="1"
+                step="1"
+                value={slab.maxHoldingMonths}
+                onChange={(e) => updateSlab(index, { maxHoldingMonths: e.target.value })}
+                placeholder="Longer"
+              />
+              <Input
+                type="number"
+                min="0"
+                step="any"
+                value={slab.filerRate}
+                onChange={(e) => updateSlab(index, { filerRate: e.target.value })}
+              />
+              <Input
+                type="number"
+                min="0"
+                step="any"
+                value={slab.nonFilerRate}
+                onChange={(e) => updateSlab(index, { nonFilerRate: e.target.value })}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setSlabs(slabs.filter((_, i) => i !== index))}
+                disabled={slabs.length === 1}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-between">
+          <Button
+            variant="outline"
+            onClick={() => setSlabs([...slabs, { maxHoldingMonths: "", filerRate: "0", nonFilerRate: "0" }])}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Slab
+          </Button>
+          <Button onClick={handleSave} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : "Save"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+const RATE_FIELDS = [
+  { name: "salesTaxRate", label: "Sales Tax on Commission (%)" },
+  { name: "cvtRate", label: "CVT (% of value, buys only)" },
+  { name: "levyRate", label: "SECP/PSX Levies (% of value)" },
+  { name: "cdcPerShare", label: "CDC Charges (PKR per share)" },
+] as const;
+
+function FeeSchedulesCard() {
+  const utils = trpc.useUtils();
+  const { data: schedules = [] } = trpc.settings.feeSchedules.useQuery();
+  const [editing, setEditing] = useState<(typeof schedules)[number] | "new" | null>(null);
+
+  const saveMutation = trpc.settings.saveFeeSchedule.useMutation({
+    onSuccess: (data) => {
+      utils.settings.feeSchedules.invalidate();
+      setEditing(null);
+      toast.success("Fee schedule saved", { description: data.brokerName });
+    },
+    onError: (err) => {
+      toast.error("Failed to save fee schedule", { description: err.message });
+    },
+  });
+
+  const deleteMutation = trpc.settings.deleteFeeSchedule.useMutation({
+    onSuccess: () => {
+      utils.settings.feeSchedules.invalidate();
+      toast.success("Fee schedule deleted");
+    },
+    onError: (err) => {
+      toast.error("Failed to delete fee schedule", { description: err.message });
+    },
+  });
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const formData = new FormData(e.target as HTMLFormElement);
+    const value = (name: string) => ((formData.get(name) as string) || "0").trim();
+
+    saveMutation.mutate({
+      id: editing && editing !== "new" ? editing.id : undefined,
+      brokerName: (formData.get("brokerName") as string) || "",
+      commissionType: formData.get("commissionType") === "PER_SHARE" ? "PER_SHARE" : "PERCENT",
+      commissionRate: value("commissionRate"),
+      minCommission: value("minCommission"),
+      salesTaxRate: value("salesTaxRate"),
+      cvtRate: value("cvtRate"),
+      levyRate: value("levyRate"),
+      cdcPerShare: value("cdcPerShare"),
+      isDefault: formData.get("isDefault") === "on",
+    });
+  };
+
+  const handleDelete = (id: number, brokerName: string) => {
+    if (!confirm(`Delete the fee schedule for ${brokerName}?`)) return;
+    deleteMutation.mutate({ id });
+  };
+
+  const current = editing && editing !== "new" ? editing : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Broker Fee Schedules</CardTitle>
+        <CardDescription>
+          How each of your brokers charges. New BUY and SELL entries pre-fill their charges from the
+          selected broker, and Excel imports without charge columns use the default schedule.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {schedules.length === 0 ? (
+          <div className="text-sm text-gray-500 dark:text-gray-400">No fee schedules yet.</div>
+        ) : (
+          <div className="divide-y dark:divide-gray-800">
+            {schedules.map((schedule) => (
+              <div key={schedule.id} className="flex items-center justify-between py-2">
+                <div>
+                  <div className="font-medium flex items-center gap-2">
+                    {schedule.brokerName}
+                    {schedule.isDefault && <Badge variant="secondary">Default</Badge>}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {schedule.commissionType === "PER_SHARE"
+                      ? `PKR ${schedule.commissionRate}/share`
+                      : `${schedule.commissionRate}%`}
+                    {" "}commission, min PKR {schedule.minCommission}
+                  </div>
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="icon" onClick={() => setEditing(schedule)}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDelete(schedule.id, schedule.brokerName)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button variant="outline" onClick={() => setEditing("new")}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Broker
+        </Button>
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{current ? "Edit Fee Schedule" : "Add Fee Schedule"}</DialogTitle>
+            <DialogDescription>Rates are percentages unless noted otherwise.</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div>
+              <Label htmlFor="fee-brokerName">Broker *</Label>
+              <Input id="fee-brokerName" name="brokerName" defaultValue={current?.brokerName ?? ""} required />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="fee-commissionType">Commission</Label>
+                <Select name="commissionType" defaultValue={current?.commissionType ?? "PERCENT"}>
+                  <SelectTrigger id="fee-commissionType">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="PERCENT">% of value</SelectItem>
+                    <SelectItem value="PER_SHARE">Per share</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="fee-commissionRate">Rate</Label>
+                <Input
+                  id="fee-commissionRate"
+                  name="commissionRate"
+                  type="number"
+                  step="any"
+                  min="0"
+                  defaultValue={current?.commissionRate ?? "0"}
+                />
+              </div>
+              <div>
+                <Label htmlFor="fee-minCommission">Minimum (PKR)</Label>
+                <Input
+                  id="fee-minCommission"
+                  name="minCommission"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  defaultValue={current?.minCommission ?? "0"}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              {RATE_FIELDS.map((field) => (
+                <div key={field.name}>
+                  <Label htmlFor={`fee-${field.name}`}>{field.label}</Label>
+                  <Input
+                    id={`fee-${field.name}`}
+                    name={field.name}
+                    type="number"
+                    step="any"
+                    min="0"
+                    defaultValue={current?.[field.name] ?? "0"}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox id="fee-isDefault" name="isDefault" defaultChecked={current?.isDefault ?? schedules.length === 0} />
+              <Label htmlFor="fee-isDefault">Use as default broker</Label>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : "Save"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,357 +1,1035 @@
-import { useParams } from "wouter";
-import { useAuth } from "@/_core/hooks/useAuth";
-import { Button } from "@/components/ui/button";
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Badge } from "@/components/ui/badge";
-import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Textarea } from "@/components/ui/textarea";
-import { Loader2, Trash2, Edit } from "lucide-react";
-import { trpc } from "@/lib/trpc";
-import { formatCurrency, formatPercent, formatDate } from "@/lib/utils";
-import { toast } from "sonner";
-import { useState } from "react";
-
-export default function StockDetail() {
-  const { user } = useAuth();
-  const { id } = useParams();
-  const stockId = parseInt(id || "0");
-
-  const { data: detail, isLoading, refetch } = trpc.stock.getDetail.useQuery(
-    { id: stockId },
-    { enabled: !!user && stockId > 0 }
-  );
-
-  const deleteTransactionMutation = trpc.transaction.delete.useMutation();
-  const updateTransactionMutation = trpc.transaction.update.useMutation();
-  const [editingTransaction, setEditingTransaction] = useState<any>(null);
-  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
-
-  const handleDeleteTransaction = async (transactionId: number) => {
-    if (!confirm("Are you sure you want to delete this transaction?")) return;
-
-    try {
-      await deleteTransactionMutation.mutateAsync({ id: transactionId });
-      toast.success("Transaction deleted");
-      refetch();
-    } catch (error: any) {
-      toast.error(error.message || "Failed to delete transaction");
-    }
-  };
-
-  const handleEditTransaction = (txn: any) => {
-    setEditingTransaction(txn);
-    setIsEditDialogOpen(true);
-  };
-
-  const handleUpdateTransaction = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!editingTransaction) return;
-
-    const formData = new FormData(e.target as HTMLFormElement);
-    const type = formData.get("type") as "BUY" | "SELL" | "DIVIDEND";
-    const date = formData.get("date") as string;
-    const quantity = formData.get("quantity") as string;
-    const totalAmount = formData.get("totalAmount") as string;
-    const notes = formData.get("notes") as string;
-
-    if (!type || !date || !totalAmount) {
-      toast.error("Please fill in all required fields");
-      return;
-    }
-
-    if ((type === "BUY" || type === "SELL") && !quantity) {
-      toast.error("Quantity is required for BUY/SELL transactions");
-      return;
-    }
-
-    try {
-      await updateTransactionMutation.mutateAsync({
-        id: editingTransaction.id,
-        type,
-        date: new Date(date),
-        quantity: type === "DIVIDEND" ? null : (quantity || null),
-        totalAmount,
-        notes: notes || undefined,
-      });
-      toast.success("Transaction updated");
-      setIsEditDialogOpen(false);
-      setEditingTransaction(null);
-      refetch();
-    } catch (error: any) {
-      toast.error(error.message || "Failed to update transaction");
-    }
-  };
-
-  if (isLoading) {
-    return (
-      <div className="flex items-center justify-center min-h-screen">
-        <Loader2 className="animate-spin" />
-      </div>
-    );
-  }
-
-  if (!detail) {
-    return (
-      <div className="text-center py-8">
-        <p className="text-muted-foreground">Stock not found</p>
-      </div>
-    );
-  }
-
-  const { stock, aggregate, currentPrice, unrealizedProfit, gainLossPercent, transactions } = detail;
-
-  return (
-    <div className="space-y-6">
-      {/* Header */}
-      <div>
-        <h1 className="text-3xl font-bold">{stock.symbol}</h1>
-        <p className="text-muted-foreground">{stock.name}</p>
-      </div>
-
-      {/* Summary Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-        <Card>
-          <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium">Total Shares</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p className="text-2xl font-bold">{aggregate ? parseFloat(aggregate.totalShares).toFixed(2) : "0"}</p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium">Average Cost</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p className="text-2xl font-bold">{aggregate ? formatCurrency(parseFloat(aggregate.avgCost)) : "N/A"}</p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium">Current Price</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p className="text-2xl font-bold">{formatCurrency(currentPrice)}</p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium">Gain/Loss %</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p className={`text-2xl font-bold ${gainLossPercent >= 0 ? "text-green-600" : "text-red-600"}`}>
-              {formatPercent(gainLossPercent)}
-            </p>
-          </CardContent>
-        </Card>
-      </div>
-
-      {/* Profit Summary */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-        <Card>
-          <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium">Total Invested</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p className="text-2xl font-bold">{aggregate ? formatCurrency(parseFloat(aggregate.totalInvested)) : "0"}</p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium">Unrealized Profit</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p className={`text-2xl font-bold ${unrealizedProfit >= 0 ? "text-green-600" : "text-red-600"}`}>
-              {formatCurrency(unrealizedProfit)}
-            </p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium">Realized Profit</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p className={`text-2xl font-bold ${aggregate && parseFloat(aggregate.realizedProfit) >= 0 ? "text-green-600" : "text-red-600"}`}>
-              {aggregate ? formatCurrency(parseFloat(aggregate.realizedProfit)) : "0"}
-            </p>
-          </CardContent>
-        </Card>
-      </div>
-
-      {/* Transactions Table */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Transactions</CardTitle>
-          <CardDescription>All transactions for this stock</CardDescription>
-        </CardHeader>
-        <CardContent>
-          {transactions && transactions.length > 0 ? (
-            <div className="overflow-x-auto">
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Date</TableHead>
-                    <TableHead>Type</TableHead>
-                    <TableHead className="text-right">Quantity</TableHead>
-                    <TableHead className="text-right">Unit Price</TableHead>
-                    <TableHead className="text-right">Total Amount</TableHead>
-                    <TableHead>Notes</TableHead>
-                    <TableHead className="text-center">Actions</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {transactions.map((txn) => (
-                    <TableRow key={txn.id}>
-                      <TableCell>{formatDate(new Date(txn.date))}</TableCell>
-                      <TableCell>
-                        <Badge variant={txn.type === "BUY" ? "default" : txn.type === "SELL" ? "destructive" : "secondary"}>
-                          {txn.type}
-                        </Badge>
-                      </TableCell>
-                      <TableCell className="text-right">
-                        {txn.quantity ? parseFloat(txn.quantity).toFixed(2) : "-"}
-                      </TableCell>  
-                      <TableCell className="text-right">
-                        {txn.unitPrice ? formatCurrency(parseFloat(txn.unitPrice)) : txn.quantity ? formatCurrency(parseFloat(txn.totalAmount) / parseFloat(txn.quantity)) : "-"}
-                      </TableCell>
-                      <TableCell className="text-right">{formatCurrency(parseFloat(txn.totalAmount))}</TableCell>
-                      <TableCell className="text-sm text-muted-foreground">{txn.notes || "-"}</TableCell>
-                      <TableCell className="text-center">
-                        <div className="flex items-center justify-center gap-2">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleEditTransaction(txn)}
-                            disabled={updateTransactionMutation.isPending}
-                          >
-                            <Edit className="w-4 h-4" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleDeleteTransaction(txn.id)}
-                            disabled={deleteTransactionMutation.isPending}
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </Button>
-                        </div>
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            </div>
-          ) : (
-            <div className="text-center py-8 text-muted-foreground">
-              <p>No transactions for this stock yet.</p>
-            </div>
-          )}
-        </CardContent>
-      </Card>
-
-      {/* Edit Transaction Dialog */}
-      <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
-        <DialogContent className="max-w-2xl">
-          <DialogHeader>
-            <DialogTitle>Edit Transaction</DialogTitle>
-            <DialogDescription>Update transaction details</DialogDescription>
-          </DialogHeader>
-          {editingTransaction && (
-            <form onSubmit={handleUpdateTransaction} className="space-y-4">
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="edit-type">Transaction Type *</Label>
-                  <Select name="type" defaultValue={editingTransaction.type} required>
-                    <SelectTrigger id="edit-type">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="BUY">BUY</SelectItem>
-                      <SelectItem value="SELL">SELL</SelectItem>
-                      <SelectItem value="DIVIDEND">DIVIDEND</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div>
-                  <Label htmlFor="edit-date">Date *</Label>
-                  <Input
-                    id="edit-date"
-                    name="date"
-                    type="date"
-                    defaultValue={formatDate(new Date(editingTransaction.date))}
-                    required
-                  />
-                </div>
-              </div>
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="edit-quantity">Quantity (shares)</Label>
-                  <Input
-                    id="edit-quantity"
-                    name="quantity"
-                    type="number"
-                    step="0.01"
-                    defaultValue={editingTransaction.quantity || ""}
-                    placeholder="Enter quantity"
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="edit-totalAmount">Total Amount (PKR) *</Label>
-                  <Input
-                    id="edit-totalAmount"
-                    name="totalAmount"
-                    type="number"
-                    step="0.01"
-                    defaultValue={editingTransaction.totalAmount}
-                    required
-                    placeholder="Enter total amount"
-                  />
-                </div>
-              </div>
-              <div>
-                <Label htmlFor="edit-notes">Notes</Label>
-                <Textarea
-                  id="edit-notes"
-                  name="notes"
-                  defaultValue={editingTransaction.notes || ""}
-                  placeholder="Optional notes about this transaction"
-                />
-              </div>
-              <div className="flex justify-end gap-2">
-                <Button
-                  type="button"
-                  variant="outline"
-                  onClick={() => {
-                    setIsEditDialogOpen(false);
-                    setEditingTransaction(null);
-                  }}
-                >
-                  Cancel
-                </Button>
-                <Button type="submit" disabled={updateTransactionMutation.isPending}>
-                  {updateTransactionMutation.isPending ? (
-                    <>
-                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                      Updating...
-                    </>
-                  ) : (
-                    "Update Transaction"
-                  )}
-                </Button>
-              </div>
-            </form>
-          )}
-        </DialogContent>
-      </Dialog>
-    </div>
-  );
-}
+import { useParams } from "wouter";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Trash2, Edit, Plus, GripVertical, Lock } from "lucide-react";
+import { trpc } from "@/lib/trpc";
+import { formatCurrency, formatPercent, formatDate } from "@/lib/utils";
+import { toast } from "sonner";
+import { useRef, useState } from "react";
+import { usePortfolio } from "@/contexts/PortfolioContext";
+import type { TradeWarning } from "@shared/warnings";
+import { isPeriodLocked } from "@shared/locks";
+import {
+  TRANSACTION_FEE_FIELDS,
+  TRANSACTION_FEE_LABELS,
+  DIVIDEND_DEDUCTION_FIELDS,
+  DIVIDEND_DEDUCTION_LABELS,
+  type TransactionFees,
+  type DividendDeductions,
+} from "@shared/const";
+
+// Fields compared when an edit clashes with a newer saved copy of the transaction
+const CONFLICT_FIELDS: [string, string][] = [
+  ["type", "Type"],
+  ["date", "Date"],
+  ["quantity", "Quantity"],
+  ["totalAmount", "Trade value"],
+  ...TRANSACTION_FEE_FIELDS.map((field): [string, string] => [field, TRANSACTION_FEE_LABELS[field]]),
+  ...DIVIDEND_DEDUCTION_FIELDS.map((field): [string, string] => [field, DIVIDEND_DEDUCTION_LABELS[field]]),
+  ["notes", "Notes"],
+];
+
+export default function StockDetail() {
+  const { user } = useAuth();
+  const { id } = useParams();
+  const stockId = parseInt(id || "0");
+  const { portfolioId } = usePortfolio();
+
+  const { data: detail, isLoading, refetch } = trpc.stock.getDetail.useQuery(
+    { id: stockId, portfolioId },
+    { enabled: !!user && stockId > 0 }
+  );
+
+  const { data: lots, refetch: refetchLots } = trpc.stock.getLots.useQuery(
+    { stockId, portfolioId },
+    { enabled: !!user && stockId > 0 }
+  );
+
+  const { data: corporateActions, refetch: refetchActions } = trpc.stock.getCorporateActions.useQuery(
+    { stockId },
+    { enabled: !!user && stockId > 0 }
+  );
+
+  const addActionMutation = trpc.stock.addCorporateAction.useMutation();
+  const deleteActionMutation = trpc.stock.deleteCorporateAction.useMutation();
+  const [isActionDialogOpen, setIsActionDialogOpen] = useState(false);
+  const [actionType, setActionType] = useState<"SPLIT" | "BONUS" | "RIGHTS" | "CONVERSION" | "DEMERGER">("BONUS");
+  const [targetStockId, setTargetStockId] = useState("");
+  const { data: allStocks } = trpc.stock.list.useQuery(undefined, {
+    enabled: !!user && isActionDialogOpen && (actionType === "CONVERSION" || actionType === "DEMERGER"),
+  });
+  // Rights issue whose election dialog is open
+  const [rightsActionId, setRightsActionId] = useState<number | null>(null);
+  const [election, setElection] = useState<"SUBSCRIBE" | "RENOUNCE">("SUBSCRIBE");
+
+  const { data: entitlement, refetch: refetchEntitlement } = trpc.stock.getRightsEntitlement.useQuery(
+    { actionId: rightsActionId ?? 0, portfolioId },
+    { enabled: !!user && rightsActionId !== null }
+  );
+  const recordElectionMutation = trpc.stock.recordRightsElection.useMutation();
+
+  const deleteTransactionMutation = trpc.transaction.delete.useMutation();
+  const updateTransactionMutation = trpc.transaction.update.useMutation();
+  const [editingTransaction, setEditingTransaction] = useState<any>(null);
+  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  // The newer saved copy an edit clashed with, and the version to overwrite once the user keeps their changes
+  const [conflict, setConflict] = useState<any>(null);
+  const overwriteVersion = useRef<Date | null>(null);
+  const editFormRef = useRef<HTMLFormElement>(null);
+
+  const handleDeleteTransaction = async (txn: any) => {
+    if (!confirm("Are you sure you want to delete this transaction?")) return;
+
+    try {
+      try {
+        await deleteTransactionMutation.mutateAsync({ id: txn.id, expectedUpdatedAt: txn.updatedAt });
+      } catch (error: any) {
+        // Changed elsewhere since this page loaded it
+        const current = error?.data?.current;
+        if (!current) throw error;
+        if (!confirm("This transaction was changed since the page loaded. Delete it anyway?")) {
+          refetch();
+          return;
+        }
+        await deleteTransactionMutation.mutateAsync({ id: txn.id, expectedUpdatedAt: current.updatedAt });
+      }
+      toast.success("Transaction deleted");
+      refetch();
+      refetchLots();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to delete transaction");
+    }
+  };
+
+  const { data: portfolios } = trpc.portfolio.list.useQuery(undefined, { enabled: !!user });
+  // Rows dated in their portfolio's closed books cannot be changed
+  const lockedThrough = (id: number) => portfolios?.find((p) => p.id === id)?.lockedThrough ?? null;
+  const isLocked = (txn: { portfolioId: number; date: string }) => isPeriodLocked(lockedThrough(txn.portfolioId), txn.date);
+
+  const reorderMutation = trpc.transaction.reorder.useMutation();
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  // Same-day trades are put in the order they executed; the order is kept per portfolio
+  const canReorder = portfolioId !== undefined;
+
+  const handleDropTransaction = async (target: any) => {
+    const rows = detail?.transactions ?? [];
+    const dragged = rows.find((t) => t.id === draggedId);
+    setDraggedId(null);
+    if (!dragged || dragged.id === target.id || dragged.date !== target.date) return;
+
+    // Rows are listed latest first: dropping lands the row where the target was
+    const day = rows.filter((t) => t.date === target.date);
+    const movingDown = day.indexOf(dragged) < day.indexOf(target);
+    const reordered = day.filter((t) => t.id !== dragged.id);
+    reordered.splice(reordered.indexOf(target) + (movingDown ? 1 : 0), 0, dragged);
+
+    const ids = reordered.map((t) => t.id).reverse();
+    try {
+      try {
+        await reorderMutation.mutateAsync({ ids });
+      } catch (error: any) {
+        // An order that leaves a sale short of shares is saved only once confirmed
+        const warnings: TradeWarning[] | undefined = error?.data?.warnings;
+        if (!warnings || warnings.length === 0) throw error;
+        if (!confirm(`${warnings.map((w) => w.message).join(" ")} Reorder anyway?`)) return;
+        await reorderMutation.mutateAsync({ ids, confirmOverride: true });
+      }
+      toast.success("Order updated");
+      refetch();
+      refetchLots();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to reorder transactions");
+    }
+  };
+
+  const handleEditTransaction = (txn: any) => {
+    setEditingTransaction(txn);
+    setConflict(null);
+    overwriteVersion.current = null;
+    setIsEditDialogOpen(true);
+  };
+
+  // Start over from the newer saved copy
+  const handleUseLatest = () => {
+    setEditingTransaction(conflict);
+    setConflict(null);
+    overwriteVersion.current = null;
+  };
+
+  // Save the form as it is, over the newer saved copy
+  const handleKeepMine = () => {
+    overwriteVersion.current = conflict.updatedAt;
+    setConflict(null);
+    editFormRef.current?.requestSubmit();
+  };
+
+  const handleUpdateTransaction = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingTransaction) return;
+
+    const formData = new FormData(e.target as HTMLFormElement);
+    const type = formData.get("type") as "BUY" | "SELL" | "DIVIDEND";
+    const date = formData.get("date") as string;
+    const quantity = formData.get("quantity") as string;
+    const totalAmount = formData.get("totalAmount") as string;
+    const notes = formData.get("notes") as string;
+    const fees: TransactionFees = Object.fromEntries(
+      TRANSACTION_FEE_FIELDS.map((field) => [field, (formData.get(`fee-${field}`) as string) || "0"])
+    );
+    const deductions: DividendDeductions = Object.fromEntries(
+      DIVIDEND_DEDUCTION_FIELDS.map((field) => [field, (formData.get(`deduction-${field}`) as string) || "0"])
+    );
+
+    if (!type || !date || !totalAmount) {
+      toast.error("Please fill in all required fields");
+      return;
+    }
+
+    if ((type === "BUY" || type === "SELL") && !quantity) {
+      toast.error("Quantity is required for BUY/SELL transactions");
+      return;
+    }
+
+    const update = {
+      id: editingTransaction.id,
+      type,
+      date: new Date(date),
+      quantity: type === "DIVIDEND" ? null : (quantity || null),
+      totalAmount,
+      notes: notes || undefined,
+      fees: type === "DIVIDEND" ? undefined : fees,
+      deductions: type === "DIVIDEND" ? deductions : undefined,
+      expectedUpdatedAt: overwriteVersion.current ?? editingTransaction.updatedAt,
+    };
+
+    try {
+      try {
+        await updateTransactionMutation.mutateAsync(update);
+      } catch (error: any) {
+        // Oversells and sales below average cost are saved only once confirmed
+        const warnings: TradeWarning[] | undefined = error?.data?.warnings;
+        if (!warnings || warnings.length === 0) throw error;
+        if (!confirm(`${warnings.map((w) => w.message).join(" ")} Save anyway?`)) return;
+        await updateTransactionMutation.mutateAsync({ ...update, confirmOverride: true });
+      }
+      toast.success("Transaction updated");
+      setIsEditDialogOpen(false);
+      setEditingTransaction(null);
+      overwriteVersion.current = null;
+      refetch();
+      refetchLots();
+    } catch (error: any) {
+      // Saved elsewhere since the dialog opened: show the latest values and let the user choose
+      if (error?.data?.current) {
+        setConflict(error.data.current);
+        return;
+      }
+      toast.error(error.message || "Failed to update transaction");
+    }
+  };
+
+  const handleAddCorporateAction = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const formData = new FormData(e.target as HTMLFormElement);
+    const type = actionType;
+    const effectiveDate = formData.get("effectiveDate") as string;
+    const ratioNew = formData.get("ratioNew") as string;
+    const ratioOld = formData.get("ratioOld") as string;
+    const subscriptionPrice = formData.get("subscriptionPrice") as string | null;
+    const costPercent = formData.get("costPercent") as string | null;
+    const movesHolding = type === "CONVERSION" || type === "DEMERGER";
+    const notes = formData.get("notes") as string;
+
+    if (
+      !type ||
+      !effectiveDate ||
+      !ratioNew ||
+      !ratioOld ||
+      (type === "RIGHTS" && !subscriptionPrice) ||
+      (movesHolding && !targetStockId) ||
+      (type === "DEMERGER" && !costPercent)
+    ) {
+      toast.error("Please fill in all required fields");
+      return;
+    }
+
+    try {
+      await addActionMutation.mutateAsync({
+        stockId,
+        type,
+        effectiveDate: new Date(effectiveDate),
+        ratioNew,
+        ratioOld,
+        subscriptionPrice: type === "RIGHTS" ? subscriptionPrice! : undefined,
+        targetStockId: movesHolding ? parseInt(targetStockId) : undefined,
+        costPercent: type === "DEMERGER" ? costPercent! : undefined,
+        notes: notes || undefined,
+      });
+      toast.success("Corporate action recorded");
+      setIsActionDialogOpen(false);
+      setTargetStockId("");
+      refetch();
+      refetchLots();
+      refetchActions();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to record corporate action");
+    }
+  };
+
+  const handleRecordElection = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (rightsActionId === null || portfolioId === undefined) return;
+
+    const formData = new FormData(e.target as HTMLFormElement);
+    const date = formData.get("date") as string;
+    const quantity = formData.get("quantity") as string;
+    const proceeds = formData.get("proceeds") as string | null;
+
+    if (!date || !quantity || (election === "RENOUNCE" && !proceeds)) {
+      toast.error("Please fill in all required fields");
+      return;
+    }
+
+    try {
+      await recordElectionMutation.mutateAsync({
+        portfolioId,
+        actionId: rightsActionId,
+        election,
+        date: new Date(date),
+        quantity,
+        proceeds: election === "RENOUNCE" ? proceeds! : undefined,
+      });
+      toast.success(election === "SUBSCRIBE" ? "Rights subscription recorded" : "Rights renunciation recorded");
+      (e.target as HTMLFormElement).reset();
+      refetch();
+      refetchLots();
+      refetchEntitlement();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to record rights election");
+    }
+  };
+
+  const handleDeleteCorporateAction = async (actionId: number) => {
+    if (!confirm("Delete this corporate action? The holding will be recomputed without it.")) return;
+
+    try {
+      await deleteActionMutation.mutateAsync({ id: actionId });
+      toast.success("Corporate action deleted");
+      refetch();
+      refetchLots();
+      refetchActions();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to delete corporate action");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="animate-spin" />
+      </div>
+    );
+  }
+
+  if (!detail) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-muted-foreground">Stock not found</p>
+      </div>
+    );
+  }
+
+  const { stock, aggregate, currentPrice, unrealizedProfit, gainLossPercent, transactions } = detail;
+
+  // Charges on a trade, or tax withheld and zakat on a dividend
+  const feeTotal = (txn: Record<string, any>) =>
+    [...TRANSACTION_FEE_FIELDS, ...DIVIDEND_DEDUCTION_FIELDS].reduce((sum, field) => sum + parseFloat(txn[field] || "0"), 0);
+
+  const daysHeld = (acquiredDate: string) =>
+    Math.floor((Date.now() - new Date(acquiredDate + "T00:00:00Z").getTime()) / 86_400_000);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold">{stock.symbol}</h1>
+        <p className="text-muted-foreground">{stock.name}</p>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Total Shares</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">{aggregate ? parseFloat(aggregate.totalShares).toFixed(2) : "0"}</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Average Cost</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">{aggregate ? formatCurrency(parseFloat(aggregate.avgCost)) : "N/A"}</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Current Price</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">{formatCurrency(currentPrice)}</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Gain/Loss %</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className={`text-2xl font-bold ${gainLossPercent >= 0 ? "text-green-600" : "text-red-600"}`}>
+              {formatPercent(gainLossPercent)}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Profit Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Total Invested</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">{aggregate ? formatCurrency(parseFloat(aggregate.totalInvested)) : "0"}</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Unrealized Profit</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className={`text-2xl font-bold ${unrealizedProfit >= 0 ? "text-green-600" : "text-red-600"}`}>
+              {formatCurrency(unrealizedProfit)}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Realized Profit</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className={`text-2xl font-bold ${aggregate && parseFloat(aggregate.realizedProfit) >= 0 ? "text-green-600" : "text-red-600"}`}>
+              {aggregate ? formatCurrency(parseFloat(aggregate.realizedProfit)) : "0"}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Tax Lots */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Tax Lots</CardTitle>
+          <CardDescription>Each purchase, how much of it is still open, and how long it has been held</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {lots && lots.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Acquired</TableHead>
+                    <TableHead className="text-right">Bought</TableHead>
+                    <TableHead className="text-right">Open</TableHead>
+                    <TableHead className="text-right">Unit Cost</TableHead>
+                    <TableHead className="text-right">Open Cost</TableHead>
+                    <TableHead className="text-right">Days Held</TableHead>
+                    <TableHead className="text-right">Sells</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lots.map((lot) => {
+                    const open = parseFloat(lot.openQuantity);
+                    const bought = parseFloat(lot.originalQuantity);
+                    const status = open <= 0 ? "Closed" : open < bought ? "Partial" : "Open";
+                    return (
+                      <TableRow key={lot.id} className={open <= 0 ? "text-muted-foreground" : undefined}>
+                        <TableCell>{formatDate(new Date(lot.acquiredDate))}</TableCell>
+                        <TableCell className="text-right">{bought.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">{open.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(parseFloat(lot.unitCost))}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(parseFloat(lot.openCost))}</TableCell>
+                        <TableCell className="text-right">{open > 0 ? daysHeld(lot.acquiredDate) : "-"}</TableCell>
+                        <TableCell className="text-right">{lot.disposals.length}</TableCell>
+                        <TableCell>
+                          <Badge variant={status === "Closed" ? "outline" : status === "Partial" ? "secondary" : "default"}>
+                            {status}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              <p>No lots yet. Lots are created from BUY transactions.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Corporate Actions */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Corporate Actions</CardTitle>
+            <CardDescription>
+              Splits, bonus and rights issues, mergers and symbol changes, applied to the holding from their ex-date
+            </CardDescription>
+          </div>
+          <Dialog open={isActionDialogOpen} onOpenChange={setIsActionDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Plus className="w-4 h-4 mr-2" />
+                Add
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Record Corporate Action</DialogTitle>
+                <DialogDescription>
+                  A 10% bonus is 1 new share for every 10 held; a 2-for-1 split is 2 shares for every 1 held;
+                  a 20% rights issue offers 1 right for every 5 held; a conversion moves the whole holding into
+                  another stock at its swap ratio, keeping the cost; a demerger issues child shares and moves
+                  part of the cost to them.
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleAddCorporateAction} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="action-type">Type *</Label>
+                    <Select value={actionType} onValueChange={(v) => setActionType(v as typeof actionType)}>
+                      <SelectTrigger id="action-type">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="BONUS">Bonus issue</SelectItem>
+                        <SelectItem value="SPLIT">Stock split</SelectItem>
+                        <SelectItem value="RIGHTS">Rights issue</SelectItem>
+                        <SelectItem value="CONVERSION">Merger / symbol change</SelectItem>
+                        <SelectItem value="DEMERGER">Demerger / spin-off</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="action-date">Ex-Date *</Label>
+                    <Input id="action-date" name="effectiveDate" type="date" required />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="action-ratioNew">New shares *</Label>
+                    <Input id="action-ratioNew" name="ratioNew" type="number" step="any" min="0" required placeholder="e.g., 1" />
+                  </div>
+                  <div>
+                    <Label htmlFor="action-ratioOld">For every (held) *</Label>
+                    <Input id="action-ratioOld" name="ratioOld" type="number" step="any" min="0" required placeholder="e.g., 10" />
+                  </div>
+                </div>
+                {(actionType === "CONVERSION" || actionType === "DEMERGER") && (
+                  <div>
+                    <Label htmlFor="action-targetStock">
+                      {actionType === "DEMERGER" ? "Child stock *" : "Converted into *"}
+                    </Label>
+                    <Select value={targetStockId} onValueChange={setTargetStockId}>
+                      <SelectTrigger id="action-targetStock">
+                        <SelectValue placeholder="Select stock" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {allStocks
+                          ?.filter((s) => s.id !== stockId)
+                          .map((s) => (
+                            <SelectItem key={s.id} value={s.id.toString()}>
+                              {s.symbol} - {s.name}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {actionType === "DEMERGER" && (
+                  <div>
+                    <Label htmlFor="action-costPercent">Cost moving to the child (%) *</Label>
+                    <Input id="action-costPercent" name="costPercent" type="number" step="0.0001" min="0" max="100" required />
+                  </div>
+                )}
+                {actionType === "RIGHTS" && (
+                  <div>
+                    <Label htmlFor="action-subscriptionPrice">Subscription price (PKR per share) *</Label>
+                    <Input id="action-subscriptionPrice" name="subscriptionPrice" type="number" step="0.0001" min="0" required />
+                  </div>
+                )}
+                <div>
+                  <Label htmlFor="action-notes">Notes</Label>
+                  <Textarea id="action-notes" name="notes" placeholder="Optional notes" />
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="outline" onClick={() => setIsActionDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={addActionMutation.isPending}>
+                    {addActionMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : "Save"}
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </CardHeader>
+        <CardContent>
+          {corporateActions && corporateActions.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Ex-Date</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Ratio</TableHead>
+                  <TableHead>Notes</TableHead>
+                  <TableHead className="text-center">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {corporateActions.map((action) => (
+                  <TableRow key={action.id}>
+                    <TableCell>{formatDate(new Date(action.effectiveDate))}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">
+                        {action.type === "BONUS"
+                          ? "Bonus"
+                          : action.type === "RIGHTS"
+                            ? "Rights"
+                            : action.type === "CONVERSION"
+                              ? "Conversion"
+                              : action.type === "DEMERGER"
+                                ? "Demerger"
+                                : "Split"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {action.type === "SPLIT"
+                        ? `${parseFloat(action.ratioNew)}-for-${parseFloat(action.ratioOld)}`
+                        : `${parseFloat(action.ratioNew)} for every ${parseFloat(action.ratioOld)}`}
+                      {action.type === "RIGHTS" && action.subscriptionPrice &&
+                        ` @ ${formatCurrency(parseFloat(action.subscriptionPrice))}`}
+                      {action.targetStockId &&
+                        (action.stockSymbol ? ` (from ${action.stockSymbol})` : ` (into ${action.targetSymbol ?? "Unknown"})`)}
+                      {action.type === "DEMERGER" && action.costPercent &&
+                        `, ${parseFloat(action.costPercent)}% of cost`}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{action.notes || "-"}</TableCell>
+                    <TableCell className="text-center">
+                      {action.type === "RIGHTS" && (
+                        <Button variant="outline" size="sm" onClick={() => setRightsActionId(action.id)}>
+                          Entitlement
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDeleteCorporateAction(action.id)}
+                        disabled={deleteActionMutation.isPending}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              <p>No corporate actions recorded.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Rights Election Dialog */}
+      <Dialog open={rightsActionId !== null} onOpenChange={(open) => !open && setRightsActionId(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rights Entitlement</DialogTitle>
+            <DialogDescription>
+              Based on the shares you held going into the ex-date. Subscribed rights are added to your
+              holding at the subscription price.
+            </DialogDescription>
+          </DialogHeader>
+          {entitlement ? (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Shares held</p>
+                  <p className="font-medium">{entitlement.sharesHeld.toFixed(2)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Entitled</p>
+                  <p className="font-medium">{entitlement.entitlement}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Subscribed / Renounced</p>
+                  <p className="font-medium">
+                    {entitlement.subscribed} / {entitlement.renounced}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Remaining</p>
+                  <p className="font-bold">{entitlement.remaining}</p>
+                </div>
+              </div>
+
+              {entitlement.remaining > 0 && portfolioId === undefined && (
+                <p className="text-sm text-muted-foreground">
+                  Select a portfolio to record a subscription or renunciation.
+                </p>
+              )}
+              {entitlement.remaining > 0 && portfolioId !== undefined && (
+                <form onSubmit={handleRecordElection} className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="election-type">Election *</Label>
+                      <Select value={election} onValueChange={(v) => setElection(v as typeof election)}>
+                        <SelectTrigger id="election-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="SUBSCRIBE">Subscribe</SelectItem>
+                          <SelectItem value="RENOUNCE">Renounce (sell rights)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="election-date">Date *</Label>
+                      <Input id="election-date" name="date" type="date" required />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="election-quantity">Rights *</Label>
+                      <Input
+                        id="election-quantity"
+                        name="quantity"
+                        type="number"
+                        step="1"
+                        min="1"
+                        max={entitlement.remaining}
+                        defaultValue={entitlement.remaining}
+                        required
+                      />
+                    </div>
+                    {election === "RENOUNCE" && (
+                      <div>
+                        <Label htmlFor="election-proceeds">Sale proceeds (PKR, net) *</Label>
+                        <Input id="election-proceeds" name="proceeds" type="number" step="0.01" min="0" required />
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex justify-end">
+                    <Button type="submit" disabled={recordElectionMutation.isPending}>
+                      {recordElectionMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : "Record"}
+                    </Button>
+                  </div>
+                </form>
+              )}
+            </div>
+          ) : (
+            <div className="flex justify-center py-6">
+              <Loader2 className="animate-spin" />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Transactions Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Transactions</CardTitle>
+          <CardDescription>
+            All transactions for this stock
+            {canReorder && ". Drag trades on the same day into the order they were executed"}
+          </CardDescription>
+          {portfolioId !== undefined && lockedThrough(portfolioId) && (
+            <div className="flex items-center gap-1 text-sm text-amber-700 dark:text-amber-400">
+              <Lock className="w-4 h-4" />
+              Books closed through {lockedThrough(portfolioId)}; earlier transactions are read-only
+            </div>
+          )}
+        </CardHeader>
+        <CardContent>
+          {transactions && transactions.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                    <TableHead className="text-right">Unit Price</TableHead>
+                    <TableHead className="text-right">Total Amount</TableHead>
+                    <TableHead className="text-right">Charges / Tax</TableHead>
+                    <TableHead>Notes</TableHead>
+                    <TableHead className="text-center">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {transactions.map((txn) => (
+                    <TableRow
+                      key={txn.id}
+                      draggable={canReorder && !reorderMutation.isPending && !isLocked(txn)}
+                      onDragStart={() => setDraggedId(txn.id)}
+                      onDragEnd={() => setDraggedId(null)}
+                      onDragOver={(e) => {
+                        // Rows only move within their own day
+                        const dragged = transactions.find((t) => t.id === draggedId);
+                        if (dragged && dragged.date === txn.date) e.preventDefault();
+                      }}
+                      onDrop={() => handleDropTransaction(txn)}
+                      className={draggedId === txn.id ? "opacity-50" : undefined}
+                    >
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          {isLocked(txn) ? (
+                            <span title="In a locked period">
+                              <Lock className="w-4 h-4 text-muted-foreground" />
+                            </span>
+                          ) : (
+                            canReorder && <GripVertical className="w-4 h-4 text-muted-foreground cursor-grab" />
+                          )}
+                          {formatDate(new Date(txn.date))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={txn.type === "BUY" ? "default" : txn.type === "SELL" ? "destructive" : "secondary"}>
+                          {txn.type.replace("_", " ")}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {txn.quantity ? parseFloat(txn.quantity).toFixed(2) : "-"}
+                      </TableCell>  
+                      <TableCell className="text-right">
+                        {txn.unitPrice ? formatCurrency(parseFloat(txn.unitPrice)) : txn.quantity ? formatCurrency(parseFloat(txn.totalAmount) / parseFloat(txn.quantity)) : "-"}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(parseFloat(txn.totalAmount))}</TableCell>
+                      <TableCell className="text-right">{feeTotal(txn) > 0 ? formatCurrency(feeTotal(txn)) : "-"}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{txn.notes || "-"}</TableCell>
+                      <TableCell className="text-center">
+                        <div className="flex items-center justify-center gap-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleEditTransaction(txn)}
+                            disabled={updateTransactionMutation.isPending || !!txn.corporateActionId || isLocked(txn)}
+                            title={txn.corporateActionId ? "Rights elections are managed from Corporate Actions" : undefined}
+                          >
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDeleteTransaction(txn)}
+                            disabled={deleteTransactionMutation.isPending || isLocked(txn)}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              <p>No transactions for this stock yet.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Edit Transaction Dialog */}
+      <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Edit Transaction</DialogTitle>
+            <DialogDescription>Update transaction details</DialogDescription>
+          </DialogHeader>
+          {editingTransaction && conflict && (
+            <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm space-y-2">
+              <p className="font-medium text-amber-800">
+                This transaction was changed elsewhere after you opened it.
+              </p>
+              <ul className="space-y-1">
+                {CONFLICT_FIELDS.filter(
+                  ([field]) => String(editingTransaction[field] ?? "") !== String(conflict[field] ?? "")
+                ).map(([field, label]) => (
+                  <li key={field}>
+                    {label}: <span className="line-through text-muted-foreground">{editingTransaction[field] || "—"}</span>{" "}
+                    → <span className="font-medium">{conflict[field] || "—"}</span>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex gap-2">
+                <Button type="button" size="sm" variant="outline" onClick={handleUseLatest}>
+                  Use latest values
+                </Button>
+                <Button type="button" size="sm" onClick={handleKeepMine}>
+                  Save my changes anyway
+                </Button>
+              </div>
+            </div>
+          )}
+          {editingTransaction && (
+            <form
+              ref={editFormRef}
+              // Remounts with the latest values when the user takes them
+              key={new Date(editingTransaction.updatedAt).getTime()}
+              onSubmit={handleUpdateTransaction}
+              className="space-y-4"
+            >
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="edit-type">Transaction Type *</Label>
+                  <Select name="type" defaultValue={editingTransaction.type} required>
+                    <SelectTrigger id="edit-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="BUY">BUY</SelectItem>
+                      <SelectItem value="SELL">SELL</SelectItem>
+                      <SelectItem value="DIVIDEND">DIVIDEND</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="edit-date">Date *</Label>
+                  <Input
+                    id="edit-date"
+                    name="date"
+                    type="date"
+                    defaultValue={formatDate(new Date(editingTransaction.date))}
+                    required
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="edit-quantity">Quantity (shares)</Label>
+                  <Input
+                    id="edit-quantity"
+                    name="quantity"
+                    type="number"
+                    step="0.01"
+                    defaultValue={editingTransaction.quantity || ""}
+                    placeholder="Enter quantity"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="edit-totalAmount">Trade Value (PKR, before charges) *</Label>
+                  <Input
+                    id="edit-totalAmount"
+                    name="totalAmount"
+                    type="number"
+                    step="0.01"
+                    defaultValue={editingTransaction.totalAmount}
+                    required
+                    placeholder="Enter total amount"
+                  />
+                </div>
+              </div>
+              {editingTransaction.type !== "DIVIDEND" && (
+                <div className="grid grid-cols-3 gap-4">
+                  {TRANSACTION_FEE_FIELDS.map((field) => (
+                    <div key={field}>
+                      <Label htmlFor={`edit-fee-${field}`}>{TRANSACTION_FEE_LABELS[field]}</Label>
+                      <Input
+                        id={`edit-fee-${field}`}
+                        name={`fee-${field}`}
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        defaultValue={editingTransaction[field] ?? "0"}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+              {editingTransaction.type === "DIVIDEND" && (
+                <div className="grid grid-cols-2 gap-4">
+                  {DIVIDEND_DEDUCTION_FIELDS.map((field) => (
+                    <div key={field}>
+                      <Label htmlFor={`edit-deduction-${field}`}>{DIVIDEND_DEDUCTION_LABELS[field]}</Label>
+                      <Input
+                        id={`edit-deduction-${field}`}
+                        name={`deduction-${field}`}
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        defaultValue={editingTransaction[field] ?? "0"}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div>
+                <Label htmlFor="edit-notes">Notes</Label>
+                <Textarea
+                  id="edit-notes"
+                  name="notes"
+                  defaultValue={editingTransaction.notes || ""}
+                  placeholder="Optional notes about this transaction"
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => {
+                    setIsEditDialogOpen(false);
+                    setEditingTransaction(null);
+                  }}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={updateTransactionMutation.isPending}>
+                  {updateTransactionMutation.isPending ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Updating...
+                    </>
+                  ) : (
+                    "Update Transaction"
+                  )}
+                </Button>
+              </div>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
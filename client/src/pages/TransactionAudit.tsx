@@ -1,333 +1,858 @@
-import { useState } from "react";
-import { useAuth } from "@/_core/hooks/useAuth";
-import { Button } from "@/components/ui/button";
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Badge } from "@/components/ui/badge";
-import { Loader2, Search, Download } from "lucide-react";
-import { trpc } from "@/lib/trpc";
-import { formatCurrency, formatDate } from "@/lib/utils";
-import { toast } from "sonner";
-
-type GroupBy = "none" | "date" | "stock" | "type" | "date_stock";
-
-export default function TransactionAudit() {
-  const { user } = useAuth();
-  const [groupBy, setGroupBy] = useState<GroupBy>("date");
-  const [searchTerm, setSearchTerm] = useState("");
-  const [selectedStock, setSelectedStock] = useState<string>("all");
-  const [selectedType, setSelectedType] = useState<string>("all");
-
-  const { data: stocks } = trpc.stock.list.useQuery(undefined, { enabled: !!user });
-  const { data: transactions, isLoading } = trpc.transaction.audit.useQuery(
-    {
-      groupBy,
-      searchTerm: searchTerm || undefined,
-      stockId: selectedStock !== "all" ? parseInt(selectedStock) : undefined,
-      type: selectedType !== "all" ? (selectedType as "BUY" | "SELL" | "DIVIDEND") : undefined,
-    },
-    { enabled: !!user }
-  );
-
-  const exportToCSV = () => {
-    if (!transactions || transactions.length === 0) {
-      toast.error("No transactions to export");
-      return;
-    }
-
-    const headers = ["ID", "Date", "Stock", "Type", "Quantity", "Unit Price", "Total Amount", "Notes"];
-    const rows = transactions.flatMap((group: any) => {
-      if (group.transactions) {
-        return group.transactions.map((txn: any) => [
-          txn.id,
-          formatDate(new Date(txn.date)),
-          txn.stockSymbol,
-          txn.type,
-          txn.quantity || "",
-          txn.unitPrice ? formatCurrency(parseFloat(txn.unitPrice)).replace("PKR", "").trim() : "",
-          formatCurrency(parseFloat(txn.totalAmount)).replace("PKR", "").trim(),
-          txn.notes || "",
-        ]);
-      }
-      return [];
-    });
-
-    const csvContent = [
-      headers.join(","),
-      ...rows.map((row: any[]) => row.map((cell) => `"${cell}"`).join(",")),
-    ].join("\n");
-
-    const blob = new Blob([csvContent], { type: "text/csv" });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `transactions_audit_${new Date().toISOString().split("T")[0]}.csv`;
-    a.click();
-    window.URL.revokeObjectURL(url);
-    toast.success("Transactions exported to CSV");
-  };
-
-  if (!user) {
-    return (
-      <div className="text-center py-8">
-        <p className="text-muted-foreground">Please log in to view transactions</p>
-      </div>
-    );
-  }
-
-  return (
-    <div className="space-y-6">
-      {/* Header */}
-      <div>
-        <h1 className="text-3xl font-bold">Transaction Audit</h1>
-        <p className="text-muted-foreground">Review all transactions to identify any errors or discrepancies</p>
-      </div>
-
-      {/* Filters */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Filters & Grouping</CardTitle>
-          <CardDescription>Filter and group transactions for easier review</CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-            <div>
-              <Label htmlFor="group-by">Group By</Label>
-              <Select value={groupBy} onValueChange={(v) => setGroupBy(v as GroupBy)}>
-                <SelectTrigger id="group-by">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="none">No Grouping</SelectItem>
-                  <SelectItem value="date">Date</SelectItem>
-                  <SelectItem value="stock">Stock</SelectItem>
-                  <SelectItem value="type">Transaction Type</SelectItem>
-                  <SelectItem value="date_stock">Date & Stock</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-
-            <div>
-              <Label htmlFor="stock-filter">Stock</Label>
-              <Select value={selectedStock} onValueChange={setSelectedStock}>
-                <SelectTrigger id="stock-filter">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Stocks</SelectItem>
-                  {stocks?.map((stock) => (
-                    <SelectItem key={stock.id} value={stock.id.toString()}>
-                      {stock.symbol}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-
-            <div>
-              <Label htmlFor="type-filter">Transaction Type</Label>
-              <Select value={selectedType} onValueChange={setSelectedType}>
-                <SelectTrigger id="type-filter">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Types</SelectItem>
-                  <SelectItem value="BUY">BUY</SelectItem>
-                  <SelectItem value="SELL">SELL</SelectItem>
-                  <SelectItem value="DIVIDEND">DIVIDEND</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-
-            <div>
-              <Label htmlFor="search">Search</Label>
-              <div className="relative">
-                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
-                <Input
-                  id="search"
-                  placeholder="Search notes, stock..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="pl-8"
-                />
-              </div>
-            </div>
-          </div>
-
-          <div className="flex justify-end">
-            <Button onClick={exportToCSV} variant="outline">
-              <Download className="w-4 h-4 mr-2" />
-              Export to CSV
-            </Button>
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Summary Stats */}
-      {transactions && transactions.length > 0 && (
-        <Card>
-          <CardHeader>
-            <CardTitle>Summary</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-              <div>
-                <p className="text-sm text-muted-foreground">Total Transactions</p>
-                <p className="text-2xl font-bold">
-                  {transactions.reduce((sum: number, group: any) => sum + (group.transactions?.length || 0), 0)}
-                </p>
-              </div>
-              <div>
-                <p className="text-sm text-muted-foreground">Total BUY</p>
-                <p className="text-2xl font-bold text-green-600">
-                  {transactions.reduce(
-                    (sum: number, group: any) =>
-                      sum + (group.transactions?.filter((t: any) => t.type === "BUY").length || 0),
-                    0
-                  )}
-                </p>
-              </div>
-              <div>
-                <p className="text-sm text-muted-foreground">Total SELL</p>
-                <p className="text-2xl font-bold text-red-600">
-                  {transactions.reduce(
-                    (sum: number, group: any) =>
-                      sum + (group.transactions?.filter((t: any) => t.type === "SELL").length || 0),
-                    0
-                  )}
-                </p>
-              </div>
-              <div>
-                <p className="text-sm text-muted-foreground">Total DIVIDEND</p>
-                <p className="text-2xl font-bold text-blue-600">
-                  {transactions.reduce(
-                    (sum: number, group: any) =>
-                      sum + (group.transactions?.filter((t: any) => t.type === "DIVIDEND").length || 0),
-                    0
-                  )}
-                </p>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-      )}
-
-      {/* Transactions Table */}
-      <Card>
-        <CardHeader>
-          <CardTitle>All Transactions</CardTitle>
-          <CardDescription>
-            {groupBy === "none" && "All transactions in chronological order"}
-            {groupBy === "date" && "Transactions grouped by date"}
-            {groupBy === "stock" && "Transactions grouped by stock"}
-            {groupBy === "type" && "Transactions grouped by type"}
-            {groupBy === "date_stock" && "Transactions grouped by date and stock"}
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          {isLoading ? (
-            <div className="flex items-center justify-center py-8">
-              <Loader2 className="animate-spin w-8 h-8" />
-            </div>
-          ) : transactions && transactions.length > 0 ? (
-            <div className="space-y-6">
-              {transactions.map((group: any, groupIndex: number) => (
-                <div key={groupIndex} className="space-y-2">
-                  {/* Group Header */}
-                  {groupBy !== "none" && (
-                    <div className="bg-muted p-3 rounded-md">
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center gap-4">
-                          {group.date && (
-                            <span className="font-semibold">Date: {formatDate(new Date(group.date))}</span>
-                          )}
-                          {group.stockSymbol && (
-                            <span className="font-semibold">Stock: {group.stockSymbol}</span>
-                          )}
-                          {group.type && (
-                            <Badge variant={group.type === "BUY" ? "default" : group.type === "SELL" ? "destructive" : "secondary"}>
-                              {group.type}
-                            </Badge>
-                          )}
-                        </div>
-                        <span className="text-sm text-muted-foreground">
-                          {group.transactions?.length || 0} transaction(s)
-                        </span>
-                      </div>
-                    </div>
-                  )}
-
-                  {/* Transactions in this group */}
-                  <div className="overflow-x-auto">
-                    <Table>
-                      <TableHeader>
-                        <TableRow>
-                          <TableHead>ID</TableHead>
-                          <TableHead>Date</TableHead>
-                          {groupBy !== "stock" && <TableHead>Stock</TableHead>}
-                          {groupBy !== "type" && <TableHead>Type</TableHead>}
-                          <TableHead className="text-right">Quantity</TableHead>
-                          <TableHead className="text-right">Unit Price</TableHead>
-                          <TableHead className="text-right">Total Amount</TableHead>
-                          <TableHead>Notes</TableHead>
-                        </TableRow>
-                      </TableHeader>
-                      <TableBody>
-                        {(group.transactions || [group]).map((txn: any) => (
-                          <TableRow key={txn.id}>
-                            <TableCell className="font-mono text-xs">{txn.id}</TableCell>
-                            <TableCell>{formatDate(new Date(txn.date))}</TableCell>
-                            {groupBy !== "stock" && (
-                              <TableCell>
-                                <span className="font-medium">{txn.stockSymbol || group.stockSymbol}</span>
-                              </TableCell>
-                            )}
-                            {groupBy !== "type" && (
-                              <TableCell>
-                                <Badge
-                                  variant={
-                                    (txn.type || group.type) === "BUY"
-                                      ? "default"
-                                      : (txn.type || group.type) === "SELL"
-                                      ? "destructive"
-                                      : "secondary"
-                                  }
-                                >
-                                  {txn.type || group.type}
-                                </Badge>
-                              </TableCell>
-                            )}
-                            <TableCell className="text-right">
-                              {txn.quantity ? parseFloat(txn.quantity).toFixed(2) : "-"}
-                            </TableCell>
-                            <TableCell className="text-right">
-                              {txn.unitPrice ? formatCurrency(parseFloat(txn.unitPrice)) : "-"}
-                            </TableCell>
-                            <TableCell className="text-right font-medium">
-                              {formatCurrency(parseFloat(txn.totalAmount))}
-                            </TableCell>
-                            <TableCell className="text-sm text-muted-foreground max-w-xs truncate">
-                              {txn.notes || "-"}
-                            </TableCell>
-                          </TableRow>
-                        ))}
-                      </TableBody>
-                    </Table>
-                  </div>
-                </div>
-              ))}
-            </div>
-          ) : (
-            <div className="text-center py-8 text-muted-foreground">
-              <p>No transactions found matching the selected filters.</p>
-            </div>
-          )}
-        </CardContent>
-      </Card>
-    </div>
-  );
-}
-
+import { useEffect, useState } from "react";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2, Search, Download, History, Lock, RotateCcw, Trash2, CalendarDays, Tag, MoveRight, StickyNote, X } from "lucide-react";
+import { trpc } from "@/lib/trpc";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import { toast } from "sonner";
+import { usePortfolio } from "@/contexts/PortfolioContext";
+import { isPeriodLocked } from "@shared/locks";
+import type { TradeWarning } from "@shared/warnings";
+import type { Transaction } from "@shared/types";
+
+type GroupBy = "none" | "date" | "stock" | "type" | "date_stock";
+
+type BulkEdit = "date" | "type" | "move" | "notes";
+
+const FIELD_LABELS: Record<string, string> = {
+  stockId: "Stock",
+  portfolioId: "Portfolio",
+  type: "Type",
+  date: "Date",
+  quantity: "Quantity",
+  totalAmount: "Total amount",
+  unitPrice: "Unit price",
+  lotAllocation: "Lot allocation",
+  commission: "Commission",
+  capitalValueTax: "CVT",
+  regulatoryLevies: "Levies",
+  cdcCharges: "CDC charges",
+  salesTax: "Sales tax",
+  withholdingTax: "Withholding tax",
+  zakat: "Zakat",
+  notes: "Notes",
+};
+
+const ACTION_LABELS = { CREATE: "Created", UPDATE: "Edited", DELETE: "Deleted", RESTORE: "Restored" } as const;
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === "") return "-";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+export default function TransactionAudit() {
+  const { user } = useAuth();
+  const { portfolioId } = usePortfolio();
+  const [groupBy, setGroupBy] = useState<GroupBy>("date");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [selectedStock, setSelectedStock] = useState<string>("all");
+  const [selectedType, setSelectedType] = useState<string>("all");
+  const [status, setStatus] = useState<"active" | "deleted">("active");
+  const [history, setHistory] = useState<{ id: number; locked: boolean } | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [bulkEdit, setBulkEdit] = useState<BulkEdit | null>(null);
+  const utils = trpc.useUtils();
+
+  const { data: stocks } = trpc.stock.list.useQuery(undefined, { enabled: !!user });
+  const { data: portfolios } = trpc.portfolio.list.useQuery(undefined, { enabled: !!user });
+  const lockedThrough = (id: number) => portfolios?.find((p) => p.id === id)?.lockedThrough ?? null;
+  const lockedPortfolios = (portfolios ?? []).filter((p) => p.lockedThrough && (portfolioId === undefined || p.id === portfolioId));
+  const { data: transactions, isLoading } = trpc.transaction.audit.useQuery(
+    {
+      groupBy,
+      searchTerm: searchTerm || undefined,
+      stockId: selectedStock !== "all" ? parseInt(selectedStock) : undefined,
+      type: selectedType !== "all" ? (selectedType as Transaction["type"]) : undefined,
+      portfolioId,
+      deleted: status === "deleted",
+    },
+    { enabled: !!user }
+  );
+
+  // Bulk changes only apply to rows in view, so a new filter starts a new selection
+  useEffect(() => {
+    setSelected(new Set());
+  }, [groupBy, searchTerm, selectedStock, selectedType, status, portfolioId]);
+
+  const toggleSelected = (ids: number[], on: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      for (const id of ids) {
+        if (on) next.add(id);
+        else next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const bulkMutation = trpc.transaction.bulk.useMutation({
+    onSuccess: (result) => {
+      utils.transaction.audit.invalidate();
+      setSelected(new Set());
+      setBulkEdit(null);
+      toast.success(result.message);
+    },
+    onError: (err) => {
+      // Warnings are confirmed and the change resubmitted by handleBulkUpdate
+      if (err.data?.warnings) return;
+      toast.error("Bulk change failed; nothing was changed", { description: err.message });
+    },
+  });
+
+  const handleBulkUpdate = async (change: BulkChange) => {
+    const input = { ids: Array.from(selected), operation: { action: "UPDATE" as const, ...change } };
+    try {
+      await bulkMutation.mutateAsync(input);
+    } catch (error: any) {
+      // Changes that leave a sale short of shares, or below average cost, apply only once confirmed
+      const warnings: TradeWarning[] | undefined = error?.data?.warnings;
+      if (!warnings || warnings.length === 0) return;
+      if (!confirm(`${warnings.map((w) => w.message).join(" ")} Apply anyway?`)) return;
+      bulkMutation.mutate({ ...input, confirmOverride: true });
+    }
+  };
+
+  const handleBulkDelete = () => {
+    if (!confirm(`Delete ${selected.size} transaction(s)? They can be restored from their history.`)) return;
+    bulkMutation.mutate({ ids: Array.from(selected), operation: { action: "DELETE" } });
+  };
+
+  const undeleteMutation = trpc.transaction.undelete.useMutation({
+    onSuccess: () => {
+      utils.transaction.audit.invalidate();
+      utils.transaction.history.invalidate();
+      toast.success("Transaction restored");
+    },
+  });
+
+  const handleUndelete = async (id: number) => {
+    try {
+      try {
+        await undeleteMutation.mutateAsync({ id });
+      } catch (error: any) {
+        // Bringing back a sale the holdings no longer cover needs confirming
+        const warnings: TradeWarning[] | undefined = error?.data?.warnings;
+        if (!warnings || warnings.length === 0) throw error;
+        if (!confirm(`${warnings.map((w) => w.message).join(" ")} Restore anyway?`)) return;
+        await undeleteMutation.mutateAsync({ id, confirmOverride: true });
+      }
+    } catch (error: any) {
+      toast.error("Failed to restore transaction", { description: error.message });
+    }
+  };
+
+  const exportToCSV = () => {
+    if (!transactions || transactions.length === 0) {
+      toast.error("No transactions to export");
+      return;
+    }
+
+    const headers = ["ID", "Date", "Portfolio", "Stock", "Type", "Quantity", "Unit Price", "Total Amount", "Notes"];
+    const rows = transactions.flatMap((group: any) => {
+      if (group.transactions) {
+        return group.transactions.map((txn: any) => [
+          txn.id,
+          formatDate(new Date(txn.date)),
+          txn.portfolioName,
+          txn.stockSymbol,
+          txn.type,
+          txn.quantity || "",
+          txn.unitPrice ? formatCurrency(parseFloat(txn.unitPrice)).replace("PKR", "").trim() : "",
+          formatCurrency(parseFloat(txn.totalAmount)).replace("PKR", "").trim(),
+          txn.notes || "",
+        ]);
+      }
+      return [];
+    });
+
+    const csvContent = [
+      headers.join(","),
+      ...rows.map((row: any[]) => row.map((cell) => `"${cell}"`).join(",")),
+    ].join("\n");
+
+    const blob = new Blob([csvContent], { type: "text/csv" });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `transactions_audit_${new Date().toISOString().split("T")[0]}.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+    toast.success("Transactions exported to CSV");
+  };
+
+  if (!user) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-muted-foreground">Please log in to view transactions</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold">Transaction Audit</h1>
+        <p className="text-muted-foreground">Review all transactions to identify any errors or discrepancies</p>
+        {lockedPortfolios.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mt-2 text-sm text-amber-700 dark:text-amber-400">
+            <Lock className="w-4 h-4" />
+            {lockedPortfolios.map((p) => `${p.name} locked through ${p.lockedThrough}`).join(" · ")}
+          </div>
+        )}
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Filters & Grouping</CardTitle>
+          <CardDescription>Filter and group transactions for easier review</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+            <div>
+              <Label htmlFor="group-by">Group By</Label>
+              <Select value={groupBy} onValueChange={(v) => setGroupBy(v as GroupBy)}>
+                <SelectTrigger id="group-by">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No Grouping</SelectItem>
+                  <SelectItem value="date">Date</SelectItem>
+                  <SelectItem value="stock">Stock</SelectItem>
+                  <SelectItem value="type">Transaction Type</SelectItem>
+                  <SelectItem value="date_stock">Date & Stock</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="stock-filter">Stock</Label>
+              <Select value={selectedStock} onValueChange={setSelectedStock}>
+                <SelectTrigger id="stock-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Stocks</SelectItem>
+                  {stocks?.map((stock) => (
+                    <SelectItem key={stock.id} value={stock.id.toString()}>
+                      {stock.symbol}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="type-filter">Transaction Type</Label>
+              <Select value={selectedType} onValueChange={setSelectedType}>
+                <SelectTrigger id="type-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Types</SelectItem>
+                  <SelectItem value="BUY">BUY</SelectItem>
+                  <SelectItem value="SELL">SELL</SelectItem>
+                  <SelectItem value="DIVIDEND">DIVIDEND</SelectItem>
+                  <SelectItem value="RIGHTS_SUBSCRIPTION">RIGHTS SUBSCRIPTION</SelectItem>
+                  <SelectItem value="RIGHTS_RENUNCIATION">RIGHTS RENUNCIATION</SelectItem>
+                  <SelectItem value="TRANSFER_OUT">TRANSFER OUT</SelectItem>
+                  <SelectItem value="TRANSFER_IN">TRANSFER IN</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="status-filter">Status</Label>
+              <Select value={status} onValueChange={(v) => setStatus(v as "active" | "deleted")}>
+                <SelectTrigger id="status-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="active">Current</SelectItem>
+                  <SelectItem value="deleted">Deleted</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="search">Search</Label>
+              <div className="relative">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  id="search"
+                  placeholder="Search notes, stock..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-8"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={exportToCSV} variant="outline">
+              <Download className="w-4 h-4 mr-2" />
+              Export to CSV
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Summary Stats */}
+      {transactions && transactions.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Summary</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <p className="text-sm text-muted-foreground">Total Transactions</p>
+                <p className="text-2xl font-bold">
+                  {transactions.reduce((sum: number, group: any) => sum + (group.transactions?.length || 0), 0)}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Total BUY</p>
+                <p className="text-2xl font-bold text-green-600">
+                  {transactions.reduce(
+                    (sum: number, group: any) =>
+                      sum + (group.transactions?.filter((t: any) => t.type === "BUY").length || 0),
+                    0
+                  )}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Total SELL</p>
+                <p className="text-2xl font-bold text-red-600">
+                  {transactions.reduce(
+                    (sum: number, group: any) =>
+                      sum + (group.transactions?.filter((t: any) => t.type === "SELL").length || 0),
+                    0
+                  )}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Total DIVIDEND</p>
+                <p className="text-2xl font-bold text-blue-600">
+                  {transactions.reduce(
+                    (sum: number, group: any) =>
+                      sum + (group.transactions?.filter((t: any) => t.type === "DIVIDEND").length || 0),
+                    0
+                  )}
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Transactions Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{status === "deleted" ? "Deleted Transactions" : "All Transactions"}</CardTitle>
+          <CardDescription>
+            {groupBy === "none" && "All transactions in chronological order"}
+            {groupBy === "date" && "Transactions grouped by date"}
+            {groupBy === "stock" && "Transactions grouped by stock"}
+            {groupBy === "type" && "Transactions grouped by type"}
+            {groupBy === "date_stock" && "Transactions grouped by date and stock"}
+          </CardDescription>
+          {selected.size > 0 && (
+            <div className="flex flex-wrap items-center gap-2 rounded-md border bg-muted/50 p-2">
+              <span className="text-sm font-medium mr-2">{selected.size} selected</span>
+              <Button variant="outline" size="sm" onClick={() => setBulkEdit("date")} disabled={bulkMutation.isPending}>
+                <CalendarDays className="w-4 h-4 mr-1" />
+                Change date
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setBulkEdit("type")} disabled={bulkMutation.isPending}>
+                <Tag className="w-4 h-4 mr-1" />
+                Re-tag
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setBulkEdit("move")} disabled={bulkMutation.isPending}>
+                <MoveRight className="w-4 h-4 mr-1" />
+                Move
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setBulkEdit("notes")} disabled={bulkMutation.isPending}>
+                <StickyNote className="w-4 h-4 mr-1" />
+                Edit notes
+              </Button>
+              <Button variant="destructive" size="sm" onClick={handleBulkDelete} disabled={bulkMutation.isPending}>
+                <Trash2 className="w-4 h-4 mr-1" />
+                Delete
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setSelected(new Set())}>
+                <X className="w-4 h-4 mr-1" />
+                Clear
+              </Button>
+            </div>
+          )}
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="animate-spin w-8 h-8" />
+            </div>
+          ) : transactions && transactions.length > 0 ? (
+            <div className="space-y-6">
+              {transactions.map((group: any, groupIndex: number) => (
+                <div key={groupIndex} className="space-y-2">
+                  {/* Group Header */}
+                  {groupBy !== "none" && (
+                    <div className="bg-muted p-3 rounded-md">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-4">
+                          {group.date && (
+                            <span className="font-semibold">Date: {formatDate(new Date(group.date))}</span>
+                          )}
+                          {group.stockSymbol && (
+                            <span className="font-semibold">Stock: {group.stockSymbol}</span>
+                          )}
+                          {group.type && (
+                            <Badge variant={group.type === "BUY" ? "default" : group.type === "SELL" ? "destructive" : "secondary"}>
+                              {group.type}
+                            </Badge>
+                          )}
+                        </div>
+                        <span className="text-sm text-muted-foreground">
+                          {group.transactions?.length || 0} transaction(s)
+                        </span>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Transactions in this group */}
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          {status === "active" && (
+                            <TableHead className="w-8">
+                              <Checkbox
+                                aria-label="Select group"
+                                checked={
+                                  group.transactions.every((t: any) => selected.has(t.id))
+                                    ? true
+                                    : group.transactions.some((t: any) => selected.has(t.id))
+                                    ? "indeterminate"
+                                    : false
+                                }
+                                onCheckedChange={(on: boolean | "indeterminate") =>
+                                  toggleSelected(
+                                    group.transactions
+                                      .filter((t: any) => !isPeriodLocked(lockedThrough(t.portfolioId), t.date))
+                                      .map((t: any) => t.id),
+                                    on === true
+                                  )
+                                }
+                              />
+                            </TableHead>
+                          )}
+                          <TableHead>ID</TableHead>
+                          <TableHead>Date</TableHead>
+                          {portfolioId === undefined && <TableHead>Portfolio</TableHead>}
+                          {groupBy !== "stock" && <TableHead>Stock</TableHead>}
+                          {groupBy !== "type" && <TableHead>Type</TableHead>}
+                          <TableHead className="text-right">Quantity</TableHead>
+                          <TableHead className="text-right">Unit Price</TableHead>
+                          <TableHead className="text-right">Total Amount</TableHead>
+                          <TableHead>Notes</TableHead>
+                          {status === "deleted" && <TableHead>Deleted</TableHead>}
+                          <TableHead className="text-right">Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {(group.transactions || [group]).map((txn: any) => {
+                          const locked = isPeriodLocked(lockedThrough(txn.portfolioId), txn.date);
+                          return (
+                            <TableRow key={txn.id} data-state={selected.has(txn.id) ? "selected" : undefined}>
+                              {status === "active" && (
+                                <TableCell>
+                                  <Checkbox
+                                    aria-label={`Select transaction ${txn.id}`}
+                                    checked={selected.has(txn.id)}
+                                    onCheckedChange={(on: boolean | "indeterminate") => toggleSelected([txn.id], on === true)}
+                                    disabled={locked}
+                                  />
+                                </TableCell>
+                              )}
+                              <TableCell className="font-mono text-xs">{txn.id}</TableCell>
+                              <TableCell>
+                                <div className="flex items-center gap-1">
+                                  {formatDate(new Date(txn.date))}
+                                  {locked && (
+                                    <span title="In a locked period">
+                                      <Lock className="w-3 h-3 text-muted-foreground" />
+                                    </span>
+                                  )}
+                                </div>
+                              </TableCell>
+                              {portfolioId === undefined && <TableCell>{txn.portfolioName}</TableCell>}
+                              {groupBy !== "stock" && (
+                                <TableCell>
+                                  <span className="font-medium">{txn.stockSymbol || group.stockSymbol}</span>
+                                </TableCell>
+                              )}
+                              {groupBy !== "type" && (
+                                <TableCell>
+                                  <Badge
+                                    variant={
+                                      (txn.type || group.type) === "BUY"
+                                        ? "default"
+                                        : (txn.type || group.type) === "SELL"
+                                        ? "destructive"
+                                        : "secondary"
+                                    }
+                                  >
+                                    {txn.type || group.type}
+                                  </Badge>
+                                </TableCell>
+                              )}
+                              <TableCell className="text-right">
+                                {txn.quantity ? parseFloat(txn.quantity).toFixed(2) : "-"}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {txn.unitPrice ? formatCurrency(parseFloat(txn.unitPrice)) : "-"}
+                              </TableCell>
+                              <TableCell className="text-right font-medium">
+                                {formatCurrency(parseFloat(txn.totalAmount))}
+                              </TableCell>
+                              <TableCell className="text-sm text-muted-foreground max-w-xs truncate">
+                                {txn.notes || "-"}
+                              </TableCell>
+                              {status === "deleted" && (
+                                <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                                  {txn.deletedAt ? new Date(txn.deletedAt).toLocaleString() : "-"}
+                                </TableCell>
+                              )}
+                              <TableCell className="text-right whitespace-nowrap">
+                                <Button variant="ghost" size="sm" onClick={() => setHistory({ id: txn.id, locked })} title="History">
+                                  <History className="w-4 h-4" />
+                                </Button>
+                                {status === "deleted" && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => handleUndelete(txn.id)}
+                                    disabled={undeleteMutation.isPending || locked}
+                                    title={locked ? "In a locked period" : "Undelete"}
+                                  >
+                                    <RotateCcw className="w-4 h-4" />
+                                  </Button>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              <p>No transactions found matching the selected filters.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <BulkEditDialog
+        edit={bulkEdit}
+        count={selected.size}
+        stocks={stocks ?? []}
+        portfolios={portfolios ?? []}
+        isSaving={bulkMutation.isPending}
+        onSubmit={handleBulkUpdate}
+        onClose={() => setBulkEdit(null)}
+      />
+
+      <TransactionHistoryDialog
+        transactionId={history?.id ?? null}
+        locked={history?.locked ?? false}
+        onClose={() => setHistory(null)}
+      />
+    </div>
+  );
+}
+
+type BulkChange = {
+  date?: Date;
+  type?: "BUY" | "SELL" | "DIVIDEND";
+  stockId?: number;
+  portfolioId?: number;
+  notes?: string | null;
+};
+
+const BULK_TITLES: Record<BulkEdit, string> = {
+  date: "Change date",
+  type: "Re-tag as another type",
+  move: "Move to another stock or portfolio",
+  notes: "Edit notes",
+};
+
+/**
+ * The form for one bulk change to the selected transactions. The server applies it to all of
+ * them or, if any cannot take it, to none.
+ */
+function BulkEditDialog({
+  edit,
+  count,
+  stocks,
+  portfolios,
+  isSaving,
+  onSubmit,
+  onClose,
+}: {
+  edit: BulkEdit | null;
+  count: number;
+  stocks: { id: number; symbol: string }[];
+  portfolios: { id: number; name: string }[];
+  isSaving: boolean;
+  onSubmit: (change: BulkChange) => void;
+  onClose: () => void;
+}) {
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const formData = new FormData(e.target as HTMLFormElement);
+    const value = (name: string) => (formData.get(name) as string | null) || undefined;
+    if (edit === "date") {
+      onSubmit({ date: new Date(value("date")!) });
+    } else if (edit === "type") {
+      onSubmit({ type: value("type") as BulkChange["type"] });
+    } else if (edit === "move") {
+      const stockId = value("stockId");
+      const portfolioId = value("portfolioId");
+      if (!stockId && !portfolioId) {
+        toast.error("Pick a stock or a portfolio to move to");
+        return;
+      }
+      onSubmit({
+        stockId: stockId ? parseInt(stockId) : undefined,
+        portfolioId: portfolioId ? parseInt(portfolioId) : undefined,
+      });
+    } else if (edit === "notes") {
+      // Leaving the notes empty clears them
+      onSubmit({ notes: value("notes") ?? null });
+    }
+  };
+
+  return (
+    <Dialog open={edit !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{edit && BULK_TITLES[edit]}</DialogTitle>
+          <DialogDescription>
+            Applies to {count} selected transaction(s). If any of them cannot take the change, none are changed.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {edit === "date" && (
+            <div>
+              <Label htmlFor="bulk-date">New date</Label>
+              <Input id="bulk-date" name="date" type="date" required />
+            </div>
+          )}
+          {edit === "type" && (
+            <div>
+              <Label htmlFor="bulk-type">New type</Label>
+              <Select name="type" defaultValue="BUY">
+                <SelectTrigger id="bulk-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="BUY">BUY</SelectItem>
+                  <SelectItem value="SELL">SELL</SelectItem>
+                  <SelectItem value="DIVIDEND">DIVIDEND</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                Dividends carry no charges, and only dividends keep withholding tax and zakat.
+              </p>
+            </div>
+          )}
+          {edit === "move" && (
+            <>
+              <div>
+                <Label htmlFor="bulk-stock">Stock</Label>
+                <Select name="stockId">
+                  <SelectTrigger id="bulk-stock">
+                    <SelectValue placeholder="Keep the same stock" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {stocks.map((stock) => (
+                      <SelectItem key={stock.id} value={stock.id.toString()}>
+                        {stock.symbol}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="bulk-portfolio">Portfolio</Label>
+                <Select name="portfolioId">
+                  <SelectTrigger id="bulk-portfolio">
+                    <SelectValue placeholder="Keep the same portfolio" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {portfolios.map((portfolio) => (
+                      <SelectItem key={portfolio.id} value={portfolio.id.toString()}>
+                        {portfolio.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Moved sells lose their lot allocation. Transfers and rights elections cannot be moved.
+              </p>
+            </>
+          )}
+          {edit === "notes" && (
+            <div>
+              <Label htmlFor="bulk-notes">Notes</Label>
+              <Textarea id="bulk-notes" name="notes" placeholder="Leave empty to clear the notes" />
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : "Apply"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * A transaction's revisions, oldest first, with what each changed. Any revision but the one the
+ * row is at can be restored; restoring a deletion undeletes the row. Nothing can be restored
+ * while the row is in a locked period.
+ */
+function TransactionHistoryDialog({
+  transactionId,
+  locked,
+  onClose,
+}: {
+  transactionId: number | null;
+  locked: boolean;
+  onClose: () => void;
+}) {
+  const utils = trpc.useUtils();
+  const { data: revisions, isLoading } = trpc.transaction.history.useQuery(
+    { id: transactionId ?? 0 },
+    { enabled: transactionId !== null }
+  );
+  const { data: stocks } = trpc.stock.list.useQuery(undefined, { enabled: transactionId !== null });
+  const { data: portfolios } = trpc.portfolio.list.useQuery(undefined, { enabled: transactionId !== null });
+  // Moves read better by stock symbol and portfolio name than by id
+  const display = (field: string, value: unknown) => {
+    if (field === "stockId") return stocks?.find((s) => s.id === value)?.symbol ?? formatValue(value);
+    if (field === "portfolioId") return portfolios?.find((p) => p.id === value)?.name ?? formatValue(value);
+    return formatValue(value);
+  };
+  const restoreMutation = trpc.transaction.restoreRevision.useMutation({
+    onSuccess: () => {
+      utils.transaction.audit.invalidate();
+      utils.transaction.history.invalidate();
+      toast.success("Revision restored");
+    },
+  });
+
+  const handleRestore = async (revisionId: number) => {
+    try {
+      try {
+        await restoreMutation.mutateAsync({ revisionId });
+      } catch (error: any) {
+        // Restoring values that leave a sale short of shares, or below cost, needs confirming
+        const warnings: TradeWarning[] | undefined = error?.data?.warnings;
+        if (!warnings || warnings.length === 0) throw error;
+        if (!confirm(`${warnings.map((w) => w.message).join(" ")} Restore anyway?`)) return;
+        await restoreMutation.mutateAsync({ revisionId, confirmOverride: true });
+      }
+    } catch (error: any) {
+      toast.error("Failed to restore revision", { description: error.message });
+    }
+  };
+
+  return (
+    <Dialog open={transactionId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>History of transaction #{transactionId}</DialogTitle>
+          <DialogDescription>Every change to this transaction, oldest first</DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="animate-spin w-6 h-6" />
+          </div>
+        ) : revisions && revisions.length > 0 ? (
+          <ol className="relative border-l ml-2 space-y-4 max-h-[60vh] overflow-y-auto">
+            {revisions.map((revision, index) => {
+              const latest = index === revisions.length - 1;
+              return (
+                <li key={revision.id} className="ml-4">
+                  <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-background" />
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={revision.action === "DELETE" ? "destructive" : "secondary"}>
+                        {ACTION_LABELS[revision.action]}
+                      </Badge>
+                      <span className="text-sm text-muted-foreground">
+                        {new Date(revision.createdAt).toLocaleString()}
+                      </span>
+                    </div>
+                    {(!latest || revision.action === "DELETE") && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRestore(revision.id)}
+                        disabled={restoreMutation.isPending || locked}
+                      >
+                        <RotateCcw className="w-3 h-3 mr-1" />
+                        {revision.action === "DELETE" ? "Undelete" : "Restore"}
+                      </Button>
+                    )}
+                  </div>
+                  {revision.changes.length > 0 && (
+                    <ul className="mt-2 text-sm space-y-0.5">
+                      {revision.changes.map((change) => (
+                        <li key={change.field}>
+                          <span className="text-muted-foreground">{FIELD_LABELS[change.field] ?? change.field}:</span>{" "}
+                          {revision.action !== "CREATE" && (
+                            <>
+                              <span className="line-through text-muted-foreground">{display(change.field, change.before)}</span>{" → "}
+                            </>
+                          )}
+                          <span className="font-medium">{display(change.field, change.after)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        ) : (
+          <p className="text-center py-8 text-muted-foreground">No history recorded for this transaction.</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
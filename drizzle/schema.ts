@@ -1,181 +1,499 @@
-import { integer, pgEnum, pgTable, text, timestamp, varchar, decimal, date, serial, boolean } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
-
-/**
- * Core user table backing auth flow.
- * Extend this file with additional tables as your product grows.
- * Columns use camelCase to match both database fields and generated types.
- */
-export const roleEnum = pgEnum("role", ["user", "admin"]);
-
-export const users = pgTable("users", {
-  /**
-   * Surrogate primary key. Auto-incremented numeric value managed by the database.
-   * Use this for relations between tables.
-   */
-  id: serial("id").primaryKey(),
-  /** Manus OAuth identifier (openId) returned from the OAuth callback. Unique per user. */
-  openId: varchar("openId", { length: 64 }).unique(), // Made nullable/optional logic-wise if using pure password, but keeping unique
-  password: text("password"), // Hashed password
-  name: text("name"),
-  email: varchar("email", { length: 320 }).unique(), // Email is now crucial for login
-  loginMethod: varchar("loginMethod", { length: 64 }),
-  role: roleEnum("role").default("user").notNull(),
-  createdAt: timestamp("createdAt").defaultNow().notNull(),
-  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
-  lastSignedIn: timestamp("lastSignedIn").defaultNow().notNull(),
-});
-
-export type User = typeof users.$inferSelect;
-export type InsertUser = typeof users.$inferInsert;
-
-/**
- * Stock table: stores stock symbols and names.
- * Global table, shared across users.
- */
-export const stocks = pgTable("stocks", {
-  id: serial("id").primaryKey(),
-  symbol: varchar("symbol", { length: 10 }).notNull().unique(),
-  name: varchar("name", { length: 255 }).notNull(),
-  createdAt: timestamp("createdAt").defaultNow().notNull(),
-});
-
-export type Stock = typeof stocks.$inferSelect;
-export type InsertStock = typeof stocks.$inferInsert;
-
-/**
- * Transaction table: stores buy, sell, and dividend transactions.
- * Amounts stored as DECIMAL in PKR for precision.
- * unitPrice is computed as totalAmount / quantity for BUY/SELL.
- */
-export const transactionTypeEnum = pgEnum("transaction_type", ["BUY", "SELL", "DIVIDEND"]);
-
-export const transactions = pgTable("transactions", {
-  id: serial("id").primaryKey(),
-  userId: integer("userId").references(() => users.id).notNull(),
-  stockId: integer("stockId").notNull(),
-  type: transactionTypeEnum("type").notNull(),
-  date: date("date").notNull(),
-  quantity: decimal("quantity", { precision: 18, scale: 8 }), // nullable for DIVIDEND
-  totalAmount: decimal("totalAmount", { precision: 18, scale: 2 }).notNull(), // in PKR
-  unitPrice: decimal("unitPrice", { precision: 18, scale: 8 }), // computed for BUY/SELL
-  notes: text("notes"),
-  createdAt: timestamp("createdAt").defaultNow().notNull(),
-  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
-});
-
-export type Transaction = typeof transactions.$inferSelect;
-export type InsertTransaction = typeof transactions.$inferInsert;
-
-/**
- * Watchlist table: stores stocks added to user's watchlist.
- */
-export const watchlist = pgTable("watchlist", {
-  id: serial("id").primaryKey(),
-  userId: integer("userId").references(() => users.id).notNull(),
-  stockId: integer("stockId").notNull(),
-  addedAt: timestamp("addedAt").defaultNow().notNull(),
-});
-
-export type Watchlist = typeof watchlist.$inferSelect;
-export type InsertWatchlist = typeof watchlist.$inferInsert;
-
-/**
- * Stock aggregates: cached aggregates for performance.
- * Recomputed when transactions are added/edited/deleted.
- * Now scoped by USER.
- */
-export const stockAggregates = pgTable("stockAggregates", {
-  id: serial("id").primaryKey(),
-  userId: integer("userId").references(() => users.id).notNull(),
-  stockId: integer("stockId").notNull(),
-  totalShares: decimal("totalShares", { precision: 18, scale: 8 }).notNull().default("0"),
-  totalInvested: decimal("totalInvested", { precision: 18, scale: 2 }).notNull().default("0"), // in PKR
-  avgCost: decimal("avgCost", { precision: 18, scale: 8 }).notNull().default("0"), // in PKR per share
-  realizedProfit: decimal("realizedProfit", { precision: 18, scale: 2 }).notNull().default("0"), // in PKR
-  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
-});
-
-export type StockAggregate = typeof stockAggregates.$inferSelect;
-export type InsertStockAggregate = typeof stockAggregates.$inferInsert;
-
-// Relations
-export const usersRelations = relations(users, ({ many }) => ({
-  transactions: many(transactions),
-  watchlistEntries: many(watchlist),
-  aggregates: many(stockAggregates),
-}));
-
-export const stocksRelations = relations(stocks, ({ many }) => ({
-  transactions: many(transactions),
-  watchlistEntries: many(watchlist),
-  aggregates: many(stockAggregates),
-}));
-
-export const transactionsRelations = relations(transactions, ({ one }) => ({
-  user: one(users, {
-    fields: [transactions.userId],
-    references: [users.id],
-  }),
-  stock: one(stocks, {
-    fields: [transactions.stockId],
-    references: [stocks.id],
-  }),
-}));
-
-export const watchlistRelations = relations(watchlist, ({ one }) => ({
-  user: one(users, {
-    fields: [watchlist.userId],
-    references: [users.id],
-  }),
-  stock: one(stocks, {
-    fields: [watchlist.stockId],
-    references: [stocks.id],
-  }),
-}));
-
-export const stockAggregatesRelations = relations(stockAggregates, ({ one }) => ({
-  user: one(users, {
-    fields: [stockAggregates.userId],
-    references: [users.id],
-  }),
-  stock: one(stocks, {
-    fields: [stockAggregates.stockId],
-    references: [stocks.id],
-  }),
-}));
-
-/**
- * User-level settings (trading window, etc.)
- */
-export const userSettings = pgTable("userSettings", {
-  id: serial("id").primaryKey(),
-  userId: integer("userId").references(() => users.id).notNull().unique(),
-  tradingWindowDays: integer("tradingWindowDays").notNull().default(1),
-  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
-});
-
-export type UserSettings = typeof userSettings.$inferSelect;
-export type InsertUserSettings = typeof userSettings.$inferInsert;
-
-export const userSettingsRelations = relations(userSettings, ({ one }) => ({
-  user: one(users, { fields: [userSettings.userId], references: [users.id] }),
-}));
-
-/**
- * Password Reset Tokens table
- */
-export const passwordResetTokens = pgTable("password_reset_tokens", {
-  id: serial("id").primaryKey(),
-  userId: integer("userId").references(() => users.id).notNull(),
-  token: varchar("token", { length: 255 }).notNull().unique(),
-  expiresAt: timestamp("expiresAt").notNull(),
-  createdAt: timestamp("createdAt").defaultNow().notNull(),
-});
-
-export const passwordResetTokensRelations = relations(passwordResetTokens, ({ one }) => ({
-  user: one(users, {
-    fields: [passwordResetTokens.userId],
-    references: [users.id],
-  }),
+import { integer, pgEnum, pgTable, text, timestamp, varchar, decimal, date, serial, boolean, jsonb, index, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+
+/**
+ * Core user table backing auth flow.
+ * Extend this file with additional tables as your product grows.
+ * Columns use camelCase to match both database fields and generated types.
+ */
+export const roleEnum = pgEnum("role", ["user", "admin"]);
+
+export const users = pgTable("users", {
+  /**
+   * Surrogate primary key. Auto-incremented numeric value managed by the database.
+   * Use this for relations between tables.
+   */
+  id: serial("id").primaryKey(),
+  /** Manus OAuth identifier (openId) returned from the OAuth callback. Unique per user. */
+  openId: varchar("openId", { length: 64 }).unique(), // Made nullable/optional logic-wise if using pure password, but keeping unique
+  password: text("password"), // Hashed password
+  name: text("name"),
+  email: varchar("email", { length: 320 }).unique(), // Email is now crucial for login
+  loginMethod: varchar("loginMethod", { length: 64 }),
+  role: roleEnum("role").default("user").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+  lastSignedIn: timestamp("lastSignedIn").defaultNow().notNull(),
+});
+
+export type User = typeof users.$inferSelect;
+export type InsertUser = typeof users.$inferInsert;
+
+/**
+ * Stock table: stores stock symbols and names.
+ * Global table, shared across users.
+ */
+export const stocks = pgTable("stocks", {
+  id: serial("id").primaryKey(),
+  symbol: varchar("symbol", { length: 10 }).notNull().unique(),
+  name: varchar("name", { length: 255 }).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type Stock = typeof stocks.$inferSelect;
+export type InsertStock = typeof stocks.$inferInsert;
+
+/**
+ * Portfolios table: a user's brokerage accounts.
+ * Transactions, aggregates and lots belong to one portfolio; every user has at least one.
+ */
+export const portfolios = pgTable("portfolios", {
+  id: serial("id").primaryKey(),
+  userId: integer("userId").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  brokerName: varchar("brokerName", { length: 100 }),
+  // Margin accounts may sell more than they hold and carry short positions
+  allowShortSelling: boolean("allowShortSelling").notNull().default(false),
+  // Books closed through this date: transactions on or before it cannot be changed
+  lockedThrough: date("lockedThrough"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type Portfolio = typeof portfolios.$inferSelect;
+export type InsertPortfolio = typeof portfolios.$inferInsert;
+
+/**
+ * Transaction table: stores buy, sell, and dividend transactions.
+ * Amounts stored as DECIMAL in PKR for precision.
+ * unitPrice is computed as totalAmount / quantity for BUY/SELL.
+ * totalAmount is the gross trade value; brokerage and statutory charges are kept
+ * in their own columns (rows entered before the split carry them inside totalAmount).
+ * lotAllocation optionally pins a SELL to specific buy lots (by BUY transaction id).
+ */
+export type LotAllocation = { buyTransactionId: number; quantity: string };
+
+/**
+ * A lot carried by a share transfer, with the acquisition date and cost per share it had in the sending account.
+ */
+export type TransferLot = { acquiredDate: string; quantity: string; unitCost: string };
+
+/**
+ * RIGHTS_SUBSCRIPTION acquires right shares at the subscription price (like a BUY);
+ * RIGHTS_RENUNCIATION records the sale of a letter of rights (quantity = rights, totalAmount = proceeds).
+ * TRANSFER_OUT / TRANSFER_IN move shares between accounts (e.g. CDC sub-accounts) with their cost basis;
+ * totalAmount is the cost basis moved, and a TRANSFER_IN linked to a TRANSFER_OUT (transferOutId)
+ * gets its lots from it. An unlinked TRANSFER_IN arrives from outside at totalAmount.
+ */
+export const transactionTypeEnum = pgEnum("transaction_type", [
+  "BUY",
+  "SELL",
+  "DIVIDEND",
+  "RIGHTS_SUBSCRIPTION",
+  "RIGHTS_RENUNCIATION",
+  "TRANSFER_OUT",
+  "TRANSFER_IN",
+]);
+
+/**
+ * The transaction types entered and edited as plain trades. Transfers and rights elections are
+ * recorded through their own flows.
+ */
+export const TRADE_TYPES = ["BUY", "SELL", "DIVIDEND"] as const satisfies readonly (typeof transactionTypeEnum.enumValues)[number][];
+
+export const transactions = pgTable("transactions", {
+  id: serial("id").primaryKey(),
+  userId: integer("userId").references(() => users.id).notNull(),
+  portfolioId: integer("portfolioId").references(() => portfolios.id, { onDelete: "cascade" }).notNull(),
+  stockId: integer("stockId").notNull(),
+  type: transactionTypeEnum("type").notNull(),
+  date: date("date").notNull(),
+  quantity: decimal("quantity", { precision: 18, scale: 8 }), // nullable for DIVIDEND
+  totalAmount: decimal("totalAmount", { precision: 18, scale: 2 }).notNull(), // in PKR
+  unitPrice: decimal("unitPrice", { precision: 18, scale: 8 }), // computed for BUY/SELL
+  lotAllocation: jsonb("lotAllocation").$type<LotAllocation[]>(), // SELL only
+  commission: decimal("commission", { precision: 18, scale: 2 }).notNull().default("0"), // in PKR
+  capitalValueTax: decimal("capitalValueTax", { precision: 18, scale: 2 }).notNull().default("0"), // CVT, in PKR
+  regulatoryLevies: decimal("regulatoryLevies", { precision: 18, scale: 2 }).notNull().default("0"), // SECP/PSX levies, in PKR
+  cdcCharges: decimal("cdcCharges", { precision: 18, scale: 2 }).notNull().default("0"), // in PKR
+  salesTax: decimal("salesTax", { precision: 18, scale: 2 }).notNull().default("0"), // sales tax on commission, in PKR
+  withholdingTax: decimal("withholdingTax", { precision: 18, scale: 2 }).notNull().default("0"), // DIVIDEND only, in PKR
+  zakat: decimal("zakat", { precision: 18, scale: 2 }).notNull().default("0"), // DIVIDEND only, in PKR
+  corporateActionId: integer("corporateActionId").references(() => corporateActions.id, { onDelete: "cascade" }), // rights elections only
+  transferOutId: integer("transferOutId").references((): AnyPgColumn => transactions.id, { onDelete: "cascade" }), // TRANSFER_IN only
+  transferLots: jsonb("transferLots").$type<TransferLot[]>(), // linked TRANSFER_IN only, kept in step with its TRANSFER_OUT
+  sequence: integer("sequence"), // position within its day once the day is reordered; null keeps entry order
+  notes: text("notes"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+  deletedAt: timestamp("deletedAt"), // soft-deleted rows are kept for their history and can be restored
+});
+
+export type Transaction = typeof transactions.$inferSelect;
+export type InsertTransaction = typeof transactions.$inferInsert;
+
+/**
+ * Transaction revisions: every create, update, delete and restore of a transaction, with the
+ * row's values before and after. A create has no before; a delete keeps the row as it was.
+ */
+export const revisionActionEnum = pgEnum("revision_action", ["CREATE", "UPDATE", "DELETE", "RESTORE"]);
+
+/** A transaction's values as stored in its revisions, without the row's timestamps. */
+export type TransactionValues = Omit<Transaction, "createdAt" | "updatedAt" | "deletedAt">;
+
+export const transactionRevisions = pgTable("transactionRevisions", {
+  id: serial("id").primaryKey(),
+  userId: integer("userId").references(() => users.id).notNull(),
+  transactionId: integer("transactionId").references(() => transactions.id, { onDelete: "cascade" }).notNull(),
+  action: revisionActionEnum("action").notNull(),
+  before: jsonb("before").$type<TransactionValues>(),
+  after: jsonb("after").$type<TransactionValues>(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("transactionRevisions_transaction_idx").on(table.transactionId, table.createdAt),
+]);
+
+export type TransactionRevision = typeof transactionRevisions.$inferSelect;
+export type RevisionAction = TransactionRevision["action"];
+
+/**
+ * Watchlist table: stores stocks added to user's watchlist.
+ */
+export const watchlist = pgTable("watchlist", {
+  id: serial("id").primaryKey(),
+  userId: integer("userId").references(() => users.id).notNull(),
+  stockId: integer("stockId").notNull(),
+  addedAt: timestamp("addedAt").defaultNow().notNull(),
+});
+
+export type Watchlist = typeof watchlist.$inferSelect;
+export type InsertWatchlist = typeof watchlist.$inferInsert;
+
+/**
+ * Stock aggregates: cached aggregates for performance.
+ * Recomputed when transactions are added/edited/deleted.
+ * Scoped by USER and PORTFOLIO.
+ */
+export const stockAggregates = pgTable("stockAggregates", {
+  id: serial("id").primaryKey(),
+  userId: integer("userId").references(() => users.id).notNull(),
+  portfolioId: integer("portfolioId").references(() => portfolios.id, { onDelete: "cascade" }).notNull(),
+  stockId: integer("stockId").notNull(),
+  totalShares: decimal("totalShares", { precision: 18, scale: 8 }).notNull().default("0"),
+  totalInvested: decimal("totalInvested", { precision: 18, scale: 2 }).notNull().default("0"), // in PKR
+  avgCost: decimal("avgCost", { precision: 18, scale: 8 }).notNull().default("0"), // in PKR per share
+  realizedProfit: decimal("realizedProfit", { precision: 18, scale: 2 }).notNull().default("0"), // in PKR
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+export type StockAggregate = typeof stockAggregates.$inferSelect;
+export type InsertStockAggregate = typeof stockAggregates.$inferInsert;
+
+/**
+ * Tax lots: one row per BUY, with the quantity still open.
+ * Rebuilt by recomputeAggregates whenever the stock's transactions change.
+ */
+export const lots = pgTable("lots", {
+  id: serial("id").primaryKey(),
+  userId: integer("userId").references(() => users.id).notNull(),
+  portfolioId: integer("portfolioId").references(() => portfolios.id, { onDelete: "cascade" }).notNull(),
+  stockId: integer("stockId").notNull(),
+  buyTransactionId: integer("buyTransactionId").references(() => transactions.id, { onDelete: "cascade" }).notNull(),
+  acquiredDate: date("acquiredDate").notNull(),
+  originalQuantity: decimal("originalQuantity", { precision: 18, scale: 8 }).notNull(),
+  openQuantity: decimal("openQuantity", { precision: 18, scale: 8 }).notNull(),
+  unitCost: decimal("unitCost", { precision: 18, scale: 8 }).notNull(), // in PKR per share
+  openCost: decimal("openCost", { precision: 18, scale: 2 }).notNull(), // in PKR
+  closedDate: date("closedDate"), // when the last share left; null while the lot is open
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+export type Lot = typeof lots.$inferSelect;
+export type InsertLot = typeof lots.$inferInsert;
+
+/**
+ * Lot disposals: which lots each SELL consumed, and at what cost.
+ */
+export const lotDisposals = pgTable("lotDisposals", {
+  id: serial("id").primaryKey(),
+  userId: integer("userId").references(() => users.id).notNull(),
+  lotId: integer("lotId").references(() => lots.id, { onDelete: "cascade" }).notNull(),
+  sellTransactionId: integer("sellTransactionId").references(() => transactions.id, { onDelete: "cascade" }).notNull(),
+  disposedDate: date("disposedDate").notNull(),
+  quantity: decimal("quantity", { precision: 18, scale: 8 }).notNull(),
+  costBasis: decimal("costBasis", { precision: 18, scale: 2 }).notNull(), // in PKR
+  proceeds: decimal("proceeds", { precision: 18, scale: 2 }).notNull(), // in PKR
+});
+
+export type LotDisposal = typeof lotDisposals.$inferSelect;
+export type InsertLotDisposal = typeof lotDisposals.$inferInsert;
+
+/**
+ * An open lot as saved in a position snapshot. Decimals are strings; buyTransactionId and
+ * buyQuantity identify the transaction the lot is listed under in the lot ledger.
+ */
+export type SnapshotLot = {
+  buyTransactionId?: number;
+  buyQuantity?: string | null;
+  transactionId?: number;
+  date: string;
+  quantity: string;
+  unitPrice: string;
+  disposals: Array<{ sellTransactionId: number; date: string; quantity: string; cost: string; proceeds: string }>;
+  transfers: Array<{ transactionId: number; quantity: string; unitCost: string }>;
+  splitFactor?: string;
+  initialQuantity?: string;
+};
+
+/**
+ * A stock's replayed position with its open lots, as saved in a position snapshot.
+ */
+export type SnapshotPosition = {
+  totalShares: string;
+  totalInvested: string;
+  avgCost: string;
+  realizedProfit: string;
+  lots: SnapshotLot[];
+};
+
+/**
+ * Position snapshots: a stock's replayed position in a portfolio at the close of each month-end,
+ * after every transaction and corporate action on or before that date. Replays start from the
+ * latest snapshot before the first date that changed instead of from the first transaction.
+ * grossPosition is the same replay with charges left out, for reports that show both.
+ */
+export const positionSnapshots = pgTable("positionSnapshots", {
+  id: serial("id").primaryKey(),
+  userId: integer("userId").references(() => users.id).notNull(),
+  portfolioId: integer("portfolioId").references(() => portfolios.id, { onDelete: "cascade" }).notNull(),
+  stockId: integer("stockId").notNull(),
+  date: date("date").notNull(),
+  position: jsonb("position").$type<SnapshotPosition>().notNull(),
+  grossPosition: jsonb("grossPosition").$type<SnapshotPosition>().notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("positionSnapshots_portfolio_stock_date_idx").on(table.portfolioId, table.stockId, table.date),
+]);
+
+export type PositionSnapshot = typeof positionSnapshots.$inferSelect;
+export type InsertPositionSnapshot = typeof positionSnapshots.$inferInsert;
+
+/**
+ * Corporate actions table - events that change a holding without a trade.
+ * SPLIT: every ratioOld shares become ratioNew shares.
+ * BONUS: ratioNew bonus shares are issued for every ratioOld held.
+ * RIGHTS: ratioNew rights are offered for every ratioOld held, at subscriptionPrice;
+ * the user's elections are RIGHTS_SUBSCRIPTION / RIGHTS_RENUNCIATION transactions.
+ * CONVERSION: a merger or symbol change; every ratioOld shares of stockId become ratioNew
+ * shares of targetStockId, carrying the cost basis and acquisition dates across.
+ * DEMERGER: ratioNew shares of targetStockId (the child) are issued for every ratioOld of
+ * stockId (the parent) held, and costPercent of the parent's cost basis moves to the child.
+ * Applied to holdings as of the start of effectiveDate (the ex-date).
+ */
+export const corporateActionTypeEnum = pgEnum("corporate_action_type", ["SPLIT", "BONUS", "RIGHTS", "CONVERSION", "DEMERGER"]);
+
+export const corporateActions = pgTable("corporateActions", {
+  id: serial("id").primaryKey(),
+  userId: integer("userId").references(() => users.id).notNull(),
+  stockId: integer("stockId").references(() => stocks.id, { onDelete: "cascade" }).notNull(),
+  type: corporateActionTypeEnum("type").notNull(),
+  effectiveDate: date("effectiveDate").notNull(),
+  ratioNew: decimal("ratioNew", { precision: 18, scale: 8 }).notNull(),
+  ratioOld: decimal("ratioOld", { precision: 18, scale: 8 }).notNull(),
+  subscriptionPrice: decimal("subscriptionPrice", { precision: 18, scale: 4 }), // RIGHTS only, in PKR
+  targetStockId: integer("targetStockId").references(() => stocks.id, { onDelete: "cascade" }), // CONVERSION and DEMERGER
+  costPercent: decimal("costPercent", { precision: 7, scale: 4 }), // DEMERGER only, share of cost moving to the child
+  notes: text("notes"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type CorporateAction = typeof corporateActions.$inferSelect;
+export type InsertCorporateAction = typeof corporateActions.$inferInsert;
+
+// Relations
+export const usersRelations = relations(users, ({ many }) => ({
+  portfolios: many(portfolios),
+  transactions: many(transactions),
+  watchlistEntries: many(watchlist),
+  aggregates: many(stockAggregates),
+}));
+
+export const portfoliosRelations = relations(portfolios, ({ one, many }) => ({
+  user: one(users, { fields: [portfolios.userId], references: [users.id] }),
+  transactions: many(transactions),
+  aggregates: many(stockAggregates),
+  cashMovements: many(cashMovements),
+}));
+
+export const stocksRelations = relations(stocks, ({ many }) => ({
+  transactions: many(transactions),
+  watchlistEntries: many(watchlist),
+  aggregates: many(stockAggregates),
+}));
+
+export const transactionsRelations = relations(transactions, ({ one }) => ({
+  user: one(users, {
+    fields: [transactions.userId],
+    references: [users.id],
+  }),
+  portfolio: one(portfolios, {
+    fields: [transactions.portfolioId],
+    references: [portfolios.id],
+  }),
+  stock: one(stocks, {
+    fields: [transactions.stockId],
+    references: [stocks.id],
+  }),
+}));
+
+export const watchlistRelations = relations(watchlist, ({ one }) => ({
+  user: one(users, {
+    fields: [watchlist.userId],
+    references: [users.id],
+  }),
+  stock: one(stocks, {
+    fields: [watchlist.stockId],
+    references: [stocks.id],
+  }),
+}));
+
+export const stockAggregatesRelations = relations(stockAggregates, ({ one }) => ({
+  user: one(users, {
+    fields: [stockAggregates.userId],
+    references: [users.id],
+  }),
+  portfolio: one(portfolios, {
+    fields: [stockAggregates.portfolioId],
+    references: [portfolios.id],
+  }),
+  stock: one(stocks, {
+    fields: [stockAggregates.stockId],
+    references: [stocks.id],
+  }),
+}));
+
+export const lotsRelations = relations(lots, ({ one, many }) => ({
+  user: one(users, { fields: [lots.userId], references: [users.id] }),
+  stock: one(stocks, { fields: [lots.stockId], references: [stocks.id] }),
+  buyTransaction: one(transactions, { fields: [lots.buyTransactionId], references: [transactions.id] }),
+  disposals: many(lotDisposals),
+}));
+
+export const lotDisposalsRelations = relations(lotDisposals, ({ one }) => ({
+  lot: one(lots, { fields: [lotDisposals.lotId], references: [lots.id] }),
+  sellTransaction: one(transactions, { fields: [lotDisposals.sellTransactionId], references: [transactions.id] }),
+}));
+
+export const corporateActionsRelations = relations(corporateActions, ({ one }) => ({
+  user: one(users, { fields: [corporateActions.userId], references: [users.id] }),
+  stock: one(stocks, { fields: [corporateActions.stockId], references: [stocks.id] }),
+  targetStock: one(stocks, { fields: [corporateActions.targetStockId], references: [stocks.id] }),
+}));
+
+/**
+ * User-level settings (trading window, cost-basis method, etc.)
+ * AVERAGE keeps the moving-average cost with trading-window matching;
+ * FIFO and LIFO relieve open buy lots strictly in date order.
+ */
+export const costBasisMethodEnum = pgEnum("cost_basis_method", ["AVERAGE", "FIFO", "LIFO"]);
+
+export type CostBasisMethod = (typeof costBasisMethodEnum.enumValues)[number];
+
+/**
+ * A capital gains tax rate slab: applies to disposals held for at most maxHoldingMonths
+ * (null = any longer period). Rates are percentages.
+ */
+export type CgtSlab = { maxHoldingMonths: number | null; filerRate: string; nonFilerRate: string };
+
+// A day the exchange is closed: YYYY-MM-DD, or MM-DD for a holiday on the same date every year
+export type MarketHoliday = { date: string; name: string };
+
+export const userSettings = pgTable("userSettings", {
+  id: serial("id").primaryKey(),
+  userId: integer("userId").references(() => users.id).notNull().unique(),
+  tradingWindowDays: integer("tradingWindowDays").notNull().default(1),
+  costBasisMethod: costBasisMethodEnum("costBasisMethod").notNull().default("AVERAGE"),
+  isFiler: boolean("isFiler").notNull().default(true), // on the FBR Active Taxpayers List
+  cgtSlabs: jsonb("cgtSlabs").$type<CgtSlab[]>(), // null = built-in defaults
+  marketHolidays: jsonb("marketHolidays").$type<MarketHoliday[]>(), // null = built-in PSX holidays
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+export type UserSettings = typeof userSettings.$inferSelect;
+export type InsertUserSettings = typeof userSettings.$inferInsert;
+
+export const userSettingsRelations = relations(userSettings, ({ one }) => ({
+  user: one(users, { fields: [userSettings.userId], references: [users.id] }),
+}));
+
+/**
+ * Broker fee schedules: how a broker charges, used to pre-fill transaction charges.
+ * Rates are percentages of trade value unless noted; one schedule per user may be the default.
+ */
+export const commissionTypeEnum = pgEnum("commission_type", ["PERCENT", "PER_SHARE"]);
+
+export const feeSchedules = pgTable("feeSchedules", {
+  id: serial("id").primaryKey(),
+  userId: integer("userId").references(() => users.id).notNull(),
+  brokerName: varchar("brokerName", { length: 100 }).notNull(),
+  commissionType: commissionTypeEnum("commissionType").notNull().default("PERCENT"),
+  commissionRate: decimal("commissionRate", { precision: 18, scale: 6 }).notNull().default("0"), // % of value, or PKR per share
+  minCommission: decimal("minCommission", { precision: 18, scale: 2 }).notNull().default("0"), // in PKR
+  salesTaxRate: decimal("salesTaxRate", { precision: 18, scale: 6 }).notNull().default("0"), // % of commission
+  cvtRate: decimal("cvtRate", { precision: 18, scale: 6 }).notNull().default("0"), // % of value, buys only
+  levyRate: decimal("levyRate", { precision: 18, scale: 6 }).notNull().default("0"), // SECP + PSX, % of value
+  cdcPerShare: decimal("cdcPerShare", { precision: 18, scale: 6 }).notNull().default("0"), // PKR per share
+  isDefault: boolean("isDefault").notNull().default(false),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+export type FeeSchedule = typeof feeSchedules.$inferSelect;
+export type InsertFeeSchedule = typeof feeSchedules.$inferInsert;
+
+export const feeSchedulesRelations = relations(feeSchedules, ({ one }) => ({
+  user: one(users, { fields: [feeSchedules.userId], references: [users.id] }),
+}));
+
+/**
+ * Cash movements: money moved into or out of a portfolio's broker account other than by trading.
+ * amount is always positive; DEPOSIT and INTEREST credit cash, WITHDRAWAL and FEE debit it.
+ * Trades and dividends move cash too, but those are derived from the transactions table.
+ */
+export const cashMovementTypeEnum = pgEnum("cash_movement_type", ["DEPOSIT", "WITHDRAWAL", "FEE", "INTEREST"]);
+
+export const cashMovements = pgTable("cashMovements", {
+  id: serial("id").primaryKey(),
+  userId: integer("userId").references(() => users.id).notNull(),
+  portfolioId: integer("portfolioId").references(() => portfolios.id, { onDelete: "cascade" }).notNull(),
+  type: cashMovementTypeEnum("type").notNull(),
+  date: date("date").notNull(),
+  amount: decimal("amount", { precision: 18, scale: 2 }).notNull(), // in PKR
+  notes: text("notes"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+export type CashMovement = typeof cashMovements.$inferSelect;
+export type InsertCashMovement = typeof cashMovements.$inferInsert;
+
+export const cashMovementsRelations = relations(cashMovements, ({ one }) => ({
+  user: one(users, { fields: [cashMovements.userId], references: [users.id] }),
+  portfolio: one(portfolios, { fields: [cashMovements.portfolioId], references: [portfolios.id] }),
+}));
+
+/**
+ * Password Reset Tokens table
+ */
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("userId").references(() => users.id).notNull(),
+  token: varchar("token", { length: 255 }).notNull().unique(),
+  expiresAt: timestamp("expiresAt").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export const passwordResetTokensRelations = relations(passwordResetTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [passwordResetTokens.userId],
+    references: [users.id],
+  }),
 }));
\ No newline at end of file
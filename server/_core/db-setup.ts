@@ -1,136 +1,423 @@
-import postgres from "postgres";
-
-/**
- * Ensure all required database tables exist, create them if they don't
- */
-export async function ensureTablesExist() {
-  if (!process.env.DATABASE_URL) {
-    console.log("[DB Setup] DATABASE_URL not set, skipping table creation");
-    return;
-  }
-
-  const client = postgres(process.env.DATABASE_URL);
-
-  try {
-    // Create ENUM types if they don't exist.
-    await client.unsafe(`
-      DO $$ BEGIN
-        CREATE TYPE "public"."role" AS ENUM('user', 'admin');
-      EXCEPTION
-        WHEN duplicate_object THEN null;
-      END $$;
-    `);
-
-    await client.unsafe(`
-      DO $$ BEGIN
-        CREATE TYPE "public"."transaction_type" AS ENUM('BUY', 'SELL', 'DIVIDEND');
-      EXCEPTION
-        WHEN duplicate_object THEN null;
-      END $$;
-    `);
-
-    // Create canonical tables (matching drizzle schema + CSV import structure).
-    await client.unsafe(`
-      CREATE TABLE IF NOT EXISTS "users" (
-        "id" serial PRIMARY KEY NOT NULL,
-        "openId" varchar(64),
-        "password" text,
-        "name" text,
-        "email" varchar(320),
-        "loginMethod" varchar(64),
-        "role" "role" DEFAULT 'user' NOT NULL,
-        "createdAt" timestamp DEFAULT now() NOT NULL,
-        "updatedAt" timestamp DEFAULT now() NOT NULL,
-        "lastSignedIn" timestamp DEFAULT now() NOT NULL,
-        CONSTRAINT "users_openId_unique" UNIQUE("openId"),
-        CONSTRAINT "users_email_unique" UNIQUE("email")
-      );
-    `);
-
-    await client.unsafe(`
-      CREATE TABLE IF NOT EXISTS "stocks" (
-        "id" serial PRIMARY KEY NOT NULL,
-        "symbol" varchar(10) NOT NULL,
-        "name" varchar(255) NOT NULL,
-        "createdAt" timestamp DEFAULT now() NOT NULL,
-        CONSTRAINT "stocks_symbol_unique" UNIQUE("symbol")
-      );
-    `);
-
-    await client.unsafe(`
-      CREATE TABLE IF NOT EXISTS "transactions" (
-        "id" serial PRIMARY KEY NOT NULL,
-        "userId" integer,
-        "stockId" integer NOT NULL,
-        "type" "transaction_type" NOT NULL,
-        "date" date NOT NULL,
-        "quantity" numeric(18, 8),
-        "totalAmount" numeric(18, 2) NOT NULL,
-        "unitPrice" numeric(18, 8),
-        "notes" text,
-        "createdAt" timestamp DEFAULT now() NOT NULL,
-        "updatedAt" timestamp DEFAULT now() NOT NULL,
-        CONSTRAINT "transactions_userId_fk" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE,
-        CONSTRAINT "transactions_stockId_fk" FOREIGN KEY ("stockId") REFERENCES "stocks"("id") ON DELETE CASCADE
-      );
-    `);
-
-    await client.unsafe(`
-      CREATE TABLE IF NOT EXISTS "stockAggregates" (
-        "id" serial PRIMARY KEY NOT NULL,
-        "userId" integer,
-        "stockId" integer NOT NULL,
-        "totalShares" numeric(18, 8) DEFAULT '0' NOT NULL,
-        "totalInvested" numeric(18, 2) DEFAULT 0 NOT NULL,
-        "avgCost" numeric(18, 8) DEFAULT '0' NOT NULL,
-        "realizedProfit" numeric(18, 2) DEFAULT 0 NOT NULL,
-        "updatedAt" timestamp DEFAULT now() NOT NULL,
-        CONSTRAINT "stockAggregates_user_stock_unique" UNIQUE("userId", "stockId"),
-        CONSTRAINT "stockAggregates_userId_fk" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE,
-        CONSTRAINT "stockAggregates_stockId_fk" FOREIGN KEY ("stockId") REFERENCES "stocks"("id") ON DELETE CASCADE
-      );
-    `);
-
-    await client.unsafe(`
-      CREATE TABLE IF NOT EXISTS "watchlist" (
-        "id" serial PRIMARY KEY NOT NULL,
-        "userId" integer,
-        "stockId" integer NOT NULL,
-        "addedAt" timestamp DEFAULT now() NOT NULL,
-        CONSTRAINT "watchlist_userId_fk" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE,
-        CONSTRAINT "watchlist_stockId_fk" FOREIGN KEY ("stockId") REFERENCES "stocks"("id") ON DELETE CASCADE
-      );
-    `);
-
-    await client.unsafe(`
-      CREATE TABLE IF NOT EXISTS "userSettings" (
-        "id" serial PRIMARY KEY NOT NULL,
-        "userId" integer NOT NULL,
-        "tradingWindowDays" integer NOT NULL DEFAULT 1,
-        "updatedAt" timestamp DEFAULT now() NOT NULL,
-        CONSTRAINT "userSettings_userId_unique" UNIQUE("userId"),
-        CONSTRAINT "userSettings_userId_fk" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE
-      );
-    `);
-
-    await client.unsafe(`
-      CREATE TABLE IF NOT EXISTS "password_reset_tokens" (
-        "id" serial PRIMARY KEY NOT NULL,
-        "userId" integer NOT NULL,
-        "token" varchar(255) NOT NULL,
-        "expiresAt" timestamp NOT NULL,
-        "createdAt" timestamp DEFAULT now() NOT NULL,
-        CONSTRAINT "password_reset_tokens_token_unique" UNIQUE("token"),
-        CONSTRAINT "password_reset_tokens_userId_fk" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE
-      );
-    `);
-
-    console.log("[DB Setup] All tables verified/created successfully");
-  } catch (error: any) {
-    console.error("[DB Setup] Error setting up tables:", error.message);
-    throw error;
-  } finally {
-    await client.end();
-  }
-}
-
+import postgres from "postgres";
+
+/**
+ * Ensure all required database tables exist, create them if they don't
+ */
+export async function ensureTablesExist() {
+  if (!process.env.DATABASE_URL) {
+    console.log("[DB Setup] DATABASE_URL not set, skipping table creation");
+    return;
+  }
+
+  const client = postgres(process.env.DATABASE_URL);
+
+  try {
+    // Create ENUM types if they don't exist.
+    await client.unsafe(`
+      DO $$ BEGIN
+        CREATE TYPE "public"."role" AS ENUM('user', 'admin');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `);
+
+    await client.unsafe(`
+      DO $$ BEGIN
+        CREATE TYPE "public"."transaction_type" AS ENUM('BUY', 'SELL', 'DIVIDEND', 'RIGHTS_SUBSCRIPTION', 'RIGHTS_RENUNCIATION', 'TRANSFER_OUT', 'TRANSFER_IN');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `);
+
+    await client.unsafe(`
+      DO $$ BEGIN
+        CREATE TYPE "public"."cost_basis_method" AS ENUM('AVERAGE', 'FIFO', 'LIFO');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `);
+
+    await client.unsafe(`
+      DO $$ BEGIN
+        CREATE TYPE "public"."corporate_action_type" AS ENUM('SPLIT', 'BONUS', 'RIGHTS', 'CONVERSION', 'DEMERGER');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `);
+
+    // Enum values added after the initial release
+    await client.unsafe(`ALTER TYPE "public"."transaction_type" ADD VALUE IF NOT EXISTS 'RIGHTS_SUBSCRIPTION';`);
+    await client.unsafe(`ALTER TYPE "public"."transaction_type" ADD VALUE IF NOT EXISTS 'RIGHTS_RENUNCIATION';`);
+    await client.unsafe(`ALTER TYPE "public"."transaction_type" ADD VALUE IF NOT EXISTS 'TRANSFER_OUT';`);
+    await client.unsafe(`ALTER TYPE "public"."transaction_type" ADD VALUE IF NOT EXISTS 'TRANSFER_IN';`);
+    await client.unsafe(`ALTER TYPE "public"."corporate_action_type" ADD VALUE IF NOT EXISTS 'RIGHTS';`);
+    await client.unsafe(`ALTER TYPE "public"."corporate_action_type" ADD VALUE IF NOT EXISTS 'CONVERSION';`);
+    await client.unsafe(`ALTER TYPE "public"."corporate_action_type" ADD VALUE IF NOT EXISTS 'DEMERGER';`);
+
+    await client.unsafe(`
+      DO $$ BEGIN
+        CREATE TYPE "public"."commission_type" AS ENUM('PERCENT', 'PER_SHARE');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `);
+
+    await client.unsafe(`
+      DO $$ BEGIN
+        CREATE TYPE "public"."cash_movement_type" AS ENUM('DEPOSIT', 'WITHDRAWAL', 'FEE', 'INTEREST');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `);
+
+    await client.unsafe(`
+      DO $$ BEGIN
+        CREATE TYPE "public"."revision_action" AS ENUM('CREATE', 'UPDATE', 'DELETE', 'RESTORE');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `);
+
+    // Create canonical tables (matching drizzle schema + CSV import structure).
+    await client.unsafe(`
+      CREATE TABLE IF NOT EXISTS "users" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "openId" varchar(64),
+        "password" text,
+        "name" text,
+        "email" varchar(320),
+        "loginMethod" varchar(64),
+        "role" "role" DEFAULT 'user' NOT NULL,
+        "createdAt" timestamp DEFAULT now() NOT NULL,
+        "updatedAt" timestamp DEFAULT now() NOT NULL,
+        "lastSignedIn" timestamp DEFAULT now() NOT NULL,
+        CONSTRAINT "users_openId_unique" UNIQUE("openId"),
+        CONSTRAINT "users_email_unique" UNIQUE("email")
+      );
+    `);
+
+    await client.unsafe(`
+      CREATE TABLE IF NOT EXISTS "stocks" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "symbol" varchar(10) NOT NULL,
+        "name" varchar(255) NOT NULL,
+        "createdAt" timestamp DEFAULT now() NOT NULL,
+        CONSTRAINT "stocks_symbol_unique" UNIQUE("symbol")
+      );
+    `);
+
+    await client.unsafe(`
+      CREATE TABLE IF NOT EXISTS "portfolios" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "userId" integer NOT NULL,
+        "name" varchar(100) NOT NULL,
+        "brokerName" varchar(100),
+        "allowShortSelling" boolean DEFAULT false NOT NULL,
+        "lockedThrough" date,
+        "createdAt" timestamp DEFAULT now() NOT NULL,
+        CONSTRAINT "portfolios_userId_fk" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE
+      );
+    `);
+
+    await client.unsafe(`
+      CREATE TABLE IF NOT EXISTS "transactions" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "userId" integer,
+        "portfolioId" integer,
+        "stockId" integer NOT NULL,
+        "type" "transaction_type" NOT NULL,
+        "date" date NOT NULL,
+        "quantity" numeric(18, 8),
+        "totalAmount" numeric(18, 2) NOT NULL,
+        "unitPrice" numeric(18, 8),
+        "lotAllocation" jsonb,
+        "commission" numeric(18, 2) DEFAULT 0 NOT NULL,
+        "capitalValueTax" numeric(18, 2) DEFAULT 0 NOT NULL,
+        "regulatoryLevies" numeric(18, 2) DEFAULT 0 NOT NULL,
+        "cdcCharges" numeric(18, 2) DEFAULT 0 NOT NULL,
+        "salesTax" numeric(18, 2) DEFAULT 0 NOT NULL,
+        "withholdingTax" numeric(18, 2) DEFAULT 0 NOT NULL,
+        "zakat" numeric(18, 2) DEFAULT 0 NOT NULL,
+        "transferOutId" integer,
+        "transferLots" jsonb,
+        "sequence" integer,
+        "notes" text,
+        "createdAt" timestamp DEFAULT now() NOT NULL,
+        "updatedAt" timestamp DEFAULT now() NOT NULL,
+        "deletedAt" timestamp,
+        CONSTRAINT "transactions_transferOutId_fk" FOREIGN KEY ("transferOutId") REFERENCES "transactions"("id") ON DELETE CASCADE,
+        CONSTRAINT "transactions_userId_fk" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE,
+        CONSTRAINT "transactions_portfolioId_fk" FOREIGN KEY ("portfolioId") REFERENCES "portfolios"("id") ON DELETE CASCADE,
+        CONSTRAINT "transactions_stockId_fk" FOREIGN KEY ("stockId") REFERENCES "stocks"("id") ON DELETE CASCADE
+      );
+    `);
+
+    await client.unsafe(`
+      CREATE TABLE IF NOT EXISTS "stockAggregates" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "userId" integer,
+        "portfolioId" integer,
+        "stockId" integer NOT NULL,
+        "totalShares" numeric(18, 8) DEFAULT '0' NOT NULL,
+        "totalInvested" numeric(18, 2) DEFAULT 0 NOT NULL,
+        "avgCost" numeric(18, 8) DEFAULT '0' NOT NULL,
+        "realizedProfit" numeric(18, 2) DEFAULT 0 NOT NULL,
+        "updatedAt" timestamp DEFAULT now() NOT NULL,
+        CONSTRAINT "stockAggregates_user_portfolio_stock_unique" UNIQUE("userId", "portfolioId", "stockId"),
+        CONSTRAINT "stockAggregates_userId_fk" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE,
+        CONSTRAINT "stockAggregates_portfolioId_fk" FOREIGN KEY ("portfolioId") REFERENCES "portfolios"("id") ON DELETE CASCADE,
+        CONSTRAINT "stockAggregates_stockId_fk" FOREIGN KEY ("stockId") REFERENCES "stocks"("id") ON DELETE CASCADE
+      );
+    `);
+
+    await client.unsafe(`
+      CREATE TABLE IF NOT EXISTS "lots" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "userId" integer NOT NULL,
+        "portfolioId" integer,
+        "stockId" integer NOT NULL,
+        "buyTransactionId" integer NOT NULL,
+        "acquiredDate" date NOT NULL,
+        "originalQuantity" numeric(18, 8) NOT NULL,
+        "openQuantity" numeric(18, 8) NOT NULL,
+        "unitCost" numeric(18, 8) NOT NULL,
+        "openCost" numeric(18, 2) NOT NULL,
+        "closedDate" date,
+        "updatedAt" timestamp DEFAULT now() NOT NULL,
+        CONSTRAINT "lots_userId_fk" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE,
+        CONSTRAINT "lots_portfolioId_fk" FOREIGN KEY ("portfolioId") REFERENCES "portfolios"("id") ON DELETE CASCADE,
+        CONSTRAINT "lots_stockId_fk" FOREIGN KEY ("stockId") REFERENCES "stocks"("id") ON DELETE CASCADE,
+        CONSTRAINT "lots_buyTransactionId_fk" FOREIGN KEY ("buyTransactionId") REFERENCES "transactions"("id") ON DELETE CASCADE
+      );
+    `);
+
+    await client.unsafe(`
+      CREATE TABLE IF NOT EXISTS "lotDisposals" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "userId" integer NOT NULL,
+        "lotId" integer NOT NULL,
+        "sellTransactionId" integer NOT NULL,
+        "disposedDate" date NOT NULL,
+        "quantity" numeric(18, 8) NOT NULL,
+        "costBasis" numeric(18, 2) NOT NULL,
+        "proceeds" numeric(18, 2) NOT NULL,
+        CONSTRAINT "lotDisposals_userId_fk" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE,
+        CONSTRAINT "lotDisposals_lotId_fk" FOREIGN KEY ("lotId") REFERENCES "lots"("id") ON DELETE CASCADE,
+        CONSTRAINT "lotDisposals_sellTransactionId_fk" FOREIGN KEY ("sellTransactionId") REFERENCES "transactions"("id") ON DELETE CASCADE
+      );
+    `);
+
+    await client.unsafe(`
+      CREATE TABLE IF NOT EXISTS "corporateActions" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "userId" integer NOT NULL,
+        "stockId" integer NOT NULL,
+        "type" "corporate_action_type" NOT NULL,
+        "effectiveDate" date NOT NULL,
+        "ratioNew" numeric(18, 8) NOT NULL,
+        "ratioOld" numeric(18, 8) NOT NULL,
+        "subscriptionPrice" numeric(18, 4),
+        "targetStockId" integer,
+        "costPercent" numeric(7, 4),
+        "notes" text,
+        "createdAt" timestamp DEFAULT now() NOT NULL,
+        CONSTRAINT "corporateActions_userId_fk" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE,
+        CONSTRAINT "corporateActions_stockId_fk" FOREIGN KEY ("stockId") REFERENCES "stocks"("id") ON DELETE CASCADE,
+        CONSTRAINT "corporateActions_targetStockId_fk" FOREIGN KEY ("targetStockId") REFERENCES "stocks"("id") ON DELETE CASCADE
+      );
+    `);
+
+    await client.unsafe(`
+      CREATE TABLE IF NOT EXISTS "watchlist" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "userId" integer,
+        "stockId" integer NOT NULL,
+        "addedAt" timestamp DEFAULT now() NOT NULL,
+        CONSTRAINT "watchlist_userId_fk" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE,
+        CONSTRAINT "watchlist_stockId_fk" FOREIGN KEY ("stockId") REFERENCES "stocks"("id") ON DELETE CASCADE
+      );
+    `);
+
+    await client.unsafe(`
+      CREATE TABLE IF NOT EXISTS "userSettings" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "userId" integer NOT NULL,
+        "tradingWindowDays" integer NOT NULL DEFAULT 1,
+        "costBasisMethod" "cost_basis_method" NOT NULL DEFAULT 'AVERAGE',
+        "isFiler" boolean DEFAULT true NOT NULL,
+        "cgtSlabs" jsonb,
+        "marketHolidays" jsonb,
+        "updatedAt" timestamp DEFAULT now() NOT NULL,
+        CONSTRAINT "userSettings_userId_unique" UNIQUE("userId"),
+        CONSTRAINT "userSettings_userId_fk" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE
+      );
+    `);
+
+    // Columns added after the initial release; existing databases need them backfilled.
+    await client.unsafe(`
+      ALTER TABLE "userSettings"
+        ADD COLUMN IF NOT EXISTS "costBasisMethod" "cost_basis_method" NOT NULL DEFAULT 'AVERAGE',
+        ADD COLUMN IF NOT EXISTS "isFiler" boolean DEFAULT true NOT NULL,
+        ADD COLUMN IF NOT EXISTS "cgtSlabs" jsonb,
+        ADD COLUMN IF NOT EXISTS "marketHolidays" jsonb;
+    `);
+
+    await client.unsafe(`
+      ALTER TABLE "corporateActions"
+        ADD COLUMN IF NOT EXISTS "subscriptionPrice" numeric(18, 4),
+        ADD COLUMN IF NOT EXISTS "targetStockId" integer REFERENCES "stocks"("id") ON DELETE CASCADE,
+        ADD COLUMN IF NOT EXISTS "costPercent" numeric(7, 4);
+    `);
+
+    await client.unsafe(`
+      ALTER TABLE "portfolios" ADD COLUMN IF NOT EXISTS "allowShortSelling" boolean DEFAULT false NOT NULL;
+      ALTER TABLE "portfolios" ADD COLUMN IF NOT EXISTS "lockedThrough" date;
+    `);
+
+    // Lots rewritten by a replay that starts from a snapshot keep those closed before it
+    await client.unsafe(`
+      ALTER TABLE "lots" ADD COLUMN IF NOT EXISTS "closedDate" date;
+    `);
+
+    // Added here rather than in CREATE TABLE: corporateActions is created after transactions
+    await client.unsafe(`
+      ALTER TABLE "transactions"
+        ADD COLUMN IF NOT EXISTS "corporateActionId" integer REFERENCES "corporateActions"("id") ON DELETE CASCADE;
+    `);
+
+    await client.unsafe(`
+      ALTER TABLE "transactions"
+        ADD COLUMN IF NOT EXISTS "lotAllocation" jsonb,
+        ADD COLUMN IF NOT EXISTS "commission" numeric(18, 2) DEFAULT 0 NOT NULL,
+        ADD COLUMN IF NOT EXISTS "capitalValueTax" numeric(18, 2) DEFAULT 0 NOT NULL,
+        ADD COLUMN IF NOT EXISTS "regulatoryLevies" numeric(18, 2) DEFAULT 0 NOT NULL,
+        ADD COLUMN IF NOT EXISTS "cdcCharges" numeric(18, 2) DEFAULT 0 NOT NULL,
+        ADD COLUMN IF NOT EXISTS "salesTax" numeric(18, 2) DEFAULT 0 NOT NULL,
+        ADD COLUMN IF NOT EXISTS "withholdingTax" numeric(18, 2) DEFAULT 0 NOT NULL,
+        ADD COLUMN IF NOT EXISTS "zakat" numeric(18, 2) DEFAULT 0 NOT NULL,
+        ADD COLUMN IF NOT EXISTS "transferOutId" integer REFERENCES "transactions"("id") ON DELETE CASCADE,
+        ADD COLUMN IF NOT EXISTS "transferLots" jsonb,
+        ADD COLUMN IF NOT EXISTS "sequence" integer,
+        ADD COLUMN IF NOT EXISTS "deletedAt" timestamp;
+    `);
+
+    // Portfolios arrived after the initial release: every user with data gets a "Main"
+    // portfolio that takes over their existing transactions, aggregates and lots.
+    await client.unsafe(`
+      ALTER TABLE "transactions" ADD COLUMN IF NOT EXISTS "portfolioId" integer REFERENCES "portfolios"("id") ON DELETE CASCADE;
+      ALTER TABLE "stockAggregates" ADD COLUMN IF NOT EXISTS "portfolioId" integer REFERENCES "portfolios"("id") ON DELETE CASCADE;
+      ALTER TABLE "lots" ADD COLUMN IF NOT EXISTS "portfolioId" integer REFERENCES "portfolios"("id") ON DELETE CASCADE;
+
+      INSERT INTO "portfolios" ("userId", "name")
+        SELECT DISTINCT t."userId", 'Main' FROM "transactions" t
+        WHERE t."userId" IS NOT NULL
+          AND NOT EXISTS (SELECT 1 FROM "portfolios" p WHERE p."userId" = t."userId");
+
+      UPDATE "transactions" t SET "portfolioId" = (SELECT MIN(p."id") FROM "portfolios" p WHERE p."userId" = t."userId")
+        WHERE t."portfolioId" IS NULL;
+      UPDATE "stockAggregates" a SET "portfolioId" = (SELECT MIN(p."id") FROM "portfolios" p WHERE p."userId" = a."userId")
+        WHERE a."portfolioId" IS NULL;
+      UPDATE "lots" l SET "portfolioId" = (SELECT MIN(p."id") FROM "portfolios" p WHERE p."userId" = l."userId")
+        WHERE l."portfolioId" IS NULL;
+
+      ALTER TABLE "stockAggregates" DROP CONSTRAINT IF EXISTS "stockAggregates_user_stock_unique";
+    `);
+
+    await client.unsafe(`
+      DO $$ BEGIN
+        ALTER TABLE "stockAggregates"
+          ADD CONSTRAINT "stockAggregates_user_portfolio_stock_unique" UNIQUE("userId", "portfolioId", "stockId");
+      EXCEPTION
+        WHEN duplicate_object OR duplicate_table THEN null;
+      END $$;
+    `);
+
+    await client.unsafe(`
+      CREATE TABLE IF NOT EXISTS "feeSchedules" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "userId" integer NOT NULL,
+        "brokerName" varchar(100) NOT NULL,
+        "commissionType" "commission_type" NOT NULL DEFAULT 'PERCENT',
+        "commissionRate" numeric(18, 6) DEFAULT 0 NOT NULL,
+        "minCommission" numeric(18, 2) DEFAULT 0 NOT NULL,
+        "salesTaxRate" numeric(18, 6) DEFAULT 0 NOT NULL,
+        "cvtRate" numeric(18, 6) DEFAULT 0 NOT NULL,
+        "levyRate" numeric(18, 6) DEFAULT 0 NOT NULL,
+        "cdcPerShare" numeric(18, 6) DEFAULT 0 NOT NULL,
+        "isDefault" boolean DEFAULT false NOT NULL,
+        "updatedAt" timestamp DEFAULT now() NOT NULL,
+        CONSTRAINT "feeSchedules_userId_fk" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE
+      );
+    `);
+
+    await client.unsafe(`
+      CREATE TABLE IF NOT EXISTS "cashMovements" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "userId" integer NOT NULL,
+        "portfolioId" integer NOT NULL,
+        "type" "cash_movement_type" NOT NULL,
+        "date" date NOT NULL,
+        "amount" numeric(18, 2) NOT NULL,
+        "notes" text,
+        "createdAt" timestamp DEFAULT now() NOT NULL,
+        "updatedAt" timestamp DEFAULT now() NOT NULL,
+        CONSTRAINT "cashMovements_userId_fk" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE,
+        CONSTRAINT "cashMovements_portfolioId_fk" FOREIGN KEY ("portfolioId") REFERENCES "portfolios"("id") ON DELETE CASCADE
+      );
+    `);
+
+    await client.unsafe(`
+      CREATE TABLE IF NOT EXISTS "positionSnapshots" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "userId" integer NOT NULL,
+        "portfolioId" integer NOT NULL,
+        "stockId" integer NOT NULL,
+        "date" date NOT NULL,
+        "position" jsonb NOT NULL,
+        "grossPosition" jsonb NOT NULL,
+        "createdAt" timestamp DEFAULT now() NOT NULL,
+        CONSTRAINT "positionSnapshots_userId_fk" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE,
+        CONSTRAINT "positionSnapshots_portfolioId_fk" FOREIGN KEY ("portfolioId") REFERENCES "portfolios"("id") ON DELETE CASCADE,
+        CONSTRAINT "positionSnapshots_stockId_fk" FOREIGN KEY ("stockId") REFERENCES "stocks"("id") ON DELETE CASCADE
+      );
+      CREATE INDEX IF NOT EXISTS "positionSnapshots_portfolio_stock_date_idx"
+        ON "positionSnapshots" ("portfolioId", "stockId", "date");
+    `);
+
+    await client.unsafe(`
+      CREATE TABLE IF NOT EXISTS "transactionRevisions" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "userId" integer NOT NULL,
+        "transactionId" integer NOT NULL,
+        "action" "revision_action" NOT NULL,
+        "before" jsonb,
+        "after" jsonb,
+        "createdAt" timestamp DEFAULT now() NOT NULL,
+        CONSTRAINT "transactionRevisions_userId_fk" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE,
+        CONSTRAINT "transactionRevisions_transactionId_fk" FOREIGN KEY ("transactionId") REFERENCES "transactions"("id") ON DELETE CASCADE
+      );
+      CREATE INDEX IF NOT EXISTS "transactionRevisions_transaction_idx"
+        ON "transactionRevisions" ("transactionId", "createdAt");
+    `);
+
+    await client.unsafe(`
+      CREATE TABLE IF NOT EXISTS "password_reset_tokens" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "userId" integer NOT NULL,
+        "token" varchar(255) NOT NULL,
+        "expiresAt" timestamp NOT NULL,
+        "createdAt" timestamp DEFAULT now() NOT NULL,
+        CONSTRAINT "password_reset_tokens_token_unique" UNIQUE("token"),
+        CONSTRAINT "password_reset_tokens_userId_fk" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE
+      );
+    `);
+
+    console.log("[DB Setup] All tables verified/created successfully");
+  } catch (error: any) {
+    console.error("[DB Setup] Error setting up tables:", error.message);
+    throw error;
+  } finally {
+    await client.end();
+  }
+}
+
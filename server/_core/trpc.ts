@@ -1,15 +1,44 @@
 import { NOT_ADMIN_ERR_MSG, UNAUTHED_ERR_MSG } from '@shared/const';
+import { TradeWarningError } from '@shared/warnings';
+import { TransactionConflictError } from '@shared/conflicts';
+import { PeriodLockedError } from '@shared/locks';
 import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import type { TrpcContext } from "./context";
 
 const t = initTRPC.context<TrpcContext>().create({
   transformer: superjson,
+  errorFormatter({ shape, error }) {
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        // Trade warnings the client can acknowledge by resubmitting with confirmOverride
+        warnings: error.cause instanceof TradeWarningError ? error.cause.warnings : undefined,
+        // The latest saved row when an edit was based on a stale copy
+        current: error.cause instanceof TransactionConflictError ? error.cause.current : undefined,
+      },
+    };
+  },
 });
 
 export const router = t.router;
 export const publicProcedure = t.procedure;
 
+/**
+ * Report changes inside a portfolio's locked period as FORBIDDEN.
+ */
+export async function withPeriodLock<T>(save: () => Promise<T>) {
+  try {
+    return await save();
+  } catch (error) {
+    if (error instanceof PeriodLockedError) {
+      throw new TRPCError({ code: "FORBIDDEN", message: error.message, cause: error });
+    }
+    throw error;
+  }
+}
+
 const requireUser = t.middleware(async opts => {
   const { ctx, next } = opts;
 
@@ -0,0 +1,156 @@
+import Decimal from "decimal.js";
+import type { CgtSlab } from "../drizzle/schema";
+
+/**
+ * Holding-period slabs used until the user configures their own,
+ * following the section 37A schedule for listed securities.
+ */
+export const DEFAULT_CGT_SLABS: CgtSlab[] = [
+  { maxHoldingMonths: 12, filerRate: "15", nonFilerRate: "30" },
+  { maxHoldingMonths: 24, filerRate: "12.5", nonFilerRate: "25" },
+  { maxHoldingMonths: 36, filerRate: "10", nonFilerRate: "20" },
+  { maxHoldingMonths: 48, filerRate: "7.5", nonFilerRate: "15" },
+  { maxHoldingMonths: 72, filerRate: "5", nonFilerRate: "10" },
+  { maxHoldingMonths: null, filerRate: "0", nonFilerRate: "0" },
+];
+
+export type CgtDisposalInput = {
+  id: number;
+  stockSymbol: string;
+  acquiredDate: string;
+  disposedDate: string;
+  quantity: string;
+  costBasis: string;
+  proceeds: string;
+};
+
+export type CgtDisposal = {
+  id: number;
+  stockSymbol: string;
+  acquiredDate: string;
+  disposedDate: string;
+  fiscalYear: string;
+  holdingDays: number;
+  quantity: number;
+  costBasis: number;
+  proceeds: number;
+  gain: number;
+  rate: number;
+  taxableGain: number;
+  tax: number;
+};
+
+export type CgtYear = {
+  fiscalYear: string;
+  gains: number;
+  losses: number;
+  netGain: number;
+  unabsorbedLoss: number;
+  tax: number;
+};
+
+/**
+ * Pakistani fiscal year (July–June) a date falls in, e.g. "2024-25" for 2025-03-01.
+ */
+export function fiscalYearOf(dateStr: string): string {
+  const [year, month] = dateStr.split("-").map(Number);
+  const start = month >= 7 ? year : year - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, "0")}`;
+}
+
+function addMonths(dateStr: string, months: number): Date {
+  const d = new Date(dateStr + "T00:00:00Z");
+  d.setUTCMonth(d.getUTCMonth() + months);
+  return d;
+}
+
+/**
+ * The slab for a holding period: the first (shortest) one the disposal falls within.
+ */
+export function slabFor(acquiredDate: string, disposedDate: string, slabs: CgtSlab[]): CgtSlab | undefined {
+  const disposed = new Date(disposedDate + "T00:00:00Z");
+  const ordered = [...slabs].sort(
+    (a, b) => (a.maxHoldingMonths ?? Infinity) - (b.maxHoldingMonths ?? Infinity)
+  );
+  return ordered.find(
+    (slab) => slab.maxHoldingMonths === null || disposed <= addMonths(acquiredDate, slab.maxHoldingMonths)
+  );
+}
+
+function taxOn(row: { taxableGain: Decimal; rate: Decimal }): Decimal {
+  return row.taxableGain.times(row.rate).dividedBy(100).toDecimalPlaces(2);
+}
+
+/**
+ * Compute capital gains tax per disposal and per fiscal year.
+ *
+ * Losses are netted against gains of the same fiscal year, absorbing the highest-taxed gains
+ * first. A loss left over after that is reported as unabsorbed; it is not carried forward.
+ */
+export function computeCapitalGainsTax(
+  inputs: CgtDisposalInput[],
+  slabs: CgtSlab[],
+  isFiler: boolean
+): { disposals: CgtDisposal[]; years: CgtYear[] } {
+  const rows = inputs.map((d) => {
+    const gain = new Decimal(d.proceeds).minus(d.costBasis);
+    const slab = slabFor(d.acquiredDate, d.disposedDate, slabs);
+    const rate = new Decimal((isFiler ? slab?.filerRate : slab?.nonFilerRate) || 0);
+    const holdingMs = Date.parse(d.disposedDate) - Date.parse(d.acquiredDate);
+    return {
+      input: d,
+      fiscalYear: fiscalYearOf(d.disposedDate),
+      holdingDays: Math.round(holdingMs / 86_400_000),
+      gain,
+      rate,
+      taxableGain: gain.greaterThan(0) ? gain : new Decimal(0),
+    };
+  });
+
+  const years: CgtYear[] = [];
+  const fiscalYears = Array.from(new Set(rows.map((r) => r.fiscalYear))).sort();
+  for (const fiscalYear of fiscalYears) {
+    const inYear = rows.filter((r) => r.fiscalYear === fiscalYear);
+    const gains = inYear.filter((r) => r.gain.greaterThan(0));
+    const losses = inYear
+      .filter((r) => r.gain.lessThan(0))
+      .reduce((sum, r) => sum.plus(r.gain.abs()), new Decimal(0));
+
+    let remainingLoss = losses;
+    for (const row of [...gains].sort((a, b) => b.rate.comparedTo(a.rate))) {
+      if (remainingLoss.lessThanOrEqualTo(0)) break;
+      const absorbed = Decimal.min(remainingLoss, row.taxableGain);
+      row.taxableGain = row.taxableGain.minus(absorbed);
+      remainingLoss = remainingLoss.minus(absorbed);
+    }
+
+    const totalGains = gains.reduce((sum, r) => sum.plus(r.gain), new Decimal(0));
+    const tax = inYear.reduce((sum, r) => sum.plus(taxOn(r)), new Decimal(0));
+    years.push({
+      fiscalYear,
+      gains: totalGains.toNumber(),
+      losses: losses.toNumber(),
+      netGain: totalGains.minus(losses).toNumber(),
+      unabsorbedLoss: remainingLoss.toNumber(),
+      tax: tax.toNumber(),
+    });
+  }
+
+  const disposals = rows.map((r) => ({
+    id: r.input.id,
+    stockSymbol: r.input.stockSymbol,
+    acquiredDate: r.input.acquiredDate,
+    disposedDate: r.input.disposedDate,
+    fiscalYear: r.fiscalYear,
+    holdingDays: r.holdingDays,
+    quantity: parseFloat(r.input.quantity),
+    costBasis: parseFloat(r.input.costBasis),
+    proceeds: parseFloat(r.input.proceeds),
+    gain: r.gain.toNumber(),
+    rate: r.rate.toNumber(),
+    taxableGain: r.taxableGain.toNumber(),
+    tax: taxOn(r).toNumber(),
+  }));
+
+  return { disposals, years };
+}
@@ -1,549 +1,3078 @@
-import { eq, desc, asc, sql, and } from "drizzle-orm";
-import { drizzle } from "drizzle-orm/postgres-js";
-import postgres from "postgres";
-import { InsertUser, users, stocks, transactions, watchlist, stockAggregates, passwordResetTokens, userSettings, Stock, Transaction, StockAggregate, UserSettings } from "../drizzle/schema";
-import { ENV } from './_core/env';
-import Decimal from "decimal.js";
-
-// Precision constants for decimal values
-const AVG_COST_PRECISION = 4; // Precision for share quantities and avgCost
-const SHARE_PRECISION = 2; // Precision for share quantities and avgCost
-const CURRENCY_PRECISION = 2; // Precision for currency amounts (PKR)
-
-let _db: ReturnType<typeof drizzle> | null = null;
-let _client: ReturnType<typeof postgres> | null = null;
-
-// Lazily create the drizzle instance so local tooling can run without a DB.
-export async function getDb() {
-  if (!_db && process.env.DATABASE_URL) {
-    try {
-      _client = postgres(process.env.DATABASE_URL);
-      _db = drizzle(_client);
-    } catch (error) {
-      console.warn("[Database] Failed to connect:", error);
-      _db = null;
-      _client = null;
-    }
-  }
-  return _db;
-}
-
-export async function upsertUser(user: InsertUser): Promise<void> {
-  const db = await getDb();
-  if (!db) {
-    console.warn("[Database] Cannot upsert user: database not available");
-    return;
-  }
-
-  try {
-    const values: InsertUser = {
-      openId: user.openId,
-      // If creating new user without openId (password auth), ensure mandatory fields
-    };
-
-    // If openId is missing, we must be careful. This function assumes openId presence for conflict target in legacy flow.
-    // For password flow, we might need a different approach or rely on ID update.
-    // Adapting to handle update by ID if present, or OpenID if present.
-
-    if (user.id) {
-      await db.update(users).set(user).where(eq(users.id, user.id));
-      return;
-    }
-
-    if (!user.openId && !user.email) {
-      throw new Error("User must have openId or email for upsert");
-    }
-
-    // Prepare values
-    const updateSet: Record<string, unknown> = {};
-    const textFields = ["name", "email", "loginMethod", "password", "openId"] as const;
-
-    textFields.forEach((field) => {
-      const value = user[field];
-      if (value !== undefined) {
-        values[field] = value;
-        updateSet[field] = value;
-      }
-    });
-
-    if (user.lastSignedIn !== undefined) {
-      values.lastSignedIn = user.lastSignedIn;
-      updateSet.lastSignedIn = user.lastSignedIn;
-    }
-    if (user.role !== undefined) {
-      values.role = user.role;
-      updateSet.role = user.role;
-    } else if (user.openId === ENV.ownerOpenId) {
-      values.role = 'admin';
-      updateSet.role = 'admin';
-    }
-
-    if (!values.lastSignedIn) {
-      values.lastSignedIn = new Date();
-    }
-
-    // Conflict strategy: try openId match first
-    if (user.openId) {
-      await db.insert(users).values(values).onConflictDoUpdate({
-        target: users.openId,
-        set: updateSet,
-      });
-    } else if (user.email) {
-      // If no openId, try email
-      await db.insert(users).values(values).onConflictDoUpdate({
-        target: users.email,
-        set: updateSet,
-      });
-    }
-
-  } catch (error) {
-    console.error("[Database] Failed to upsert user:", error);
-    throw error;
-  }
-}
-
-export async function getUserByOpenId(openId: string) {
-  const db = await getDb();
-  if (!db) return undefined;
-  const result = await db.select().from(users).where(eq(users.openId, openId)).limit(1);
-  return result.length > 0 ? result[0] : undefined;
-}
-
-export async function getUserById(id: number) {
-  const db = await getDb();
-  if (!db) return undefined;
-  const result = await db.select().from(users).where(eq(users.id, id)).limit(1);
-  return result.length > 0 ? result[0] : undefined;
-}
-
-export async function getUserByEmail(email: string) {
-  const db = await getDb();
-  if (!db) return undefined;
-  const result = await db.select().from(users).where(eq(users.email, email)).limit(1);
-  return result.length > 0 ? result[0] : undefined;
-}
-
-export async function getStockBySymbol(symbol: string) {
-  const db = await getDb();
-  if (!db) return undefined;
-  const result = await db.select().from(stocks).where(eq(stocks.symbol, symbol.toUpperCase())).limit(1);
-  return result.length > 0 ? result[0] : undefined;
-}
-
-// ... existing stock creation methods can remain global or be restricted to admin? 
-// For now leaving global as shared dictionary.
-
-export async function createStock(symbol: string, name: string) {
-  const db = await getDb();
-  if (!db) throw new Error("Database not available");
-
-  const upperSymbol = symbol.toUpperCase();
-
-  try {
-    // Attempt to insert and return the new row.
-    // Specifying target ensures we only ignore symbol conflicts, exposing other issues like out-of-sync sequences.
-    const [newStock] = await db
-      .insert(stocks)
-      .values({ symbol: upperSymbol, name })
-      .onConflictDoNothing({ target: stocks.symbol })
-      .returning();
-
-    if (newStock) {
-      return newStock;
-    }
-
-    // If no row was returned, it means it already existed and was ignored.
-    const existing = await db
-      .select()
-      .from(stocks)
-      .where(eq(stocks.symbol, upperSymbol))
-      .limit(1);
-
-    if (existing.length > 0) {
-      return existing[0];
-    }
-
-    throw new Error(`Failed to create or find stock: ${symbol}`);
-  } catch (error: any) {
-    console.error(`[DB] Error creating stock ${upperSymbol}:`, error);
-    
-    // Attempt to fix sequence out of sync automatically if it's a primary key violation
-    // Drizzle wraps Postgres errors, so we check stringified error and cause
-    const errorString = String(error) + (error.cause ? String(error.cause) : "");
-    if (errorString.includes("duplicate key value violates unique constraint") && errorString.includes("pkey")) {
-      console.log(`[DB] Detected out-of-sync sequence. Attempting to fix stocks_id_seq...`);
-      try {
-        await db.execute(sql`SELECT setval('stocks_id_seq', COALESCE((SELECT MAX(id) FROM stocks), 0));`);
-        // Retry the insert once
-        const [retryStock] = await db
-          .insert(stocks)
-          .values({ symbol: upperSymbol, name })
-          .onConflictDoNothing({ target: stocks.symbol })
-          .returning();
-          
-        if (retryStock) return retryStock;
-      } catch (retryError) {
-        console.error(`[DB] Failed to auto-fix sequence and retry:`, retryError);
-        throw retryError;
-      }
-    }
-    
-    throw error;
-  }
-}
-
-export async function getStockById(id: number) {
-  const db = await getDb();
-  if (!db) return undefined;
-  const result = await db.select().from(stocks).where(eq(stocks.id, id)).limit(1);
-  return result.length > 0 ? result[0] : undefined;
-}
-
-export async function getAllStocks() {
-  const db = await getDb();
-  if (!db) return [];
-  return db.select().from(stocks).orderBy(stocks.symbol);
-}
-
-/**
- * ============================================================================
- * TRANSACTIONS (SCOPED BY USER)
- * ============================================================================
- */
-
-export async function getTransactionsByStockId(userId: number, stockId: number, limit: number = 50, offset: number = 0) {
-  const db = await getDb();
-  if (!db) return { transactions: [], total: 0 };
-
-  const whereClause = and(eq(transactions.stockId, stockId), eq(transactions.userId, userId));
-
-  const result = await db
-    .select()
-    .from(transactions)
-    .where(whereClause)
-    .orderBy(desc(transactions.date), desc(transactions.createdAt))
-    .limit(limit)
-    .offset(offset);
-
-  const countResult = await db
-    .select({ count: sql`COUNT(*)` })
-    .from(transactions)
-    .where(whereClause);
-
-  const total = countResult.length > 0 ? Number(countResult[0].count) : 0;
-
-  return { transactions: result, total };
-}
-
-function computeUnitPrice(
-  type: "BUY" | "SELL" | "DIVIDEND",
-  quantity: string | null,
-  totalAmount: string
-) {
-  if (type === "DIVIDEND" || !quantity) {
-    return null;
-  }
-
-  const qty = new Decimal(quantity);
-  if (qty.isZero()) {
-    return null;
-  }
-
-  return new Decimal(totalAmount).dividedBy(qty).toFixed(8);
-}
-
-export async function addTransaction(
-  userId: number,
-  stockId: number,
-  type: "BUY" | "SELL" | "DIVIDEND",
-  date: Date,
-  quantity: string | null,
-  totalAmount: string,
-  notes?: string
-) {
-  const db = await getDb();
-  if (!db) throw new Error("Database not available");
-
-  const dateStr = date.toISOString().split("T")[0];
-  const unitPrice = computeUnitPrice(type, quantity, totalAmount);
-
-  try {
-    await db.insert(transactions).values({
-      userId,
-      stockId,
-      type,
-      date: dateStr,
-      quantity: quantity || null,
-      totalAmount,
-      unitPrice,
-      notes: notes || null,
-    });
-
-    await recomputeAggregates(userId, stockId);
-  } catch (error) {
-    console.error(`[DB] Failed to add transaction:`, error);
-    throw new Error(`Failed to add transaction: ${error instanceof Error ? error.message : String(error)}`);
-  }
-}
-
-export async function updateTransaction(
-  userId: number,
-  id: number,
-  type: "BUY" | "SELL" | "DIVIDEND",
-  date: Date,
-  quantity: string | null,
-  totalAmount: string,
-  notes?: string
-) {
-  const db = await getDb();
-  if (!db) throw new Error("Database not available");
-
-  const dateStr = date.toISOString().split("T")[0];
-  const unitPrice = computeUnitPrice(type, quantity, totalAmount);
-
-  try {
-    const txn = await db.select().from(transactions).where(and(eq(transactions.id, id), eq(transactions.userId, userId))).limit(1);
-    if (!txn || txn.length === 0) throw new Error("Transaction not found");
-
-    const stockId = txn[0].stockId;
-
-    await db.update(transactions)
-      .set({ type, date: dateStr, quantity: quantity || null, totalAmount, unitPrice, notes: notes || null, updatedAt: new Date() })
-      .where(eq(transactions.id, id));
-
-    await recomputeAggregates(userId, stockId);
-  } catch (error) {
-    console.error(`[DB] Failed to update transaction ${id}:`, error);
-    throw new Error(`Failed to update transaction: ${error instanceof Error ? error.message : String(error)}`);
-  }
-}
-
-export async function deleteTransaction(userId: number, id: number) {
-  const db = await getDb();
-  if (!db) throw new Error("Database not available");
-
-  try {
-    const txn = await db.select().from(transactions).where(and(eq(transactions.id, id), eq(transactions.userId, userId))).limit(1);
-    if (!txn || txn.length === 0) throw new Error("Transaction not found");
-
-    const stockId = txn[0].stockId;
-
-    await db.delete(transactions).where(eq(transactions.id, id));
-
-    await recomputeAggregates(userId, stockId);
-  } catch (error) {
-    console.error(`[DB] Failed to delete transaction ${id}:`, error);
-    throw new Error(`Failed to delete transaction: ${error instanceof Error ? error.message : String(error)}`);
-  }
-}
-
-export async function recomputeAggregates(userId: number, stockId: number) {
-  const db = await getDb();
-  if (!db) throw new Error("Database not available");
-
-  const [settings] = await db.select().from(userSettings).where(eq(userSettings.userId, userId)).limit(1);
-  const tradingWindowDays = settings?.tradingWindowDays ?? 1;
-
-  const txns = await db
-    .select()
-    .from(transactions)
-    .where(and(eq(transactions.stockId, stockId), eq(transactions.userId, userId)))
-    .orderBy(asc(transactions.date), asc(transactions.createdAt));
-
-  let state = {
-    totalShares: new Decimal(0),
-    totalInvested: new Decimal(0),
-    avgCost: new Decimal(0),
-    realizedProfit: new Decimal(0),
-  };
-
-  // Track recent purchases for multi-day window trading logic (FIFO, date-tagged)
-  const recentBuys: Array<{ date: string; quantity: Decimal; unitPrice: Decimal }> = [];
-
-  for (const txn of txns) {
-    state = processTransaction(state, txn, recentBuys, tradingWindowDays);
-  }
-
-  const existingAggregate = await db
-    .select()
-    .from(stockAggregates)
-    .where(and(eq(stockAggregates.stockId, stockId), eq(stockAggregates.userId, userId)))
-    .limit(1);
-
-  const aggregateValues = {
-    totalShares: state.totalShares.toFixed(0),
-    totalInvested: state.totalInvested.toFixed(2),
-    avgCost: state.avgCost.toFixed(4),
-    realizedProfit: state.realizedProfit.toFixed(4),
-  };
-
-  try {
-    if (existingAggregate.length === 0) {
-      await db.insert(stockAggregates).values({
-        userId,
-        stockId,
-        ...aggregateValues,
-      });
-    } else {
-      await db
-        .update(stockAggregates)
-        .set({
-          ...aggregateValues,
-          updatedAt: new Date(),
-        })
-        .where(eq(stockAggregates.id, existingAggregate[0].id));
-    }
-  } catch (error) {
-    console.error(`[DB] Failed to update stockAggregates:`, error);
-    throw new Error(`Failed to update stock aggregates`);
-  }
-}
-
-function subtractDays(dateStr: string, days: number): string {
-  const d = new Date(dateStr + "T00:00:00Z");
-  d.setUTCDate(d.getUTCDate() - days);
-  return d.toISOString().split("T")[0];
-}
-
-export function processTransaction(
-  state: {
-    totalShares: Decimal;
-    totalInvested: Decimal;
-    avgCost: Decimal;
-    realizedProfit: Decimal;
-  },
-  txn: Transaction,
-  recentBuys: Array<{ date: string; quantity: Decimal; unitPrice: Decimal }> = [],
-  tradingWindowDays: number = 1
-) {
-  const quantity = txn.quantity ? new Decimal(txn.quantity) : new Decimal(0);
-  const totalAmount = new Decimal(txn.totalAmount);
-
-  if (txn.type === "BUY") {
-    const newTotalShares = state.totalShares.plus(quantity);
-    const newTotalInvested = state.totalInvested.plus(totalAmount);
-    const newAvgCost = newTotalShares.isZero() ? new Decimal(0) : newTotalInvested.dividedBy(newTotalShares);
-
-    const unitPrice = txn.unitPrice
-      ? new Decimal(txn.unitPrice)
-      : quantity.isZero()
-        ? new Decimal(0)
-        : totalAmount.dividedBy(quantity);
-    recentBuys.push({ date: txn.date, quantity, unitPrice });
-
-    return { ...state, totalShares: newTotalShares, totalInvested: newTotalInvested, avgCost: newAvgCost };
-  } else if (txn.type === "SELL") {
-    const sharesToSell = quantity;
-    const proceeds = totalAmount;
-    let remainingToSell = sharesToSell;
-    let costRemoved = new Decimal(0);
-
-    // Cutoff date: buys on or after this date are eligible for FIFO matching
-    const cutoffDate = subtractDays(txn.date, tradingWindowDays - 1);
-
-    // Prune from front: entries that are fully consumed or older than the window
-    while (recentBuys.length > 0) {
-      const oldest = recentBuys[0];
-      if (oldest.quantity.isZero() || oldest.date < cutoffDate) {
-        recentBuys.shift();
-      } else {
-        break;
-      }
-    }
-
-    // FIFO match against buys within the trading window
-    for (let i = 0; i < recentBuys.length && remainingToSell.greaterThan(0); i++) {
-      const buy = recentBuys[i];
-      if (buy.quantity.greaterThan(0)) {
-        const qtyToMatch = Decimal.min(buy.quantity, remainingToSell);
-        costRemoved = costRemoved.plus(qtyToMatch.times(buy.unitPrice));
-        buy.quantity = buy.quantity.minus(qtyToMatch);
-        remainingToSell = remainingToSell.minus(qtyToMatch);
-      }
-    }
-
-    // Remaining shares not matched to window buys use the running average cost
-    if (remainingToSell.greaterThan(0)) {
-      costRemoved = costRemoved.plus(state.avgCost.times(remainingToSell));
-    }
-
-    const realizedProfitThisTxn = proceeds.minus(costRemoved);
-    const newTotalShares = state.totalShares.minus(sharesToSell);
-    const newTotalInvested = state.totalInvested.minus(costRemoved);
-    const newAvgCost = newTotalShares.isZero() ? new Decimal(0) : state.avgCost;
-
-    return {
-      totalShares: newTotalShares,
-      totalInvested: newTotalInvested,
-      avgCost: newAvgCost,
-      realizedProfit: state.realizedProfit.plus(realizedProfitThisTxn),
-    };
-  } else if (txn.type === "DIVIDEND") {
-    return {
-      ...state,
-      realizedProfit: state.realizedProfit.plus(totalAmount),
-    };
-  }
-
-  return state;
-}
-
-export async function getUserSettings(userId: number): Promise<UserSettings | null> {
-  const db = await getDb();
-  if (!db) return null;
-  const [settings] = await db.select().from(userSettings).where(eq(userSettings.userId, userId)).limit(1);
-  return settings ?? null;
-}
-
-export async function upsertUserSettings(userId: number, patch: Partial<Pick<UserSettings, "tradingWindowDays">>) {
-  const db = await getDb();
-  if (!db) throw new Error("Database not available");
-
-  const existing = await getUserSettings(userId);
-  if (existing) {
-    await db.update(userSettings).set({ ...patch, updatedAt: new Date() }).where(eq(userSettings.userId, userId));
-  } else {
-    await db.insert(userSettings).values({ userId, tradingWindowDays: patch.tradingWindowDays ?? 1 });
-  }
-}
-
-export async function getStockAggregates(userId: number, stockId: number) {
-  const db = await getDb();
-  if (!db) return null;
-
-  const result = await db.select().from(stockAggregates)
-    .where(and(eq(stockAggregates.stockId, stockId), eq(stockAggregates.userId, userId)))
-    .limit(1);
-  return result.length > 0 ? result[0] : null;
-}
-
-export async function getWatchlist(userId: number) {
-  const db = await getDb();
-  if (!db) return [];
-
-  return db.select().from(watchlist)
-    .where(eq(watchlist.userId, userId))
-    .orderBy(watchlist.addedAt);
-}
-
-export async function addToWatchlist(userId: number, stockId: number) {
-  const db = await getDb();
-  if (!db) throw new Error("Database not available");
-
-  const existing = await db.select().from(watchlist)
-    .where(and(eq(watchlist.stockId, stockId), eq(watchlist.userId, userId)))
-    .limit(1);
-
-  if (existing && existing.length > 0) {
-    throw new Error("Stock already in watchlist");
-  }
-
-  await db.insert(watchlist).values({ userId, stockId });
-}
-
-export async function removeFromWatchlist(userId: number, watchlistId: number) {
-  const db = await getDb();
-  if (!db) throw new Error("Database not available");
-
-  await db.delete(watchlist).where(and(eq(watchlist.id, watchlistId), eq(watchlist.userId, userId)));
-}
+import { eq, ne, desc, asc, sql, and, or, lt, gt, inArray, notInArray, isNull, isNotNull } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/postgres-js";
+import { AsyncLocalStorage } from "node:async_hooks";
+import postgres from "postgres";
+import { InsertUser, users, stocks, transactions, watchlist, stockAggregates, passwordResetTokens, userSettings, lots, lotDisposals, feeSchedules, corporateActions, portfolios, cashMovements, positionSnapshots, transactionRevisions, Stock, Transaction, TransactionValues, TransactionRevision, RevisionAction, StockAggregate, UserSettings, CostBasisMethod, LotAllocation, FeeSchedule, InsertFeeSchedule, CorporateAction, Portfolio, CashMovement, TransferLot, PositionSnapshot, InsertPositionSnapshot, SnapshotPosition } from "../drizzle/schema";
+import { ENV } from './_core/env';
+import {
+  TRANSACTION_FEE_FIELDS,
+  DIVIDEND_DEDUCTION_FIELDS,
+  type TransactionFees,
+  type DividendDeductions,
+} from "../shared/const";
+import { TradeWarningError, type TradeWarning } from "../shared/warnings";
+import { TransactionConflictError } from "../shared/conflicts";
+import { PeriodLockedError, isPeriodLocked } from "../shared/locks";
+import { PSX_CALENDAR, sessionWindowStart, tradingCalendar, type TradingCalendar } from "./trading-calendar";
+import Decimal from "decimal.js";
+
+// Precision constants for decimal values
+const AVG_COST_PRECISION = 4; // Precision for share quantities and avgCost
+const SHARE_PRECISION = 2; // Precision for share quantities and avgCost
+const CURRENCY_PRECISION = 2; // Precision for currency amounts (PKR)
+
+let _db: ReturnType<typeof drizzle> | null = null;
+let _client: ReturnType<typeof postgres> | null = null;
+
+type DbTransaction = Parameters<Parameters<ReturnType<typeof drizzle>["transaction"]>[0]>[0];
+const _transaction = new AsyncLocalStorage<DbTransaction>();
+
+// Lazily create the drizzle instance so local tooling can run without a DB.
+export async function getDb() {
+  if (!_db && process.env.DATABASE_URL) {
+    try {
+      _client = postgres(process.env.DATABASE_URL);
+      _db = drizzle(_client);
+    } catch (error) {
+      console.warn("[Database] Failed to connect:", error);
+      _db = null;
+      _client = null;
+    }
+  }
+  return _transaction.getStore() ?? _db;
+}
+
+/**
+ * Run `fn` in one database transaction, so its writes commit or roll back together. While it
+ * runs `getDb()` returns the transaction, and nested calls join it.
+ */
+async function inTransaction<T>(fn: (db: DbTransaction) => Promise<T>): Promise<T> {
+  const current = _transaction.getStore();
+  if (current) return fn(current);
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  return db.transaction((tx) => _transaction.run(tx, () => fn(tx)));
+}
+
+/**
+ * Queue writes to a user's stock behind any other transaction writing to it. The advisory lock
+ * covers the stock in every portfolio, since transfers recompute across them, and is held until
+ * the transaction ends.
+ */
+async function lockStock(userId: number, stockId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.execute(sql`SELECT pg_advisory_xact_lock(${userId}::int, ${stockId}::int)`);
+}
+
+/**
+ * A user's transactions locked for update, oldest first, with the stocks they are in (and any in
+ * `stockIds`) locked before them. Every writer takes stock locks before row locks, in id order,
+ * so two writers cannot wait on each other. The stocks are read before they are locked, so a row
+ * moved to another stock meanwhile is read again once that stock is locked too. Deleted rows are
+ * left out unless `withDeleted` is set.
+ */
+async function lockTransactions(userId: number, ids: number[], stockIds: number[] = [], withDeleted = false) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const where = and(inArray(transactions.id, ids), eq(transactions.userId, userId), withDeleted ? undefined : notDeleted);
+  const locked = new Set<number>();
+  for (;;) {
+    const rows = await db.select({ stockId: transactions.stockId }).from(transactions).where(where);
+    const pending = Array.from(new Set([...rows.map((t) => t.stockId), ...stockIds]))
+      .filter((stockId) => !locked.has(stockId))
+      .sort((a, b) => a - b);
+    if (pending.length === 0) break;
+    for (const stockId of pending) {
+      await lockStock(userId, stockId);
+      locked.add(stockId);
+    }
+  }
+  return db.select().from(transactions).where(where).orderBy(asc(transactions.id)).for("update");
+}
+
+export async function upsertUser(user: InsertUser): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot upsert user: database not available");
+    return;
+  }
+
+  try {
+    const values: InsertUser = {
+      openId: user.openId,
+      // If creating new user without openId (password auth), ensure mandatory fields
+    };
+
+    // If openId is missing, we must be careful. This function assumes openId presence for conflict target in legacy flow.
+    // For password flow, we might need a different approach or rely on ID update.
+    // Adapting to handle update by ID if present, or OpenID if present.
+
+    if (user.id) {
+      await db.update(users).set(user).where(eq(users.id, user.id));
+      return;
+    }
+
+    if (!user.openId && !user.email) {
+      throw new Error("User must have openId or email for upsert");
+    }
+
+    // Prepare values
+    const updateSet: Record<string, unknown> = {};
+    const textFields = ["name", "email", "loginMethod", "password", "openId"] as const;
+
+    textFields.forEach((field) => {
+      const value = user[field];
+      if (value !== undefined) {
+        values[field] = value;
+        updateSet[field] = value;
+      }
+    });
+
+    if (user.lastSignedIn !== undefined) {
+      values.lastSignedIn = user.lastSignedIn;
+      updateSet.lastSignedIn = user.lastSignedIn;
+    }
+    if (user.role !== undefined) {
+      values.role = user.role;
+      updateSet.role = user.role;
+    } else if (user.openId === ENV.ownerOpenId) {
+      values.role = 'admin';
+      updateSet.role = 'admin';
+    }
+
+    if (!values.lastSignedIn) {
+      values.lastSignedIn = new Date();
+    }
+
+    // Conflict strategy: try openId match first
+    if (user.openId) {
+      await db.insert(users).values(values).onConflictDoUpdate({
+        target: users.openId,
+        set: updateSet,
+      });
+    } else if (user.email) {
+      // If no openId, try email
+      await db.insert(users).values(values).onConflictDoUpdate({
+        target: users.email,
+        set: updateSet,
+      });
+    }
+
+  } catch (error) {
+    console.error("[Database] Failed to upsert user:", error);
+    throw error;
+  }
+}
+
+export async function getUserByOpenId(openId: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(users).where(eq(users.openId, openId)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getUserById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(users).where(eq(users.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getUserByEmail(email: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(users).where(eq(users.email, email)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getStockBySymbol(symbol: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(stocks).where(eq(stocks.symbol, symbol.toUpperCase())).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+// ... existing stock creation methods can remain global or be restricted to admin? 
+// For now leaving global as shared dictionary.
+
+export async function createStock(symbol: string, name: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const upperSymbol = symbol.toUpperCase();
+
+  try {
+    // Attempt to insert and return the new row.
+    // Specifying target ensures we only ignore symbol conflicts, exposing other issues like out-of-sync sequences.
+    const [newStock] = await db
+      .insert(stocks)
+      .values({ symbol: upperSymbol, name })
+      .onConflictDoNothing({ target: stocks.symbol })
+      .returning();
+
+    if (newStock) {
+      return newStock;
+    }
+
+    // If no row was returned, it means it already existed and was ignored.
+    const existing = await db
+      .select()
+      .from(stocks)
+      .where(eq(stocks.symbol, upperSymbol))
+      .limit(1);
+
+    if (existing.length > 0) {
+      return existing[0];
+    }
+
+    throw new Error(`Failed to create or find stock: ${symbol}`);
+  } catch (error: any) {
+    console.error(`[DB] Error creating stock ${upperSymbol}:`, error);
+    
+    // Attempt to fix sequence out of sync automatically if it's a primary key violation
+    // Drizzle wraps Postgres errors, so we check stringified error and cause
+    const errorString = String(error) + (error.cause ? String(error.cause) : "");
+    if (errorString.includes("duplicate key value violates unique constraint") && errorString.includes("pkey")) {
+      console.log(`[DB] Detected out-of-sync sequence. Attempting to fix stocks_id_seq...`);
+      try {
+        await db.execute(sql`SELECT setval('stocks_id_seq', COALESCE((SELECT MAX(id) FROM stocks), 0));`);
+        // Retry the insert once
+        const [retryStock] = await db
+          .insert(stocks)
+          .values({ symbol: upperSymbol, name })
+          .onConflictDoNothing({ target: stocks.symbol })
+          .returning();
+          
+        if (retryStock) return retryStock;
+      } catch (retryError) {
+        console.error(`[DB] Failed to auto-fix sequence and retry:`, retryError);
+        throw retryError;
+      }
+    }
+    
+    throw error;
+  }
+}
+
+export async function getStockById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(stocks).where(eq(stocks.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getAllStocks() {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(stocks).orderBy(stocks.symbol);
+}
+
+/**
+ * ============================================================================
+ * PORTFOLIOS (SCOPED BY USER)
+ * ============================================================================
+ */
+
+/**
+ * The user's portfolios, oldest first. A user without one is given a "Main" portfolio.
+ */
+export async function getPortfolios(userId: number): Promise<Portfolio[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const rows = await db.select().from(portfolios).where(eq(portfolios.userId, userId)).orderBy(asc(portfolios.id));
+  if (rows.length > 0) return rows;
+  return await db.insert(portfolios).values({ userId, name: "Main" }).returning();
+}
+
+async function getPortfolio(userId: number, portfolioId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [portfolio] = await db
+    .select()
+    .from(portfolios)
+    .where(and(eq(portfolios.id, portfolioId), eq(portfolios.userId, userId)))
+    .limit(1);
+  if (!portfolio) throw new Error("Portfolio not found");
+  return portfolio;
+}
+
+export async function createPortfolio(userId: number, name: string, brokerName?: string, allowShortSelling = false) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [portfolio] = await db
+    .insert(portfolios)
+    .values({ userId, name, brokerName: brokerName || null, allowShortSelling })
+    .returning();
+  return portfolio;
+}
+
+/**
+ * Update a portfolio. Switching short selling replays every stock in it; it cannot be
+ * switched off while a short position is open.
+ */
+export async function updatePortfolio(
+  userId: number,
+  id: number,
+  name: string,
+  brokerName?: string,
+  allowShortSelling?: boolean
+) {
+  return inTransaction(async (db) => {
+    const portfolio = await getPortfolio(userId, id);
+    const shortSellingChanged = allowShortSelling !== undefined && allowShortSelling !== portfolio.allowShortSelling;
+    if (shortSellingChanged && !allowShortSelling) {
+      const [short] = await db
+        .select({ id: stockAggregates.id })
+        .from(stockAggregates)
+        .where(and(eq(stockAggregates.portfolioId, id), eq(stockAggregates.userId, userId), lt(stockAggregates.totalShares, "0")))
+        .limit(1);
+      if (short) throw new Error("Close the short positions before turning off short selling");
+    }
+
+    await db
+      .update(portfolios)
+      .set({ name, brokerName: brokerName || null, allowShortSelling })
+      .where(eq(portfolios.id, id));
+
+    if (shortSellingChanged) {
+      const rows = await db
+        .selectDistinct({ stockId: transactions.stockId })
+        .from(transactions)
+        .where(and(eq(transactions.portfolioId, id), eq(transactions.userId, userId), notDeleted));
+      for (const { stockId } of rows) {
+        await recomputeAggregates(userId, id, stockId);
+      }
+    }
+  });
+}
+
+/**
+ * Refuse a change to transactions on any of `dates` when they fall in the portfolio's locked period.
+ */
+export function assertPeriodOpen(portfolio: Pick<Portfolio, "name" | "lockedThrough">, ...dates: string[]) {
+  if (portfolio.lockedThrough && dates.some((date) => isPeriodLocked(portfolio.lockedThrough, date))) {
+    throw new PeriodLockedError(portfolio.name, portfolio.lockedThrough);
+  }
+}
+
+/**
+ * Close a portfolio's books through a date, or with null reopen them entirely. Moving the date
+ * forward closes more of the history; moving it back or clearing it reopens a period, which
+ * only an admin may do.
+ */
+export async function setPortfolioLock(userId: number, id: number, lockedThrough: string | null, canReopen: boolean) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const portfolio = await getPortfolio(userId, id);
+  const reopens = !!portfolio.lockedThrough && (lockedThrough === null || lockedThrough < portfolio.lockedThrough);
+  if (reopens && !canReopen) throw new PeriodLockedError(portfolio.name, portfolio.lockedThrough!);
+
+  const [updated] = await db.update(portfolios).set({ lockedThrough }).where(eq(portfolios.id, id)).returning();
+  return updated;
+}
+
+/**
+ * Ids of the user's portfolios that allow short selling, for replays that span portfolios.
+ */
+export async function getShortSellingPortfolioIds(userId: number) {
+  return new Set((await getPortfolios(userId)).filter((p) => p.allowShortSelling).map((p) => p.id));
+}
+
+/**
+ * Delete an empty portfolio. Portfolios with transactions are refused rather than
+ * cascading their history away, and the last portfolio is always kept. Deleted
+ * transactions do not count, and go with the portfolio.
+ */
+export async function deletePortfolio(userId: number, id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await getPortfolio(userId, id);
+  const [used] = await db
+    .select({ id: transactions.id })
+    .from(transactions)
+    .where(and(eq(transactions.portfolioId, id), eq(transactions.userId, userId), notDeleted))
+    .limit(1);
+  if (used) throw new Error("Portfolio still has transactions");
+  const [cash] = await db
+    .select({ id: cashMovements.id })
+    .from(cashMovements)
+    .where(and(eq(cashMovements.portfolioId, id), eq(cashMovements.userId, userId)))
+    .limit(1);
+  if (cash) throw new Error("Portfolio still has cash movements");
+  if ((await getPortfolios(userId)).length <= 1) throw new Error("At least one portfolio is required");
+
+  await db.delete(portfolios).where(eq(portfolios.id, id));
+}
+
+/**
+ * Portfolios with transactions in any of the given stocks.
+ */
+async function getPortfolioIdsTrading(userId: number, stockIds: number[]) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const rows = await db
+    .selectDistinct({ portfolioId: transactions.portfolioId })
+    .from(transactions)
+    .where(and(eq(transactions.userId, userId), inArray(transactions.stockId, stockIds), notDeleted));
+  return rows.map((r) => r.portfolioId);
+}
+
+/**
+ * ============================================================================
+ * TRANSACTIONS (SCOPED BY USER AND PORTFOLIO)
+ * ============================================================================
+ */
+
+/**
+ * The order transactions are replayed in: by date, then by the sequence a reordered day was
+ * given, then in entry order. Rows entered after their day was reordered have no sequence and
+ * come after the rest of the day.
+ */
+export const replayOrder = [asc(transactions.date), asc(transactions.sequence), asc(transactions.createdAt), asc(transactions.id)];
+
+/**
+ * replayOrder reversed, for lists that show the latest transaction first.
+ */
+export const newestFirst = [desc(transactions.date), desc(transactions.sequence), desc(transactions.createdAt), desc(transactions.id)];
+
+/**
+ * Leaves out soft-deleted transactions. Every read of the ledger applies it; deleted rows are
+ * only reachable through their history.
+ */
+export const notDeleted = isNull(transactions.deletedAt);
+
+/**
+ * A stock's transactions, newest first, in one portfolio or (without portfolioId) all of them.
+ */
+export async function getTransactionsByStockId(userId: number, stockId: number, portfolioId?: number, limit: number = 50, offset: number = 0) {
+  const db = await getDb();
+  if (!db) return { transactions: [], total: 0 };
+
+  const whereClause = and(
+    eq(transactions.stockId, stockId),
+    eq(transactions.userId, userId),
+    portfolioId !== undefined ? eq(transactions.portfolioId, portfolioId) : undefined,
+    notDeleted
+  );
+
+  const result = await db
+    .select()
+    .from(transactions)
+    .where(whereClause)
+    .orderBy(...newestFirst)
+    .limit(limit)
+    .offset(offset);
+
+  const countResult = await db
+    .select({ count: sql`COUNT(*)` })
+    .from(transactions)
+    .where(whereClause);
+
+  const total = countResult.length > 0 ? Number(countResult[0].count) : 0;
+
+  return { transactions: result, total };
+}
+
+function computeUnitPrice(
+  type: Transaction["type"],
+  quantity: string | null,
+  totalAmount: string
+) {
+  if (type === "DIVIDEND" || !quantity) {
+    return null;
+  }
+
+  const qty = new Decimal(quantity);
+  if (qty.isZero()) {
+    return null;
+  }
+
+  return new Decimal(totalAmount).dividedBy(qty).toFixed(8);
+}
+
+/**
+ * Sum of the brokerage and statutory charges on a transaction.
+ */
+export function transactionFees(txn: Partial<Record<keyof TransactionFees, string | null>>) {
+  return TRANSACTION_FEE_FIELDS.reduce((sum, field) => sum.plus(txn[field] || 0), new Decimal(0));
+}
+
+/**
+ * The same transaction with its charges zeroed, for gross (pre-charge) replays.
+ */
+export function withoutFees<T extends Transaction>(txn: T): T {
+  return { ...txn, commission: "0", capitalValueTax: "0", regulatoryLevies: "0", cdcCharges: "0", salesTax: "0" };
+}
+
+/**
+ * What a DIVIDEND actually pays out: the gross amount less tax withheld and zakat.
+ */
+export function dividendNet(txn: { totalAmount: string } & Partial<Record<keyof DividendDeductions, string | null>>) {
+  return DIVIDEND_DEDUCTION_FIELDS.reduce((net, field) => net.minus(txn[field] || 0), new Decimal(txn.totalAmount));
+}
+
+function deductionValues(type: Transaction["type"], totalAmount: string, deductions: DividendDeductions | undefined) {
+  const values = Object.fromEntries(
+    DIVIDEND_DEDUCTION_FIELDS.map((field) => [field, type === "DIVIDEND" ? deductions?.[field] || "0" : "0"])
+  ) as Record<keyof DividendDeductions, string>;
+  if (dividendNet({ totalAmount, ...values }).lessThan(0)) {
+    throw new Error("Withholding tax and zakat exceed the gross dividend");
+  }
+  return values;
+}
+
+function feeValues(fees: TransactionFees | undefined) {
+  return Object.fromEntries(
+    TRANSACTION_FEE_FIELDS.map((field) => [field, fees?.[field] || "0"])
+  ) as Record<keyof TransactionFees, string>;
+}
+
+/**
+ * Check that a specific-lot allocation only names BUYs of the same stock and
+ * does not allocate more shares than the SELL disposes of.
+ */
+async function validateLotAllocation(
+  userId: number,
+  portfolioId: number,
+  stockId: number,
+  type: Transaction["type"],
+  quantity: string | null,
+  lotAllocation: LotAllocation[]
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  if (type !== "SELL") {
+    throw new Error("Lot allocation is only allowed on SELL transactions");
+  }
+
+  const allocated = lotAllocation.reduce((sum, a) => sum.plus(a.quantity), new Decimal(0));
+  if (lotAllocation.some((a) => new Decimal(a.quantity).lessThanOrEqualTo(0))) {
+    throw new Error("Lot allocation quantities must be positive");
+  }
+  if (allocated.greaterThan(quantity ?? 0)) {
+    throw new Error(`Lot allocation (${allocated.toString()}) exceeds the quantity sold (${quantity ?? 0})`);
+  }
+
+  const buyIds = lotAllocation.map((a) => a.buyTransactionId);
+  const buys = await db
+    .select({ id: transactions.id })
+    .from(transactions)
+    .where(
+      and(
+        inArray(transactions.id, buyIds),
+        eq(transactions.userId, userId),
+        eq(transactions.portfolioId, portfolioId),
+        eq(transactions.stockId, stockId),
+        inArray(transactions.type, ["BUY", "RIGHTS_SUBSCRIPTION"]),
+        notDeleted
+      )
+    );
+  if (buys.length !== new Set(buyIds).size) {
+    throw new Error("Lot allocation references a lot that is not a BUY of this stock in this portfolio");
+  }
+}
+
+/**
+ * Warnings a SELL or TRANSFER_OUT raises against the position held just before it:
+ * disposing of more shares than are held, or selling below the average cost after charges.
+ * A portfolio that allows short selling may sell more than it holds.
+ */
+export function tradeWarnings(
+  state: StockPosition["state"],
+  txn: Pick<Transaction, "type" | "date" | "quantity" | "totalAmount"> & Partial<Record<keyof TransactionFees, string | null>>,
+  allowShortSelling: boolean = false
+): TradeWarning[] {
+  if (txn.type !== "SELL" && txn.type !== "TRANSFER_OUT") return [];
+  const quantity = new Decimal(txn.quantity || 0);
+  if (!quantity.greaterThan(0)) return [];
+
+  const warnings: TradeWarning[] = [];
+  const disposal = txn.type === "SELL" ? "sell" : "transfer";
+  if (quantity.greaterThan(state.totalShares) && !(allowShortSelling && txn.type === "SELL")) {
+    warnings.push({
+      code: "OVERSELL",
+      message: `You are trying to ${disposal} ${quantity.toString()} shares but only have ${state.totalShares.toString()} shares on ${txn.date}.`,
+    });
+  }
+  if (txn.type === "SELL" && state.totalShares.greaterThan(0)) {
+    const sellPrice = new Decimal(txn.totalAmount).minus(transactionFees(txn)).dividedBy(quantity);
+    if (sellPrice.lessThan(state.avgCost)) {
+      warnings.push({
+        code: "BELOW_AVERAGE_COST",
+        message: `You are selling at ${sellPrice.toFixed(2)} PKR/share after charges, below your average cost of ${state.avgCost.toFixed(2)} PKR/share.`,
+      });
+    }
+  }
+  return warnings;
+}
+
+/**
+ * Refuse a trade whose warnings were not acknowledged. The position is replayed through the
+ * end of the trade's date, leaving out the row being edited.
+ */
+async function checkTradeWarnings(
+  userId: number,
+  portfolioId: number,
+  stockId: number,
+  txn: Parameters<typeof tradeWarnings>[1],
+  editing?: Pick<Transaction, "id" | "date">
+) {
+  if (txn.type !== "SELL" && txn.type !== "TRANSFER_OUT") return;
+  // A snapshot still holding the row being edited cannot be used
+  const since = editing && editing.date < txn.date ? editing.date : txn.date;
+  const start = await getSnapshotBefore(userId, portfolioId, stockId, since);
+  const { position } = await replayStock(
+    userId,
+    portfolioId,
+    stockId,
+    subtractDays(txn.date, -1),
+    editing?.id,
+    start
+  );
+  const { allowShortSelling } = await getPortfolio(userId, portfolioId);
+  const warnings = tradeWarnings(position.state, txn, allowShortSelling);
+  if (warnings.length > 0) throw new TradeWarningError(warnings);
+}
+
+/**
+ * The warnings a change that rewrote a stock's history from `from` on must have acknowledged,
+ * out of those each disposal raised when the stock was replayed. Rows outside `changedIds` only
+ * count if they are now oversold, since their own prices did not change.
+ */
+export function historyWarnings(
+  replayed: { txn: Pick<Transaction, "id" | "date">; warnings: TradeWarning[] }[],
+  from: string,
+  changedIds: number[]
+) {
+  return replayed
+    .filter(({ txn }) => txn.date >= from)
+    .flatMap(({ txn, warnings }) =>
+      changedIds.includes(txn.id) ? warnings : warnings.filter((w) => w.code === "OVERSELL")
+    );
+}
+
+/**
+ * Refuse a change that rewrote a stock's history from `from` on if a SELL or TRANSFER_OUT since
+ * then now raises a warning, checked against the rows as written.
+ */
+async function checkHistoryWarnings(
+  userId: number,
+  portfolioId: number,
+  stockId: number,
+  from: string,
+  changedIds: number[]
+) {
+  const start = await getSnapshotBefore(userId, portfolioId, stockId, from);
+  const { warnings } = await replayStock(userId, portfolioId, stockId, undefined, undefined, start);
+  const raised = historyWarnings(warnings, from, changedIds);
+  if (raised.length > 0) throw new TradeWarningError(raised);
+}
+
+/**
+ * Refuse to change a transaction that was saved again after the client loaded it, as of
+ * `expectedUpdatedAt`, the updatedAt it loaded.
+ */
+export function assertUnchanged(txn: Transaction, expectedUpdatedAt?: Date) {
+  if (expectedUpdatedAt && txn.updatedAt.getTime() !== expectedUpdatedAt.getTime()) {
+    throw new TransactionConflictError(txn);
+  }
+}
+
+/**
+ * Refuse a TRANSFER_IN that does not mirror its TRANSFER_OUT: the shares must arrive in a
+ * different portfolio, and be the same stock, so cost basis never crosses into another stock.
+ */
+export function assertTransferPair(transferOut: Pick<Transaction, "portfolioId" | "stockId">, portfolioId: number, stockId: number) {
+  if (transferOut.portfolioId === portfolioId) throw new Error("Transfers need two different portfolios");
+  if (transferOut.stockId !== stockId) throw new Error("A transfer must move the same stock");
+}
+
+export async function addTransaction(
+  userId: number,
+  portfolioId: number,
+  stockId: number,
+  type: "BUY" | "SELL" | "DIVIDEND" | "TRANSFER_OUT" | "TRANSFER_IN",
+  date: Date,
+  quantity: string | null,
+  totalAmount: string,
+  notes?: string,
+  lotAllocation?: LotAllocation[] | null,
+  fees?: TransactionFees,
+  deductions?: DividendDeductions,
+  transferOutId?: number,
+  confirmOverride = false
+) {
+  return inTransaction(async (db) => {
+    const dateStr = date.toISOString().split("T")[0];
+    const unitPrice = computeUnitPrice(type, quantity, totalAmount);
+
+    try {
+      await lockStock(userId, stockId);
+      assertPeriodOpen(await getPortfolio(userId, portfolioId), dateStr);
+      const deductionColumns = deductionValues(type, totalAmount, deductions);
+      const isTransfer = type === "TRANSFER_OUT" || type === "TRANSFER_IN";
+      if (isTransfer && !new Decimal(quantity || 0).greaterThan(0)) {
+        throw new Error("Transfers need a positive quantity");
+      }
+      const [transferOut] = type === "TRANSFER_IN" && transferOutId
+        ? await db
+          .select()
+          .from(transactions)
+          .where(and(eq(transactions.id, transferOutId), eq(transactions.userId, userId), eq(transactions.type, "TRANSFER_OUT"), notDeleted))
+          .limit(1)
+        : [];
+      if (transferOutId && !transferOut) throw new Error("Transfer out not found");
+      if (transferOut) assertTransferPair(transferOut, portfolioId, stockId);
+      if (lotAllocation && lotAllocation.length > 0) {
+        await validateLotAllocation(userId, portfolioId, stockId, type, quantity, lotAllocation);
+      }
+      // Charges only apply to trades
+      const feeColumns = feeValues(type === "DIVIDEND" || isTransfer ? undefined : fees);
+      if (!confirmOverride) {
+        await checkTradeWarnings(userId, portfolioId, stockId, { type, date: dateStr, quantity, totalAmount, ...feeColumns });
+      }
+
+      const [created] = await db.insert(transactions).values({
+        userId,
+        portfolioId,
+        stockId,
+        type,
+        date: dateStr,
+        quantity: quantity || null,
+        totalAmount,
+        unitPrice,
+        lotAllocation: lotAllocation && lotAllocation.length > 0 ? lotAllocation : null,
+        ...feeColumns,
+        ...deductionColumns,
+        transferOutId: transferOut?.id ?? null,
+        notes: notes || null,
+      }).returning();
+      await recordRevision(userId, created.id, "CREATE", null, created);
+
+      if (transferOut) {
+        // Replaying the sending side hands its lots to the new TRANSFER_IN and recomputes this portfolio
+        await recomputeAggregates(userId, transferOut.portfolioId, transferOut.stockId, undefined, transferOut.date);
+      } else {
+        await recomputeAggregates(userId, portfolioId, stockId, undefined, dateStr);
+      }
+      return created;
+    } catch (error) {
+      if (error instanceof TradeWarningError || error instanceof PeriodLockedError) throw error;
+      console.error(`[DB] Failed to add transaction:`, error);
+      throw new Error(`Failed to add transaction: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+}
+
+export async function updateTransaction(
+  userId: number,
+  id: number,
+  type: "BUY" | "SELL" | "DIVIDEND",
+  date: Date,
+  quantity: string | null,
+  totalAmount: string,
+  notes?: string,
+  lotAllocation?: LotAllocation[] | null,
+  fees?: TransactionFees,
+  deductions?: DividendDeductions,
+  confirmOverride = false,
+  expectedUpdatedAt?: Date
+) {
+  return inTransaction(async (db) => {
+    const dateStr = date.toISOString().split("T")[0];
+    const unitPrice = computeUnitPrice(type, quantity, totalAmount);
+
+    try {
+      const txn = await lockTransactions(userId, [id]);
+      if (txn.length === 0) throw new Error("Transaction not found");
+      assertUnchanged(txn[0], expectedUpdatedAt);
+      // Neither the old date nor the new one may be in the closed books
+      assertPeriodOpen(await getPortfolio(userId, txn[0].portfolioId), txn[0].date, dateStr);
+      if (txn[0].corporateActionId) {
+        throw new Error("Rights elections cannot be edited; delete and record them again");
+      }
+      if (txn[0].type === "TRANSFER_OUT" || txn[0].type === "TRANSFER_IN") {
+        throw new Error("Transfers cannot be edited; delete and record them again");
+      }
+
+      // undefined keeps the stored deductions (they are zeroed if the row stops being a DIVIDEND)
+      const deductionColumns = deductionValues(type, totalAmount, deductions ?? {
+        withholdingTax: txn[0].withholdingTax,
+        zakat: txn[0].zakat,
+      });
+
+      const { stockId, portfolioId } = txn[0];
+
+      // undefined keeps the stored allocation unless the row stops being a SELL; null clears it
+      const allocation = lotAllocation !== undefined ? lotAllocation : type === "SELL" ? txn[0].lotAllocation : null;
+      if (allocation && allocation.length > 0) {
+        await validateLotAllocation(userId, portfolioId, stockId, type, quantity, allocation);
+      }
+      // undefined keeps the stored charges
+      const feeColumns = type === "DIVIDEND" ? feeValues(undefined) : fees ? feeValues(fees) : {};
+      if (!confirmOverride) {
+        await checkTradeWarnings(
+          userId,
+          portfolioId,
+          stockId,
+          { ...txn[0], type, date: dateStr, quantity, totalAmount, ...feeColumns },
+          txn[0]
+        );
+      }
+
+      const [updated] = await db.update(transactions)
+        .set({
+          type,
+          date: dateStr,
+          quantity: quantity || null,
+          totalAmount,
+          unitPrice,
+          lotAllocation: allocation && allocation.length > 0 ? allocation : null,
+          ...feeColumns,
+          ...deductionColumns,
+          notes: notes || null,
+          // Moving to another day drops the row's place in the old one
+          sequence: dateStr === txn[0].date ? txn[0].sequence : null,
+          updatedAt: new Date(),
+        })
+        .where(eq(transactions.id, id))
+        .returning();
+      await recordRevision(userId, id, "UPDATE", txn[0], updated);
+
+      // Replay from whichever of the old and new dates comes first
+      await recomputeAggregates(userId, portfolioId, stockId, undefined, dateStr < txn[0].date ? dateStr : txn[0].date);
+    } catch (error) {
+      if (error instanceof TradeWarningError || error instanceof TransactionConflictError || error instanceof PeriodLockedError) {
+        throw error;
+      }
+      console.error(`[DB] Failed to update transaction ${id}:`, error);
+      throw new Error(`Failed to update transaction: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+}
+
+export async function deleteTransaction(userId: number, id: number, expectedUpdatedAt?: Date) {
+  return inTransaction(async (db) => {
+    try {
+      const txn = await lockTransactions(userId, [id]);
+      if (txn.length === 0) throw new Error("Transaction not found");
+      assertUnchanged(txn[0], expectedUpdatedAt);
+
+      const { stockId, portfolioId } = txn[0];
+
+      // Both halves of a transfer between the user's portfolios go together
+      const peers = await db
+        .select()
+        .from(transactions)
+        .where(
+          and(
+            eq(transactions.userId, userId),
+            txn[0].transferOutId
+              ? eq(transactions.id, txn[0].transferOutId)
+              : eq(transactions.transferOutId, id),
+            notDeleted
+          )
+        );
+
+      for (const row of [txn[0], ...peers]) {
+        assertPeriodOpen(await getPortfolio(userId, row.portfolioId), row.date);
+      }
+
+      // Rows are only marked deleted, so their history stays and they can be restored
+      const deletedAt = new Date();
+      await db
+        .update(transactions)
+        .set({ deletedAt, updatedAt: deletedAt })
+        .where(inArray(transactions.id, [id, ...peers.map((p) => p.id)]));
+      for (const row of [txn[0], ...peers]) {
+        await recordRevision(userId, row.id, "DELETE", row, null);
+      }
+
+      await recomputeAggregates(userId, portfolioId, stockId, undefined, txn[0].date);
+      for (const peer of peers) {
+        await recomputeAggregates(userId, peer.portfolioId, peer.stockId, undefined, peer.date);
+      }
+    } catch (error) {
+      if (error instanceof TransactionConflictError || error instanceof PeriodLockedError) throw error;
+      console.error(`[DB] Failed to delete transaction ${id}:`, error);
+      throw new Error(`Failed to delete transaction: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+}
+
+/**
+ * ============================================================================
+ * TRANSACTION HISTORY
+ * ============================================================================
+ */
+
+/**
+ * The fields a revision can change, and restore. The rest are fixed when the row is created or
+ * derived by the replay (a transfer's cost, a reordered day's sequence).
+ */
+export const REVISED_FIELDS = [
+  "stockId",
+  "portfolioId",
+  "type",
+  "date",
+  "quantity",
+  "totalAmount",
+  "unitPrice",
+  "lotAllocation",
+  "commission",
+  "capitalValueTax",
+  "regulatoryLevies",
+  "cdcCharges",
+  "salesTax",
+  "withholdingTax",
+  "zakat",
+  "notes",
+] as const satisfies readonly (keyof TransactionValues)[];
+
+export type RevisedField = (typeof REVISED_FIELDS)[number];
+
+function revisionValues({ createdAt, updatedAt, deletedAt, ...values }: Transaction): TransactionValues {
+  return values;
+}
+
+/**
+ * Record a change to a transaction in its history, inside the database transaction making it.
+ */
+async function recordRevision(
+  userId: number,
+  transactionId: number,
+  action: RevisionAction,
+  before: Transaction | null,
+  after: Transaction | null
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.insert(transactionRevisions).values({
+    userId,
+    transactionId,
+    action,
+    before: before && revisionValues(before),
+    after: after && revisionValues(after),
+  });
+}
+
+/**
+ * The fields a revision changed, with their values before and after. A create lists every field
+ * it set; a delete lists none, since the row's values are unchanged.
+ */
+export function revisionChanges(revision: Pick<TransactionRevision, "before" | "after">) {
+  const { before, after } = revision;
+  if (!after) return [];
+  return REVISED_FIELDS.flatMap((field) => {
+    const was = before ? before[field] ?? null : null;
+    const now = after[field] ?? null;
+    if (JSON.stringify(was) === JSON.stringify(now)) return [];
+    return [{ field, before: was, after: now }];
+  });
+}
+
+/**
+ * A transaction's revisions, oldest first, with what each one changed.
+ */
+export async function getTransactionHistory(userId: number, transactionId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const revisions = await db
+    .select()
+    .from(transactionRevisions)
+    .where(and(eq(transactionRevisions.transactionId, transactionId), eq(transactionRevisions.userId, userId)))
+    .orderBy(asc(transactionRevisions.createdAt), asc(transactionRevisions.id));
+  return revisions.map((revision) => ({ ...revision, changes: revisionChanges(revision) }));
+}
+
+/**
+ * Put a transaction back to the values a revision left it with, undeleting it if it was deleted.
+ * A delete's revision restores the row as it was just before the delete. Undeleting one half of
+ * a transfer brings back the other half deleted with it. A row restored into another stock or
+ * portfolio drops its lot allocation, and both positions are replayed. Values that leave a sale with more
+ * shares than were held, or below average cost, are refused unless `confirmOverride` is set.
+ */
+export async function restoreTransactionRevision(userId: number, revisionId: number, confirmOverride = false) {
+  return inTransaction(async (db) => {
+    try {
+      const [revision] = await db
+        .select()
+        .from(transactionRevisions)
+        .where(and(eq(transactionRevisions.id, revisionId), eq(transactionRevisions.userId, userId)))
+        .limit(1);
+      if (!revision) throw new Error("Revision not found");
+      const values = revision.action === "DELETE" ? revision.before : revision.after;
+      if (!values) throw new Error("This revision has no values to restore");
+
+      const restored = Object.fromEntries(REVISED_FIELDS.map((field) => [field, values[field]])) as Pick<TransactionValues, RevisedField>;
+      const [txn] = await lockTransactions(userId, [revision.transactionId], [restored.stockId], true);
+      if (!txn) throw new Error("Transaction not found");
+      const moved = restored.stockId !== txn.stockId || restored.portfolioId !== txn.portfolioId;
+      assertPeriodOpen(await getPortfolio(userId, txn.portfolioId), txn.date);
+      assertPeriodOpen(await getPortfolio(userId, restored.portfolioId), restored.date);
+      const [after] = await db
+        .update(transactions)
+        .set({
+          ...restored,
+          lotAllocation: moved ? null : restored.lotAllocation,
+          // A place in the day's order only holds on the same day, stock and portfolio
+          sequence: restored.date === txn.date && !moved ? txn.sequence : null,
+          deletedAt: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(transactions.id, txn.id))
+        .returning();
+      await recordRevision(userId, txn.id, "RESTORE", txn, after);
+
+      const peers = txn.deletedAt
+        ? await db
+          .select()
+          .from(transactions)
+          .where(
+            and(
+              eq(transactions.userId, userId),
+              txn.transferOutId ? eq(transactions.id, txn.transferOutId) : eq(transactions.transferOutId, txn.id),
+              eq(transactions.deletedAt, txn.deletedAt)
+            )
+          )
+        : [];
+      for (const peer of peers) {
+        assertPeriodOpen(await getPortfolio(userId, peer.portfolioId), peer.date);
+        const [undeleted] = await db
+          .update(transactions)
+          .set({ deletedAt: null, updatedAt: new Date() })
+          .where(eq(transactions.id, peer.id))
+          .returning();
+        await recordRevision(userId, peer.id, "RESTORE", peer, undeleted);
+      }
+
+      // Replay each position the row left or joined from the earlier of its dates there
+      const touched: TouchedStocks = new Map();
+      for (const row of [txn, after, ...peers]) touch(touched, row);
+      if (!confirmOverride) {
+        for (const { portfolioId, stockId, from } of Array.from(touched.values())) {
+          await checkHistoryWarnings(userId, portfolioId, stockId, from, [txn.id, ...peers.map((p) => p.id)]);
+        }
+      }
+      await recomputeTouched(userId, touched);
+      return after;
+    } catch (error) {
+      if (error instanceof TradeWarningError || error instanceof PeriodLockedError) throw error;
+      console.error(`[DB] Failed to restore revision ${revisionId}:`, error);
+      throw new Error(`Failed to restore revision: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+}
+
+/**
+ * Undelete a transaction as it was when it was deleted.
+ */
+export async function undeleteTransaction(userId: number, id: number, confirmOverride = false) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [txn] = await db
+    .select({ deletedAt: transactions.deletedAt })
+    .from(transactions)
+    .where(and(eq(transactions.id, id), eq(transactions.userId, userId)))
+    .limit(1);
+  if (!txn) throw new Error("Transaction not found");
+  if (!txn.deletedAt) throw new Error("Transaction is not deleted");
+
+  const [deletion] = await db
+    .select({ id: transactionRevisions.id })
+    .from(transactionRevisions)
+    .where(
+      and(
+        eq(transactionRevisions.transactionId, id),
+        eq(transactionRevisions.userId, userId),
+        eq(transactionRevisions.action, "DELETE")
+      )
+    )
+    .orderBy(desc(transactionRevisions.createdAt), desc(transactionRevisions.id))
+    .limit(1);
+  if (!deletion) throw new Error("Transaction has not been deleted");
+  return restoreTransactionRevision(userId, deletion.id, confirmOverride);
+}
+
+/**
+ * Sequence numbers for a day reordered to `orderedIds`, earliest first. The new order must
+ * list every transaction of the day once.
+ */
+export function daySequence(day: Pick<Transaction, "id">[], orderedIds: number[]) {
+  const ids = new Set(day.map((t) => t.id));
+  if (
+    orderedIds.length !== ids.size ||
+    new Set(orderedIds).size !== orderedIds.length ||
+    orderedIds.some((id) => !ids.has(id))
+  ) {
+    throw new Error("The new order must list each of the day's transactions once");
+  }
+  return orderedIds.map((id, index): [number, number] => [id, index + 1]);
+}
+
+/**
+ * Reorder one day's transactions in a stock and portfolio, then replay the stock from that day.
+ * The order is not an edit of any row, so updatedAt is left alone. An order that leaves a sale
+ * with more shares than were held at that point is refused unless `confirmOverride` is set.
+ */
+export async function reorderTransactions(userId: number, orderedIds: number[], confirmOverride = false) {
+  return inTransaction(async (db) => {
+    try {
+      const [first] = await db
+        .select()
+        .from(transactions)
+        .where(and(eq(transactions.id, orderedIds[0]), eq(transactions.userId, userId), notDeleted))
+        .limit(1);
+      if (!first) throw new Error("Transaction not found");
+      await lockStock(userId, first.stockId);
+      assertPeriodOpen(await getPortfolio(userId, first.portfolioId), first.date);
+
+      const day = await db
+        .select({ id: transactions.id })
+        .from(transactions)
+        .where(
+          and(
+            eq(transactions.userId, userId),
+            eq(transactions.portfolioId, first.portfolioId),
+            eq(transactions.stockId, first.stockId),
+            eq(transactions.date, first.date),
+            notDeleted
+          )
+        )
+        .for("update");
+      for (const [id, sequence] of daySequence(day, orderedIds)) {
+        await db.update(transactions).set({ sequence }).where(eq(transactions.id, id));
+      }
+      if (!confirmOverride) {
+        await checkHistoryWarnings(userId, first.portfolioId, first.stockId, first.date, orderedIds);
+      }
+
+      await recomputeAggregates(userId, first.portfolioId, first.stockId, undefined, first.date);
+    } catch (error) {
+      if (error instanceof TradeWarningError || error instanceof PeriodLockedError) throw error;
+      console.error(`[DB] Failed to reorder transactions:`, error);
+      throw new Error(`Failed to reorder transactions: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+}
+
+/**
+ * A change applied to many transactions at once. Omitted fields are left as they are; notes
+ * set to null clear them.
+ */
+export type BulkChange = {
+  date?: string;
+  type?: "BUY" | "SELL" | "DIVIDEND";
+  stockId?: number;
+  portfolioId?: number;
+  notes?: string | null;
+};
+
+/**
+ * The columns a bulk change writes to one transaction. A row given a new type is treated as an
+ * edit to that type would be: dividends carry no charges, only dividends keep deductions, and
+ * only a SELL that stays in its stock and portfolio keeps its lot allocation. Transfers and
+ * rights elections only take new notes.
+ */
+export function applyBulkChange(txn: Transaction, change: BulkChange) {
+  const editsTrade =
+    change.date !== undefined || change.type !== undefined || change.stockId !== undefined || change.portfolioId !== undefined;
+  if (editsTrade && txn.corporateActionId) {
+    throw new Error("Rights elections cannot be edited; delete and record them again");
+  }
+  if (editsTrade && (txn.type === "TRANSFER_OUT" || txn.type === "TRANSFER_IN")) {
+    throw new Error("Transfers cannot be edited; delete and record them again");
+  }
+
+  const type = change.type ?? txn.type;
+  const date = change.date ?? txn.date;
+  const stockId = change.stockId ?? txn.stockId;
+  const portfolioId = change.portfolioId ?? txn.portfolioId;
+  if (type !== "DIVIDEND" && !txn.quantity) {
+    throw new Error(`Transaction ${txn.id} has no quantity, so it cannot become a ${type}`);
+  }
+  const moved = stockId !== txn.stockId || portfolioId !== txn.portfolioId;
+
+  return {
+    type,
+    date,
+    stockId,
+    portfolioId,
+    unitPrice: computeUnitPrice(type, txn.quantity, txn.totalAmount),
+    lotAllocation: type === "SELL" && !moved ? txn.lotAllocation : null,
+    ...(type === "DIVIDEND" && txn.type !== "DIVIDEND" ? feeValues(undefined) : {}),
+    ...(type !== "DIVIDEND" ? { withholdingTax: "0", zakat: "0" } : {}),
+    notes: change.notes !== undefined ? change.notes || null : txn.notes,
+    // A place in the day's order only holds for the same day, stock and portfolio
+    sequence: date === txn.date && !moved ? txn.sequence : null,
+  };
+}
+
+/**
+ * The user's transactions for a bulk operation, locked for update with their stocks (and any in
+ * `stockIds`) locked first.
+ */
+async function lockForBulk(userId: number, ids: number[], stockIds: number[] = []) {
+  const rows = await lockTransactions(userId, ids, stockIds);
+  if (rows.length !== new Set(ids).size) throw new Error("Some of the transactions were not found");
+  return rows;
+}
+
+/**
+ * The (portfolio, stock) pairs a bulk operation changed, each with the earliest date it changed.
+ */
+type TouchedStocks = Map<string, { portfolioId: number; stockId: number; from: string }>;
+
+/**
+ * Replay each (portfolio, stock) a bulk operation touched once, from the earliest date it
+ * touched there.
+ */
+async function recomputeTouched(userId: number, touched: TouchedStocks) {
+  for (const { portfolioId, stockId, from } of Array.from(touched.values())) {
+    await recomputeAggregates(userId, portfolioId, stockId, undefined, from);
+  }
+}
+
+/**
+ * Refuse a bulk operation that leaves a SELL's lot allocation pointing at a lot it moved,
+ * re-tagged or deleted: every allocated SELL in the touched stocks is validated as it now stands.
+ */
+async function validateTouchedAllocations(userId: number, touched: TouchedStocks) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  for (const { portfolioId, stockId } of Array.from(touched.values())) {
+    const sells = await db
+      .select()
+      .from(transactions)
+      .where(
+        and(
+          eq(transactions.userId, userId),
+          eq(transactions.portfolioId, portfolioId),
+          eq(transactions.stockId, stockId),
+          eq(transactions.type, "SELL"),
+          isNotNull(transactions.lotAllocation),
+          notDeleted
+        )
+      );
+    for (const sell of sells) {
+      if (!sell.lotAllocation || sell.lotAllocation.length === 0) continue;
+      try {
+        await validateLotAllocation(userId, portfolioId, stockId, sell.type, sell.quantity, sell.lotAllocation);
+      } catch (error) {
+        throw new Error(`The sale on ${sell.date} (#${sell.id}): ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+}
+
+function touch(
+  touched: TouchedStocks,
+  { portfolioId, stockId, date }: { portfolioId: number; stockId: number; date: string }
+) {
+  const key = `${portfolioId}:${stockId}`;
+  const entry = touched.get(key);
+  if (!entry) touched.set(key, { portfolioId, stockId, from: date });
+  else if (date < entry.from) entry.from = date;
+}
+
+/**
+ * Apply one change to many transactions in a single database transaction: every row changes
+ * or none does. A change that leaves a sale with more shares than were held, or a changed sale
+ * below average cost, refuses the whole batch unless `confirmOverride` is set. So does moving or
+ * re-tagging a lot that a sale's lot allocation names.
+ */
+export async function bulkUpdateTransactions(userId: number, ids: number[], change: BulkChange, confirmOverride = false) {
+  return inTransaction(async (db) => {
+    try {
+      if (change.stockId !== undefined && !(await getStockById(change.stockId))) throw new Error("Stock not found");
+      const target = change.portfolioId !== undefined ? await getPortfolio(userId, change.portfolioId) : undefined;
+      const rows = await lockForBulk(userId, ids, change.stockId !== undefined ? [change.stockId] : []);
+
+      const touched: TouchedStocks = new Map();
+      for (const txn of rows) {
+        const values = applyBulkChange(txn, change);
+        const source = await getPortfolio(userId, txn.portfolioId);
+        assertPeriodOpen(source, txn.date);
+        assertPeriodOpen(target ?? source, values.date);
+
+        const [updated] = await db
+          .update(transactions)
+          .set({ ...values, updatedAt: new Date() })
+          .where(eq(transactions.id, txn.id))
+          .returning();
+        await recordRevision(userId, txn.id, "UPDATE", txn, updated);
+        touch(touched, txn);
+        touch(touched, updated);
+      }
+      if (!confirmOverride) {
+        for (const { portfolioId, stockId, from } of Array.from(touched.values())) {
+          await checkHistoryWarnings(userId, portfolioId, stockId, from, ids);
+        }
+      }
+      await validateTouchedAllocations(userId, touched);
+
+      await recomputeTouched(userId, touched);
+      return rows.length;
+    } catch (error) {
+      if (error instanceof TradeWarningError || error instanceof PeriodLockedError) throw error;
+      console.error(`[DB] Failed to bulk update transactions:`, error);
+      throw new Error(`Failed to update transactions: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+}
+
+/**
+ * Delete many transactions in a single database transaction. As with single deletes, rows are
+ * only marked deleted, and both halves of a transfer go together. Deleting a lot that a sale's
+ * lot allocation names refuses the batch.
+ */
+export async function bulkDeleteTransactions(userId: number, ids: number[]) {
+  return inTransaction(async (db) => {
+    try {
+      // The other halves of transfers are found first, so every row is locked in one pass
+      const selected = await db
+        .select({ transferOutId: transactions.transferOutId })
+        .from(transactions)
+        .where(and(inArray(transactions.id, ids), eq(transactions.userId, userId), notDeleted));
+      const peers = await db
+        .select({ id: transactions.id })
+        .from(transactions)
+        .where(
+          and(
+            eq(transactions.userId, userId),
+            or(
+              inArray(transactions.id, selected.flatMap((t) => (t.transferOutId ? [t.transferOutId] : []))),
+              inArray(transactions.transferOutId, ids)
+            ),
+            notInArray(transactions.id, ids),
+            notDeleted
+          )
+        );
+      const rows = await lockForBulk(userId, [...ids, ...peers.map((p) => p.id)]);
+
+      const touched: TouchedStocks = new Map();
+      for (const txn of rows) {
+        assertPeriodOpen(await getPortfolio(userId, txn.portfolioId), txn.date);
+        touch(touched, txn);
+      }
+
+      const deletedAt = new Date();
+      await db
+        .update(transactions)
+        .set({ deletedAt, updatedAt: deletedAt })
+        .where(inArray(transactions.id, rows.map((t) => t.id)));
+      for (const txn of rows) {
+        await recordRevision(userId, txn.id, "DELETE", txn, null);
+      }
+      await validateTouchedAllocations(userId, touched);
+
+      await recomputeTouched(userId, touched);
+      return rows.length;
+    } catch (error) {
+      if (error instanceof PeriodLockedError) throw error;
+      console.error(`[DB] Failed to bulk delete transactions:`, error);
+      throw new Error(`Failed to delete transactions: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+}
+
+/**
+ * Move shares between two of the user's portfolios: a TRANSFER_OUT in the sending portfolio
+ * and a linked TRANSFER_IN in the receiving one, which inherits the lots (cost and
+ * acquisition dates) the TRANSFER_OUT relieves. Nothing is realized.
+ */
+export async function addTransfer(
+  userId: number,
+  fromPortfolioId: number,
+  toPortfolioId: number,
+  stockId: number,
+  date: Date,
+  quantity: string,
+  notes?: string,
+  confirmOverride = false
+) {
+  if (fromPortfolioId === toPortfolioId) {
+    throw new Error("Transfers need two different portfolios");
+  }
+  await getPortfolio(userId, toPortfolioId);
+
+  // Both halves are written together or not at all
+  await inTransaction(async () => {
+    const out = await addTransaction(userId, fromPortfolioId, stockId, "TRANSFER_OUT", date, quantity, "0", notes, null, undefined, undefined, undefined, confirmOverride);
+    await addTransaction(userId, toPortfolioId, stockId, "TRANSFER_IN", date, quantity, "0", notes, null, undefined, undefined, out.id);
+  });
+}
+
+/**
+ * A TRANSFER_OUT in another of the user's portfolios that has no TRANSFER_IN yet and matches
+ * the stock, date and quantity. Used to pair transfers imported one account at a time.
+ */
+export async function findUnmatchedTransferOut(
+  userId: number,
+  portfolioId: number,
+  stockId: number,
+  date: Date,
+  quantity: string
+) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const outs = await db
+    .select()
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.userId, userId),
+        eq(transactions.stockId, stockId),
+        eq(transactions.type, "TRANSFER_OUT"),
+        eq(transactions.date, date.toISOString().split("T")[0]),
+        sql`${transactions.portfolioId} <> ${portfolioId}`,
+        sql`${transactions.quantity}::numeric = ${quantity}::numeric`,
+        sql`NOT EXISTS (SELECT 1 FROM "transactions" t WHERE t."transferOutId" = ${transactions.id} AND t."deletedAt" IS NULL)`,
+        notDeleted
+      )
+    )
+    .orderBy(asc(transactions.id))
+    .limit(1);
+  return outs[0] ?? null;
+}
+
+/**
+ * Replay one stock's transactions in a portfolio, and its corporate actions, into its position and lot ledger.
+ * With `before`, only events strictly before that date are replayed, and `excludeId` leaves one
+ * transaction out. With `start`, the replay picks up from that snapshot and only events after its
+ * date are replayed; the ledger then lists just the lots open at the snapshot and those opened since.
+ * Conversions into the stock, and demergers out of a parent, replay the source stock up to the
+ * ex-date to pick up its lots. A full replay also returns a checkpoint for every month-end it passes,
+ * and every replay returns the warnings each disposal raised against the position just before it.
+ */
+async function replayStock(
+  userId: number,
+  portfolioId: number,
+  stockId: number,
+  before?: string,
+  excludeId?: number,
+  start?: Pick<PositionSnapshot, "date" | "position" | "grossPosition">
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [settings] = await db.select().from(userSettings).where(eq(userSettings.userId, userId)).limit(1);
+  const tradingWindowDays = settings?.tradingWindowDays ?? 1;
+  const costBasisMethod = settings?.costBasisMethod ?? "AVERAGE";
+  const calendar = tradingCalendar(settings?.marketHolidays);
+  const portfolio = await getPortfolio(userId, portfolioId);
+
+  const txns = await db
+    .select()
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.stockId, stockId),
+        eq(transactions.userId, userId),
+        eq(transactions.portfolioId, portfolioId),
+        before !== undefined ? lt(transactions.date, before) : undefined,
+        excludeId !== undefined ? ne(transactions.id, excludeId) : undefined,
+        start ? gt(transactions.date, start.date) : undefined,
+        notDeleted
+      )
+    )
+    .orderBy(...replayOrder);
+  const actions = (await getCorporateActions(userId, stockId)).filter(
+    (a) => (before === undefined || a.effectiveDate < before) && (!start || a.effectiveDate > start.date)
+  );
+
+  const restored = start ? restorePosition(start.position) : null;
+  const position = restored?.position ?? emptyPosition();
+  // The same replay without charges, kept for the gross figures in reports
+  const gross = start ? restorePosition(start.grossPosition).position : emptyPosition();
+  // Every lot ever opened, kept after it is fully consumed so the ledger can show it
+  const ledger: LedgerEntry[] = restored?.ledger ?? [];
+  let open = [...ledger];
+  const closeLots = (date: string) => {
+    open = open.filter(({ lot }) => {
+      if (lot.quantity.greaterThan(0)) return true;
+      lot.closedDate = date;
+      return false;
+    });
+  };
+  const openLot = (entry: LedgerEntry) => {
+    ledger.push(entry);
+    open.push(entry);
+  };
+
+  // Corporate actions take effect before any trade on their ex-date
+  let nextAction = 0;
+  const applyActionsThrough = async (date: string) => {
+    while (nextAction < actions.length && actions[nextAction].effectiveDate <= date) {
+      const action = actions[nextAction++];
+      if (!action.targetStockId) {
+        position.state = applyCorporateAction(position.state, action, position.recentBuys);
+        gross.state = applyCorporateAction(gross.state, action, gross.recentBuys);
+      } else if (action.stockId === stockId) {
+        // Converted out lots stay in this stock's ledger, closed without a disposal
+        moveToTargetStock(position, emptyPosition(), action);
+        moveToTargetStock(gross, emptyPosition(), action);
+      } else {
+        const source = await replayStock(userId, portfolioId, action.stockId, action.effectiveDate);
+        const sourceTxn = new Map(source.ledger.map(({ txn, lot }) => [lot, txn]));
+        for (const [from, to] of moveToTargetStock(source.position, position, action)) {
+          openLot({ txn: sourceTxn.get(from)!, lot: to });
+        }
+        moveToTargetStock(source.gross, gross, action);
+      }
+      closeLots(action.effectiveDate);
+    }
+  };
+
+  // Month-end checkpoints are only taken by a full replay of the stock's history
+  const checkpoints: InsertPositionSnapshot[] = [];
+  const takeCheckpoints = before === undefined && excludeId === undefined;
+  let nextCheckpoint = start ? monthEnd(subtractDays(start.date, -1)) : null;
+  const checkpointThrough = async (date: string) => {
+    nextCheckpoint ??= monthEnd(actions.length > 0 && actions[0].effectiveDate < date ? actions[0].effectiveDate : date);
+    while (takeCheckpoints && nextCheckpoint < date) {
+      await applyActionsThrough(nextCheckpoint);
+      checkpoints.push({
+        userId,
+        portfolioId,
+        stockId,
+        date: nextCheckpoint,
+        position: snapshotPosition(position, open),
+        grossPosition: snapshotPosition(gross),
+      });
+      nextCheckpoint = monthEnd(subtractDays(nextCheckpoint, -1));
+    }
+  };
+
+  const warnings: { txn: Transaction; warnings: TradeWarning[] }[] = [];
+  for (const txn of txns) {
+    await checkpointThrough(txn.date);
+    await applyActionsThrough(txn.date);
+    const raised = tradeWarnings(position.state, txn, portfolio.allowShortSelling);
+    if (raised.length > 0) warnings.push({ txn, warnings: raised });
+    position.state = processTransaction(
+      position.state,
+      txn,
+      position.recentBuys,
+      tradingWindowDays,
+      costBasisMethod,
+      portfolio.allowShortSelling,
+      calendar
+    );
+    gross.state = processTransaction(
+      gross.state,
+      withoutFees(txn),
+      gross.recentBuys,
+      tradingWindowDays,
+      costBasisMethod,
+      portfolio.allowShortSelling,
+      calendar
+    );
+    const opened = position.recentBuys[position.recentBuys.length - 1];
+    if (isAcquisition(txn.type)) {
+      // A buy that only covers a short opens no lot
+      if (opened?.transactionId === txn.id) openLot({ txn, lot: opened });
+    } else if (txn.type === "TRANSFER_IN" || txn.type === "TRANSFER_OUT") {
+      // A transfer in opens one lot per lot it carries; a transfer out lists the shares no lot covered
+      for (const lot of position.recentBuys) {
+        if (lot.transactionId === txn.id) openLot({ txn, lot });
+      }
+    }
+    closeLots(txn.date);
+  }
+  const end = before ?? new Date().toISOString().split("T")[0];
+  await checkpointThrough(end);
+  await applyActionsThrough(end);
+
+  return { position, gross, ledger, actions, txns, checkpoints, warnings };
+}
+
+/**
+ * The latest snapshot of a stock's position in a portfolio taken before a date.
+ */
+async function getSnapshotBefore(userId: number, portfolioId: number, stockId: number, date: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [snapshot] = await db
+    .select()
+    .from(positionSnapshots)
+    .where(
+      and(
+        eq(positionSnapshots.userId, userId),
+        eq(positionSnapshots.portfolioId, portfolioId),
+        eq(positionSnapshots.stockId, stockId),
+        lt(positionSnapshots.date, date)
+      )
+    )
+    .orderBy(desc(positionSnapshots.date))
+    .limit(1);
+  return snapshot;
+}
+
+/**
+ * Replay a stock in a portfolio and persist its aggregate, lot ledger and snapshots. With `from`,
+ * the first date whose events changed, the replay starts from the latest snapshot before it.
+ * The stock is locked for the rest of the transaction, so concurrent recomputes cannot interleave.
+ */
+export async function recomputeAggregates(
+  userId: number,
+  portfolioId: number,
+  stockId: number,
+  recomputed = new Set<string>(),
+  from?: string
+) {
+  return inTransaction(async (db) => {
+    await lockStock(userId, stockId);
+    recomputed.add(`${portfolioId}:${stockId}`);
+    const start = from !== undefined ? await getSnapshotBefore(userId, portfolioId, stockId, from) : undefined;
+    const { position, ledger, actions, txns, checkpoints } = await replayStock(
+      userId,
+      portfolioId,
+      stockId,
+      undefined,
+      undefined,
+      start
+    );
+    const state = position.state;
+
+    const existingAggregate = await db
+      .select()
+      .from(stockAggregates)
+      .where(
+        and(
+          eq(stockAggregates.stockId, stockId),
+          eq(stockAggregates.userId, userId),
+          eq(stockAggregates.portfolioId, portfolioId)
+        )
+      )
+      .limit(1);
+
+    const aggregateValues = {
+      // At the column's scale, so part shares left by a split or bonus ratio are kept
+      totalShares: state.totalShares.toFixed(8),
+      totalInvested: state.totalInvested.toFixed(2),
+      avgCost: state.avgCost.toFixed(4),
+      realizedProfit: state.realizedProfit.toFixed(4),
+    };
+
+    try {
+      if (existingAggregate.length === 0) {
+        await db.insert(stockAggregates).values({
+          userId,
+          portfolioId,
+          stockId,
+          ...aggregateValues,
+        });
+      } else {
+        await db
+          .update(stockAggregates)
+          .set({
+            ...aggregateValues,
+            updatedAt: new Date(),
+          })
+          .where(eq(stockAggregates.id, existingAggregate[0].id));
+      }
+    } catch (error) {
+      console.error(`[DB] Failed to update stockAggregates:`, error);
+      throw new Error(`Failed to update stock aggregates`);
+    }
+
+    try {
+      await replaceLots(userId, portfolioId, stockId, ledger, start?.date);
+    } catch (error) {
+      console.error(`[DB] Failed to update lots:`, error);
+      throw new Error(`Failed to update lots`);
+    }
+
+    try {
+      await replaceSnapshots(userId, portfolioId, stockId, checkpoints, start?.date);
+    } catch (error) {
+      console.error(`[DB] Failed to update position snapshots:`, error);
+      throw new Error(`Failed to update position snapshots`);
+    }
+
+    // Stocks this one was converted or demerged into carry its cost basis, so they follow any change here
+    for (const action of actions) {
+      if (action.stockId === stockId && action.targetStockId && !recomputed.has(`${portfolioId}:${action.targetStockId}`)) {
+        await recomputeAggregates(
+          userId,
+          portfolioId,
+          action.targetStockId,
+          recomputed,
+          from !== undefined ? action.effectiveDate : undefined
+        );
+      }
+    }
+
+    await syncTransfers(userId, txns, ledger, recomputed);
+  });
+}
+
+/**
+ * Hand the lots each TRANSFER_OUT moved to the TRANSFER_IN it is linked to, and recompute the
+ * receiving portfolio when they changed. TRANSFER_OUT rows record the cost basis they moved.
+ */
+async function syncTransfers(
+  userId: number,
+  txns: Transaction[],
+  ledger: LedgerEntry[],
+  recomputed: Set<string>
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const transfersOut = txns.filter((t) => t.type === "TRANSFER_OUT");
+  if (transfersOut.length === 0) return;
+
+  const carried = new Map<number, TransferLot[]>();
+  for (const { lot } of ledger) {
+    for (const moved of lot.transfers ?? []) {
+      const lots = carried.get(moved.transactionId) ?? [];
+      lots.push({ acquiredDate: lot.date, quantity: moved.quantity.toFixed(8), unitCost: moved.unitCost.toFixed(8) });
+      carried.set(moved.transactionId, lots);
+    }
+  }
+
+  const sameLots = (a: TransferLot[] | null, b: TransferLot[]) =>
+    !!a &&
+    a.length === b.length &&
+    a.every((lot, i) => lot.acquiredDate === b[i].acquiredDate && lot.quantity === b[i].quantity && lot.unitCost === b[i].unitCost);
+
+  for (const out of transfersOut) {
+    const transferLots = (carried.get(out.id) ?? []).sort((a, b) => a.acquiredDate.localeCompare(b.acquiredDate));
+    const cost = transferLots
+      .reduce((sum, lot) => sum.plus(new Decimal(lot.quantity).times(lot.unitCost)), new Decimal(0))
+      .toFixed(CURRENCY_PRECISION);
+
+    if (out.totalAmount !== cost) {
+      await db.update(transactions).set({ totalAmount: cost }).where(eq(transactions.id, out.id));
+    }
+
+    const transfersIn = await db.select().from(transactions).where(and(eq(transactions.transferOutId, out.id), notDeleted));
+    for (const transferIn of transfersIn) {
+      // Only changes are propagated, so transfers back and forth settle instead of looping
+      if (transferIn.totalAmount === cost && sameLots(transferIn.transferLots, transferLots)) continue;
+      await db
+        .update(transactions)
+        .set({ totalAmount: cost, transferLots, updatedAt: new Date() })
+        .where(eq(transactions.id, transferIn.id));
+      await recomputeAggregates(userId, transferIn.portfolioId, transferIn.stockId, recomputed, transferIn.date);
+    }
+  }
+}
+
+/**
+ * Rewrite the persisted lot ledger for a stock in a portfolio from a fresh replay. A replay that
+ * started from a snapshot taken on `after` leaves the lots closed by then in place.
+ */
+async function replaceLots(
+  userId: number,
+  portfolioId: number,
+  stockId: number,
+  ledger: LedgerEntry[],
+  after?: string
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  // Disposals cascade with their lots
+  await db
+    .delete(lots)
+    .where(
+      and(
+        eq(lots.userId, userId),
+        eq(lots.portfolioId, portfolioId),
+        eq(lots.stockId, stockId),
+        after !== undefined ? or(isNull(lots.closedDate), gt(lots.closedDate, after)) : undefined
+      )
+    );
+  if (ledger.length === 0) return;
+
+  const inserted = await db
+    .insert(lots)
+    .values(
+      ledger.map(({ txn, lot }) => ({
+        userId,
+        portfolioId,
+        stockId,
+        buyTransactionId: txn.id,
+        acquiredDate: lot.date,
+        originalQuantity: (lot.initialQuantity ?? new Decimal(txn.quantity ?? 0)).times(lot.splitFactor ?? 1).toFixed(8),
+        openQuantity: lot.quantity.toFixed(8),
+        unitCost: lot.unitPrice.toFixed(8),
+        openCost: lot.quantity.times(lot.unitPrice).toFixed(CURRENCY_PRECISION),
+        closedDate: lot.closedDate ?? null,
+      }))
+    )
+    .returning({ id: lots.id });
+
+  // Rows come back in insert order; a transfer can open several lots under one transaction
+  const disposals = ledger.flatMap(({ lot }, i) =>
+    (lot.disposals ?? []).map((d) => ({
+      userId,
+      lotId: inserted[i].id,
+      sellTransactionId: d.sellTransactionId,
+      disposedDate: d.date,
+      quantity: d.quantity.toFixed(8),
+      costBasis: d.cost.toFixed(CURRENCY_PRECISION),
+      proceeds: d.proceeds.toFixed(CURRENCY_PRECISION),
+    }))
+  );
+
+  if (disposals.length > 0) {
+    await db.insert(lotDisposals).values(disposals);
+  }
+}
+
+/**
+ * Replace the snapshots of a stock in a portfolio taken after `after` (all of them without it)
+ * with the checkpoints of a fresh replay.
+ */
+async function replaceSnapshots(
+  userId: number,
+  portfolioId: number,
+  stockId: number,
+  checkpoints: InsertPositionSnapshot[],
+  after?: string
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .delete(positionSnapshots)
+    .where(
+      and(
+        eq(positionSnapshots.userId, userId),
+        eq(positionSnapshots.portfolioId, portfolioId),
+        eq(positionSnapshots.stockId, stockId),
+        after !== undefined ? gt(positionSnapshots.date, after) : undefined
+      )
+    );
+  if (checkpoints.length > 0) {
+    await db.insert(positionSnapshots).values(checkpoints);
+  }
+}
+
+/**
+ * Lots for a stock, oldest first, each with the disposals that consumed it.
+ * Without portfolioId, the lots of every portfolio are listed together.
+ */
+export async function getLotsByStockId(userId: number, stockId: number, portfolioId?: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const lotRows = await db
+    .select()
+    .from(lots)
+    .where(
+      and(
+        eq(lots.userId, userId),
+        eq(lots.stockId, stockId),
+        portfolioId !== undefined ? eq(lots.portfolioId, portfolioId) : undefined
+      )
+    )
+    .orderBy(asc(lots.acquiredDate), asc(lots.id));
+  if (lotRows.length === 0) return [];
+
+  const disposalRows = await db
+    .select()
+    .from(lotDisposals)
+    .where(inArray(lotDisposals.lotId, lotRows.map((l) => l.id)))
+    .orderBy(asc(lotDisposals.disposedDate), asc(lotDisposals.id));
+
+  return lotRows.map((lot) => ({
+    ...lot,
+    disposals: disposalRows.filter((d) => d.lotId === lot.id),
+  }));
+}
+
+/**
+ * Every disposal the user has made, with the acquisition date and symbol of the lot it came from.
+ * Without portfolioId, disposals from every portfolio are included.
+ */
+export async function getDisposalsForUser(userId: number, portfolioId?: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select({
+      id: lotDisposals.id,
+      stockId: lots.stockId,
+      stockSymbol: stocks.symbol,
+      sellTransactionId: lotDisposals.sellTransactionId,
+      acquiredDate: lots.acquiredDate,
+      disposedDate: lotDisposals.disposedDate,
+      quantity: lotDisposals.quantity,
+      costBasis: lotDisposals.costBasis,
+      proceeds: lotDisposals.proceeds,
+    })
+    .from(lotDisposals)
+    .innerJoin(lots, eq(lotDisposals.lotId, lots.id))
+    .innerJoin(stocks, eq(lots.stockId, stocks.id))
+    .where(
+      and(
+        eq(lotDisposals.userId, userId),
+        portfolioId !== undefined ? eq(lots.portfolioId, portfolioId) : undefined
+      )
+    )
+    .orderBy(asc(lotDisposals.disposedDate), asc(lotDisposals.id));
+}
+
+function subtractDays(dateStr: string, days: number): string {
+  const d = new Date(dateStr + "T00:00:00Z");
+  d.setUTCDate(d.getUTCDate() - days);
+  return d.toISOString().split("T")[0];
+}
+
+/**
+ * One consumption of a lot by a SELL, recorded on the lot as sells are replayed.
+ */
+export type LotConsumption = {
+  sellTransactionId: number;
+  date: string;
+  quantity: Decimal;
+  cost: Decimal;
+  proceeds: Decimal;
+};
+
+/**
+ * Shares moved out of a lot by a TRANSFER_OUT, with the cost per share they take along.
+ */
+export type LotTransfer = {
+  transactionId: number;
+  quantity: Decimal;
+  unitCost: Decimal;
+};
+
+/**
+ * An open buy lot. `quantity` is what remains open and is relieved in place.
+ */
+export type RecentBuy = {
+  transactionId?: number;
+  date: string;
+  quantity: Decimal;
+  unitPrice: Decimal;
+  disposals?: LotConsumption[];
+  transfers?: LotTransfer[];
+  splitFactor?: Decimal; // cumulative split/bonus multiplier applied while the lot was open
+  initialQuantity?: Decimal; // lots carried in by a transfer, or left after a buy covers a short, open with less than the transaction's quantity
+  closedDate?: string; // set by replayStock on the date the last share leaves
+};
+
+/**
+ * A lot in a stock's lot ledger, with the transaction it is listed under.
+ */
+export type LedgerEntry = { txn: Pick<Transaction, "id" | "quantity">; lot: RecentBuy };
+
+/**
+ * How many shares each share held before a corporate action becomes.
+ */
+export function corporateActionFactor(action: Pick<CorporateAction, "type" | "ratioNew" | "ratioOld">) {
+  // Rights only change the holding once subscribed, through their own transactions
+  if (action.type === "RIGHTS") return new Decimal(1);
+  const ratio = new Decimal(action.ratioNew).dividedBy(action.ratioOld);
+  return action.type === "BONUS" ? ratio.plus(1) : ratio;
+}
+
+/**
+ * Apply a split or bonus issue: the share count grows, total cost is unchanged,
+ * and every open lot is rescaled in place so lot matching keeps working.
+ */
+export function applyCorporateAction(
+  state: ReturnType<typeof processTransaction>,
+  action: Pick<CorporateAction, "type" | "ratioNew" | "ratioOld">,
+  recentBuys: RecentBuy[] = []
+) {
+  const factor = corporateActionFactor(action);
+  for (const lot of recentBuys) {
+    lot.quantity = lot.quantity.times(factor);
+    lot.unitPrice = lot.unitPrice.dividedBy(factor);
+    lot.splitFactor = (lot.splitFactor ?? new Decimal(1)).times(factor);
+  }
+
+  return {
+    ...state,
+    totalShares: state.totalShares.times(factor),
+    avgCost: state.avgCost.dividedBy(factor),
+  };
+}
+
+/**
+ * A stock's running position during a replay: the aggregate state plus its open lots.
+ */
+export type StockPosition = {
+  state: ReturnType<typeof processTransaction>;
+  recentBuys: RecentBuy[];
+};
+
+/**
+ * Last day of the month a date falls in; position snapshots are taken at month-ends.
+ */
+export function monthEnd(dateStr: string) {
+  const d = new Date(dateStr + "T00:00:00Z");
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).toISOString().split("T")[0];
+}
+
+/**
+ * The latest month-end strictly before a date.
+ */
+export function checkpointBefore(dateStr: string) {
+  return subtractDays(dateStr.slice(0, 8) + "01", 1);
+}
+
+/**
+ * Save a position and its open lots for a snapshot. With the ledger, each lot also records the
+ * transaction it is listed under so the lot ledger can be rewritten from the snapshot.
+ */
+export function snapshotPosition(position: StockPosition, ledger?: LedgerEntry[]): SnapshotPosition {
+  const listedUnder = new Map(ledger?.map(({ txn, lot }) => [lot, txn]));
+  return {
+    totalShares: position.state.totalShares.toString(),
+    totalInvested: position.state.totalInvested.toString(),
+    avgCost: position.state.avgCost.toString(),
+    realizedProfit: position.state.realizedProfit.toString(),
+    lots: position.recentBuys
+      .filter((lot) => lot.quantity.greaterThan(0))
+      .map((lot) => ({
+        buyTransactionId: listedUnder.get(lot)?.id,
+        buyQuantity: listedUnder.get(lot)?.quantity,
+        transactionId: lot.transactionId,
+        date: lot.date,
+        quantity: lot.quantity.toString(),
+        unitPrice: lot.unitPrice.toString(),
+        disposals: (lot.disposals ?? []).map((d) => ({
+          sellTransactionId: d.sellTransactionId,
+          date: d.date,
+          quantity: d.quantity.toString(),
+          cost: d.cost.toString(),
+          proceeds: d.proceeds.toString(),
+        })),
+        transfers: (lot.transfers ?? []).map((t) => ({
+          transactionId: t.transactionId,
+          quantity: t.quantity.toString(),
+          unitCost: t.unitCost.toString(),
+        })),
+        splitFactor: lot.splitFactor?.toString(),
+        initialQuantity: lot.initialQuantity?.toString(),
+      })),
+  };
+}
+
+/**
+ * Rebuild a position saved by snapshotPosition, with the ledger entries of its open lots.
+ */
+export function restorePosition(snapshot: SnapshotPosition): { position: StockPosition; ledger: LedgerEntry[] } {
+  const ledger: LedgerEntry[] = [];
+  const recentBuys = snapshot.lots.map((saved) => {
+    const lot: RecentBuy = {
+      transactionId: saved.transactionId,
+      date: saved.date,
+      quantity: new Decimal(saved.quantity),
+      unitPrice: new Decimal(saved.unitPrice),
+      disposals: saved.disposals.map((d) => ({
+        sellTransactionId: d.sellTransactionId,
+        date: d.date,
+        quantity: new Decimal(d.quantity),
+        cost: new Decimal(d.cost),
+        proceeds: new Decimal(d.proceeds),
+      })),
+      transfers: saved.transfers.map((t) => ({
+        transactionId: t.transactionId,
+        quantity: new Decimal(t.quantity),
+        unitCost: new Decimal(t.unitCost),
+      })),
+      splitFactor: saved.splitFactor !== undefined ? new Decimal(saved.splitFactor) : undefined,
+      initialQuantity: saved.initialQuantity !== undefined ? new Decimal(saved.initialQuantity) : undefined,
+    };
+    if (saved.buyTransactionId !== undefined) {
+      ledger.push({ txn: { id: saved.buyTransactionId, quantity: saved.buyQuantity ?? null }, lot });
+    }
+    return lot;
+  });
+
+  return {
+    position: {
+      state: {
+        totalShares: new Decimal(snapshot.totalShares),
+        totalInvested: new Decimal(snapshot.totalInvested),
+        avgCost: new Decimal(snapshot.avgCost),
+        realizedProfit: new Decimal(snapshot.realizedProfit),
+      },
+      recentBuys,
+    },
+    ledger,
+  };
+}
+
+export function emptyPosition(): StockPosition {
+  return {
+    state: {
+      totalShares: new Decimal(0),
+      totalInvested: new Decimal(0),
+      avgCost: new Decimal(0),
+      realizedProfit: new Decimal(0),
+    },
+    recentBuys: [],
+  };
+}
+
+/**
+ * Open a lot in the target for every open source lot, at `factor` target shares per source share
+ * and carrying `costFraction` of its cost, with the acquisition date unchanged.
+ * Returns each source lot paired with the lot it produced in the target.
+ */
+function carryLots(source: StockPosition, target: StockPosition, factor: Decimal, costFraction: Decimal) {
+  const moved: Array<[RecentBuy, RecentBuy]> = [];
+
+  for (const lot of source.recentBuys) {
+    if (lot.quantity.lessThanOrEqualTo(0)) continue;
+    const carried: RecentBuy = {
+      transactionId: lot.transactionId,
+      date: lot.date,
+      quantity: lot.quantity.times(factor),
+      unitPrice: lot.unitPrice.times(costFraction).dividedBy(factor),
+      disposals: [],
+      splitFactor: (lot.splitFactor ?? new Decimal(1)).times(factor),
+      initialQuantity: lot.initialQuantity,
+    };
+    target.recentBuys.push(carried);
+    moved.push([lot, carried]);
+  }
+  // Lot matching walks lots oldest first
+  target.recentBuys.sort((a, b) => a.date.localeCompare(b.date));
+
+  const totalShares = target.state.totalShares.plus(source.state.totalShares.times(factor));
+  const totalInvested = target.state.totalInvested.plus(source.state.totalInvested.times(costFraction));
+  target.state = {
+    ...target.state,
+    totalShares,
+    totalInvested,
+    avgCost: totalShares.isZero() ? new Decimal(0) : totalInvested.dividedBy(totalShares),
+  };
+
+  return moved;
+}
+
+/**
+ * Apply a conversion: the whole source holding leaves without realizing anything and arrives
+ * in the target at the conversion ratio, with its total cost and acquisition dates unchanged.
+ * Returns each source lot paired with the lot it became in the target.
+ */
+export function convertPosition(
+  source: StockPosition,
+  target: StockPosition,
+  action: Pick<CorporateAction, "ratioNew" | "ratioOld">
+) {
+  const moved = carryLots(source, target, new Decimal(action.ratioNew).dividedBy(action.ratioOld), new Decimal(1));
+
+  for (const lot of source.recentBuys) lot.quantity = new Decimal(0);
+  source.recentBuys.length = 0;
+  source.state = {
+    ...source.state,
+    totalShares: new Decimal(0),
+    totalInvested: new Decimal(0),
+    avgCost: new Decimal(0),
+  };
+
+  return moved;
+}
+
+/**
+ * Apply a demerger: the parent keeps its shares and the child's shares are issued alongside,
+ * with costPercent of the parent's cost (lot by lot) moving to the child. Nothing is realized.
+ * Returns each parent lot paired with the child lot it produced.
+ */
+export function demergePosition(
+  parent: StockPosition,
+  child: StockPosition,
+  action: Pick<CorporateAction, "ratioNew" | "ratioOld" | "costPercent">
+) {
+  const costFraction = new Decimal(action.costPercent ?? 0).dividedBy(100);
+  const moved = carryLots(parent, child, new Decimal(action.ratioNew).dividedBy(action.ratioOld), costFraction);
+
+  const retained = new Decimal(1).minus(costFraction);
+  for (const lot of parent.recentBuys) lot.unitPrice = lot.unitPrice.times(retained);
+  parent.state = {
+    ...parent.state,
+    totalInvested: parent.state.totalInvested.times(retained),
+    avgCost: parent.state.avgCost.times(retained),
+  };
+
+  return moved;
+}
+
+/**
+ * Apply a conversion or demerger, which move holding from one stock into another.
+ */
+export function moveToTargetStock(
+  source: StockPosition,
+  target: StockPosition,
+  action: Pick<CorporateAction, "type" | "ratioNew" | "ratioOld" | "costPercent">
+) {
+  return action.type === "DEMERGER" ? demergePosition(source, target, action) : convertPosition(source, target, action);
+}
+
+/**
+ * Apply a corporate action to a replay of several stocks, keyed by stock id.
+ */
+export function applyCorporateActionToPositions(positions: Record<number, StockPosition>, action: CorporateAction) {
+  const position = (stockId: number) => (positions[stockId] ??= emptyPosition());
+  if (action.targetStockId) {
+    moveToTargetStock(position(action.stockId), position(action.targetStockId), action);
+  } else {
+    const target = position(action.stockId);
+    target.state = applyCorporateAction(target.state, action, target.recentBuys);
+  }
+}
+
+/**
+ * Transaction types that open a lot: ordinary buys and subscribed right shares.
+ */
+export function isAcquisition(type: Transaction["type"]) {
+  return type === "BUY" || type === "RIGHTS_SUBSCRIPTION";
+}
+
+export function processTransaction(
+  state: {
+    totalShares: Decimal;
+    totalInvested: Decimal;
+    avgCost: Decimal;
+    realizedProfit: Decimal;
+  },
+  txn: Transaction,
+  recentBuys: RecentBuy[] = [],
+  tradingWindowDays: number = 1,
+  costBasisMethod: CostBasisMethod = "AVERAGE",
+  allowShortSelling: boolean = false,
+  calendar: TradingCalendar = PSX_CALENDAR
+) {
+  const quantity = txn.quantity ? new Decimal(txn.quantity) : new Decimal(0);
+  const totalAmount = new Decimal(txn.totalAmount);
+  const fees = txn.type === "DIVIDEND" ? new Decimal(0) : transactionFees(txn);
+
+  if (isAcquisition(txn.type)) {
+    // Charges are part of the cost basis; subscribed rights are priced at the subscription price
+    const cost = totalAmount.plus(fees);
+
+    // With short selling, the shares first cover an open short: what the short sold for less
+    // what covering it cost is realized, and only the rest opens a long lot
+    const covered = allowShortSelling && state.totalShares.lessThan(0) ? Decimal.min(quantity, state.totalShares.negated()) : new Decimal(0);
+    const coverCost = covered.isZero() ? new Decimal(0) : cost.times(covered).dividedBy(quantity);
+    const shortBasis = state.avgCost.times(covered);
+    const longQuantity = quantity.minus(covered);
+
+    const newTotalShares = state.totalShares.plus(quantity);
+    const newTotalInvested = state.totalInvested.plus(shortBasis).plus(cost.minus(coverCost));
+    const newAvgCost = newTotalShares.isZero()
+      ? new Decimal(0)
+      : covered.greaterThan(0) && newTotalShares.lessThan(0)
+        ? state.avgCost
+        : newTotalInvested.dividedBy(newTotalShares);
+
+    const tradePrice = txn.unitPrice
+      ? new Decimal(txn.unitPrice)
+      : quantity.isZero()
+        ? new Decimal(0)
+        : totalAmount.dividedBy(quantity);
+    const unitPrice = quantity.isZero() ? tradePrice : tradePrice.plus(fees.dividedBy(quantity));
+    if (covered.isZero()) {
+      recentBuys.push({ transactionId: txn.id, date: txn.date, quantity, unitPrice, disposals: [] });
+    } else if (longQuantity.greaterThan(0)) {
+      recentBuys.push({
+        transactionId: txn.id,
+        date: txn.date,
+        quantity: longQuantity,
+        unitPrice,
+        disposals: [],
+        initialQuantity: longQuantity,
+      });
+    }
+
+    return {
+      totalShares: newTotalShares,
+      totalInvested: newTotalInvested,
+      avgCost: newAvgCost,
+      realizedProfit: state.realizedProfit.plus(shortBasis.minus(coverCost)),
+    };
+  } else if (txn.type === "SELL") {
+    // With short selling, only the shares held are matched to lots; the rest open a short
+    const sharesToSell = allowShortSelling ? Decimal.min(quantity, Decimal.max(state.totalShares, 0)) : quantity;
+    const shorted = quantity.minus(sharesToSell);
+    // Charges reduce what the sale actually realized
+    const netProceeds = totalAmount.minus(fees);
+    const proceeds = shorted.isZero() ? netProceeds : netProceeds.times(sharesToSell).dividedBy(quantity);
+    let remainingToSell = sharesToSell;
+    let costRemoved = new Decimal(0);
+
+    const relieve = (buy: RecentBuy, qty: Decimal, cost: Decimal) => {
+      buy.quantity = buy.quantity.minus(qty);
+      buy.disposals?.push({
+        sellTransactionId: txn.id,
+        date: txn.date,
+        quantity: qty,
+        cost,
+        proceeds: sharesToSell.isZero() ? new Decimal(0) : proceeds.times(qty).dividedBy(sharesToSell),
+      });
+    };
+
+    // Fully consumed lots are dropped; partially open ones stay for the ledger
+    for (let i = recentBuys.length - 1; i >= 0; i--) {
+      if (recentBuys[i].quantity.isZero()) recentBuys.splice(i, 1);
+    }
+
+    // A specific-lot allocation on the sell takes precedence over the method/window matching
+    for (const allocation of txn.lotAllocation ?? []) {
+      if (remainingToSell.lessThanOrEqualTo(0)) break;
+      const buy = recentBuys.find((b) => b.transactionId === allocation.buyTransactionId);
+      if (!buy || buy.quantity.lessThanOrEqualTo(0)) continue;
+      const qtyToMatch = Decimal.min(buy.quantity, new Decimal(allocation.quantity), remainingToSell);
+      const cost = qtyToMatch.times(buy.unitPrice);
+      costRemoved = costRemoved.plus(cost);
+      relieve(buy, qtyToMatch, cost);
+      remainingToSell = remainingToSell.minus(qtyToMatch);
+    }
+
+    // Under AVERAGE only buys within the window's trading sessions are matched at their own price
+    const cutoffDate = costBasisMethod === "AVERAGE" ? sessionWindowStart(txn.date, tradingWindowDays, calendar) : null;
+
+    // FIFO and AVERAGE (within the window) relieve the oldest lots first; LIFO the newest
+    const matchOrder = costBasisMethod === "LIFO" ? [...recentBuys].reverse() : recentBuys;
+    for (const buy of matchOrder) {
+      if (remainingToSell.lessThanOrEqualTo(0)) break;
+      if (cutoffDate && buy.date < cutoffDate) continue;
+      if (buy.quantity.greaterThan(0)) {
+        const qtyToMatch = Decimal.min(buy.quantity, remainingToSell);
+        const cost = qtyToMatch.times(buy.unitPrice);
+        costRemoved = costRemoved.plus(cost);
+        relieve(buy, qtyToMatch, cost);
+        remainingToSell = remainingToSell.minus(qtyToMatch);
+      }
+    }
+
+    // Remaining shares not matched to a lot use the running average cost
+    if (remainingToSell.greaterThan(0)) {
+      costRemoved = costRemoved.plus(state.avgCost.times(remainingToSell));
+
+      // Shares are fungible at the average, so they come out of the oldest open lots
+      for (const buy of recentBuys) {
+        if (remainingToSell.lessThanOrEqualTo(0)) break;
+        if (buy.quantity.greaterThan(0)) {
+          const qtyToRelieve = Decimal.min(buy.quantity, remainingToSell);
+          relieve(buy, qtyToRelieve, state.avgCost.times(qtyToRelieve));
+          remainingToSell = remainingToSell.minus(qtyToRelieve);
+        }
+      }
+    }
+
+    const realizedProfitThisTxn = proceeds.minus(costRemoved);
+    if (shorted.greaterThan(0)) {
+      // A short's basis is what it sold for: totalInvested goes negative and avgCost is the
+      // average price the open short was sold at
+      const newTotalShares = state.totalShares.minus(quantity);
+      const newTotalInvested = state.totalInvested.minus(costRemoved).minus(netProceeds.minus(proceeds));
+      return {
+        totalShares: newTotalShares,
+        totalInvested: newTotalInvested,
+        avgCost: newTotalInvested.dividedBy(newTotalShares),
+        realizedProfit: state.realizedProfit.plus(realizedProfitThisTxn),
+      };
+    }
+    const newTotalShares = state.totalShares.minus(sharesToSell);
+    const newTotalInvested = state.totalInvested.minus(costRemoved);
+    // Under AVERAGE a sell never moves the average; under FIFO/LIFO it is the cost of the lots left open
+    const newAvgCost = newTotalShares.isZero()
+      ? new Decimal(0)
+      : costBasisMethod === "AVERAGE"
+        ? state.avgCost
+        : newTotalInvested.dividedBy(newTotalShares);
+
+    return {
+      totalShares: newTotalShares,
+      totalInvested: newTotalInvested,
+      avgCost: newAvgCost,
+      realizedProfit: state.realizedProfit.plus(realizedProfitThisTxn),
+    };
+  } else if (txn.type === "DIVIDEND") {
+    return {
+      ...state,
+      realizedProfit: state.realizedProfit.plus(dividendNet(txn)),
+    };
+  } else if (txn.type === "RIGHTS_RENUNCIATION") {
+    // Rights cost nothing to receive, so what the letter of rights sold for is all profit
+    return {
+      ...state,
+      realizedProfit: state.realizedProfit.plus(totalAmount.minus(fees)),
+    };
+  } else if (txn.type === "TRANSFER_OUT") {
+    // The shares leave with their cost basis and acquisition dates; nothing is realized.
+    // FIFO/LIFO move lots at their own cost, AVERAGE moves the oldest lots at the average.
+    let remaining = quantity;
+    let costRemoved = new Decimal(0);
+    const matchOrder = costBasisMethod === "LIFO" ? [...recentBuys].reverse() : recentBuys;
+    for (const buy of matchOrder) {
+      if (remaining.lessThanOrEqualTo(0)) break;
+      if (buy.quantity.lessThanOrEqualTo(0)) continue;
+      const qtyToMove = Decimal.min(buy.quantity, remaining);
+      const unitCost = costBasisMethod === "AVERAGE" ? state.avgCost : buy.unitPrice;
+      buy.quantity = buy.quantity.minus(qtyToMove);
+      (buy.transfers ??= []).push({ transactionId: txn.id, quantity: qtyToMove, unitCost });
+      costRemoved = costRemoved.plus(qtyToMove.times(unitCost));
+      remaining = remaining.minus(qtyToMove);
+    }
+    // Shares not covered by a lot leave at the average cost, carried as a lot of their own dated
+    // at the transfer, so the receiving side gets every share the transfer moved
+    if (remaining.greaterThan(0)) {
+      recentBuys.push({
+        transactionId: txn.id,
+        date: txn.date,
+        quantity: new Decimal(0),
+        unitPrice: state.avgCost,
+        disposals: [],
+        transfers: [{ transactionId: txn.id, quantity: remaining, unitCost: state.avgCost }],
+        initialQuantity: remaining,
+      });
+      costRemoved = costRemoved.plus(state.avgCost.times(remaining));
+    }
+
+    const newTotalShares = state.totalShares.minus(quantity);
+    const newTotalInvested = state.totalInvested.minus(costRemoved);
+    return {
+      ...state,
+      totalShares: newTotalShares,
+      totalInvested: newTotalInvested,
+      avgCost: newTotalShares.isZero()
+        ? new Decimal(0)
+        : costBasisMethod === "AVERAGE"
+          ? state.avgCost
+          : newTotalInvested.dividedBy(newTotalShares),
+    };
+  } else if (txn.type === "TRANSFER_IN") {
+    // Carried lots keep the acquisition date and cost they had in the sending account, so the
+    // holding period runs on; a transfer from outside opens one lot at totalAmount
+    const carried: TransferLot[] = txn.transferLots?.length
+      ? txn.transferLots
+      : [{ acquiredDate: txn.date, quantity: quantity.toString(), unitCost: quantity.isZero() ? "0" : totalAmount.dividedBy(quantity).toString() }];
+
+    let cost = new Decimal(0);
+    let shares = new Decimal(0);
+    for (const lot of carried) {
+      const lotQuantity = new Decimal(lot.quantity);
+      const unitCost = new Decimal(lot.unitCost);
+      recentBuys.push({
+        transactionId: txn.id,
+        date: lot.acquiredDate,
+        quantity: lotQuantity,
+        unitPrice: unitCost,
+        disposals: [],
+        initialQuantity: lotQuantity,
+      });
+      cost = cost.plus(lotQuantity.times(unitCost));
+      shares = shares.plus(lotQuantity);
+    }
+    // Lot matching walks lots oldest first
+    recentBuys.sort((a, b) => a.date.localeCompare(b.date));
+
+    const newTotalShares = state.totalShares.plus(shares);
+    const newTotalInvested = state.totalInvested.plus(cost);
+    return {
+      ...state,
+      totalShares: newTotalShares,
+      totalInvested: newTotalInvested,
+      avgCost: newTotalShares.isZero() ? new Decimal(0) : newTotalInvested.dividedBy(newTotalShares),
+    };
+  }
+
+  return state;
+}
+
+export async function getUserSettings(userId: number): Promise<UserSettings | null> {
+  const db = await getDb();
+  if (!db) return null;
+  const [settings] = await db.select().from(userSettings).where(eq(userSettings.userId, userId)).limit(1);
+  return settings ?? null;
+}
+
+export async function upsertUserSettings(
+  userId: number,
+  patch: Partial<Pick<UserSettings, "tradingWindowDays" | "costBasisMethod" | "isFiler" | "cgtSlabs" | "marketHolidays">>
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const existing = await getUserSettings(userId);
+  if (existing) {
+    await db.update(userSettings).set({ ...patch, updatedAt: new Date() }).where(eq(userSettings.userId, userId));
+  } else {
+    await db.insert(userSettings).values({ userId, ...patch });
+  }
+}
+
+/**
+ * Recompute every aggregate the user has transactions for.
+ * Used when a setting that changes the accounting (e.g. cost-basis method) is switched.
+ */
+export async function recomputeAllAggregatesForUser(userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows = await db
+    .selectDistinct({ portfolioId: transactions.portfolioId, stockId: transactions.stockId })
+    .from(transactions)
+    .where(and(eq(transactions.userId, userId), notDeleted));
+
+  for (const { portfolioId, stockId } of rows) {
+    await recomputeAggregates(userId, portfolioId, stockId);
+  }
+
+  return rows.length;
+}
+
+export async function getFeeSchedules(userId: number): Promise<FeeSchedule[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return await db
+    .select()
+    .from(feeSchedules)
+    .where(eq(feeSchedules.userId, userId))
+    .orderBy(desc(feeSchedules.isDefault), asc(feeSchedules.brokerName));
+}
+
+export async function getDefaultFeeSchedule(userId: number): Promise<FeeSchedule | null> {
+  const schedules = await getFeeSchedules(userId);
+  return schedules.find(s => s.isDefault) ?? null;
+}
+
+/**
+ * Create or update a broker fee schedule. Marking one as default clears the flag on the others.
+ */
+export async function saveFeeSchedule(
+  userId: number,
+  schedule: Omit<InsertFeeSchedule, "userId" | "updatedAt"> & { id?: number }
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { id, ...values } = schedule;
+  if (values.isDefault) {
+    await db.update(feeSchedules).set({ isDefault: false }).where(eq(feeSchedules.userId, userId));
+  }
+
+  if (id) {
+    const [updated] = await db
+      .update(feeSchedules)
+      .set({ ...values, updatedAt: new Date() })
+      .where(and(eq(feeSchedules.id, id), eq(feeSchedules.userId, userId)))
+      .returning();
+    if (!updated) throw new Error("Fee schedule not found or unauthorized");
+    return updated;
+  }
+
+  const [created] = await db.insert(feeSchedules).values({ ...values, userId }).returning();
+  return created;
+}
+
+export async function deleteFeeSchedule(userId: number, id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(feeSchedules).where(and(eq(feeSchedules.id, id), eq(feeSchedules.userId, userId)));
+}
+
+/**
+ * Corporate actions in effective-date order, for one stock or (without stockId) all of the user's stocks.
+ * A stock's actions include conversions and demergers into it from another stock.
+ */
+export async function getCorporateActions(userId: number, stockId?: number): Promise<CorporateAction[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return await db
+    .select()
+    .from(corporateActions)
+    .where(
+      and(
+        eq(corporateActions.userId, userId),
+        stockId !== undefined
+          ? or(eq(corporateActions.stockId, stockId), eq(corporateActions.targetStockId, stockId))
+          : undefined
+      )
+    )
+    .orderBy(asc(corporateActions.effectiveDate), asc(corporateActions.id));
+}
+
+export async function addCorporateAction(
+  userId: number,
+  stockId: number,
+  type: CorporateAction["type"],
+  effectiveDate: Date,
+  ratioNew: string,
+  ratioOld: string,
+  notes?: string,
+  subscriptionPrice?: string,
+  targetStockId?: number,
+  costPercent?: string
+) {
+  return inTransaction(async (db) => {
+    if (new Decimal(ratioNew).lessThanOrEqualTo(0) || new Decimal(ratioOld).lessThanOrEqualTo(0)) {
+      throw new Error("Ratio terms must be positive");
+    }
+    if (type === "RIGHTS" && (!subscriptionPrice || new Decimal(subscriptionPrice).lessThan(0))) {
+      throw new Error("A rights issue needs a subscription price");
+    }
+    const movesHolding = type === "CONVERSION" || type === "DEMERGER";
+    if (movesHolding && (!targetStockId || targetStockId === stockId)) {
+      throw new Error(`A ${type === "DEMERGER" ? "demerger" : "conversion"} needs a different stock to move into`);
+    }
+    if (
+      type === "DEMERGER" &&
+      (!costPercent || new Decimal(costPercent).lessThanOrEqualTo(0) || new Decimal(costPercent).greaterThanOrEqualTo(100))
+    ) {
+      throw new Error("A demerger needs the percentage of cost moving to the child, between 0 and 100");
+    }
+
+    try {
+      await lockStock(userId, stockId);
+      const date = effectiveDate.toISOString().split("T")[0];
+      // Corporate actions apply in every portfolio, so none holding the stock may be closed on the ex-date
+      const portfolioIds = await getPortfolioIdsTrading(userId, [stockId]);
+      for (const portfolioId of portfolioIds) {
+        assertPeriodOpen(await getPortfolio(userId, portfolioId), date);
+      }
+      await db.insert(corporateActions).values({
+        userId,
+        stockId,
+        type,
+        effectiveDate: date,
+        ratioNew,
+        ratioOld,
+        subscriptionPrice: type === "RIGHTS" ? subscriptionPrice : null,
+        targetStockId: movesHolding ? targetStockId : null,
+        costPercent: type === "DEMERGER" ? costPercent : null,
+        notes: notes || null,
+      });
+
+      // Corporate actions apply in every portfolio; recomputing the source carries through
+      // to a conversion or demerger target
+      for (const portfolioId of portfolioIds) {
+        await recomputeAggregates(userId, portfolioId, stockId, undefined, date);
+      }
+    } catch (error) {
+      if (error instanceof PeriodLockedError) throw error;
+      console.error(`[DB] Failed to add corporate action:`, error);
+      throw new Error(`Failed to add corporate action: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+}
+
+export async function deleteCorporateAction(userId: number, id: number) {
+  return inTransaction(async (db) => {
+    try {
+      const [action] = await db
+        .select()
+        .from(corporateActions)
+        .where(and(eq(corporateActions.id, id), eq(corporateActions.userId, userId)))
+        .limit(1);
+      if (!action) throw new Error("Corporate action not found");
+      await lockStock(userId, action.stockId);
+      const affected = action.targetStockId ? [action.stockId, action.targetStockId] : [action.stockId];
+      const portfolioIds = await getPortfolioIdsTrading(userId, affected);
+      for (const portfolioId of portfolioIds) {
+        assertPeriodOpen(await getPortfolio(userId, portfolioId), action.effectiveDate);
+      }
+
+      await db.delete(corporateActions).where(eq(corporateActions.id, id));
+
+      for (const portfolioId of portfolioIds) {
+        for (const stockId of affected) {
+          await recomputeAggregates(userId, portfolioId, stockId, undefined, action.effectiveDate);
+        }
+      }
+    } catch (error) {
+      if (error instanceof PeriodLockedError) throw error;
+      console.error(`[DB] Failed to delete corporate action ${id}:`, error);
+      throw new Error(`Failed to delete corporate action: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+}
+
+/**
+ * A user's entitlement under a rights issue: the shares held going into the ex-date
+ * times the rights ratio (fractional rights are not issued), and how much of it has been taken up.
+ * Rights are issued per account, so without portfolioId each portfolio's entitlement is added up.
+ */
+export async function getRightsEntitlement(userId: number, actionId: number, portfolioId?: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [action] = await db
+    .select()
+    .from(corporateActions)
+    .where(and(eq(corporateActions.id, actionId), eq(corporateActions.userId, userId)))
+    .limit(1);
+  if (!action || action.type !== "RIGHTS") throw new Error("Rights issue not found");
+
+  const portfolioIds = portfolioId !== undefined ? [portfolioId] : (await getPortfolios(userId)).map((p) => p.id);
+  let sharesHeld = new Decimal(0);
+  let entitlement = new Decimal(0);
+  for (const id of portfolioIds) {
+    const { position } = await replayStock(userId, id, action.stockId, action.effectiveDate);
+    sharesHeld = sharesHeld.plus(position.state.totalShares);
+    entitlement = entitlement.plus(
+      position.state.totalShares.times(action.ratioNew).dividedBy(action.ratioOld).toDecimalPlaces(0, Decimal.ROUND_DOWN)
+    );
+  }
+  const elections = await db
+    .select()
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.corporateActionId, action.id),
+        eq(transactions.userId, userId),
+        portfolioId !== undefined ? eq(transactions.portfolioId, portfolioId) : undefined,
+        notDeleted
+      )
+    );
+
+  const takenUp = (type: Transaction["type"]) =>
+    elections.filter((t) => t.type === type).reduce((sum, t) => sum.plus(t.quantity ?? 0), new Decimal(0));
+  const subscribed = takenUp("RIGHTS_SUBSCRIPTION");
+  const renounced = takenUp("RIGHTS_RENUNCIATION");
+
+  return {
+    action,
+    sharesHeld: sharesHeld.toNumber(),
+    entitlement: entitlement.toNumber(),
+    subscribed: subscribed.toNumber(),
+    renounced: renounced.toNumber(),
+    remaining: entitlement.minus(subscribed).minus(renounced).toNumber(),
+  };
+}
+
+/**
+ * Refuse a rights election made before the ex-date, or for anything but a whole number of
+ * rights within what remains of the entitlement.
+ */
+export function assertRightsElection(
+  action: Pick<CorporateAction, "effectiveDate">,
+  date: string,
+  quantity: Decimal,
+  remaining: number
+) {
+  if (date < action.effectiveDate) {
+    throw new Error(`Rights cannot be taken up or renounced before the ex-date (${action.effectiveDate})`);
+  }
+  if (quantity.lessThanOrEqualTo(0)) throw new Error("Quantity must be positive");
+  if (!quantity.isInteger()) throw new Error("Rights are issued in whole shares");
+  if (quantity.greaterThan(remaining)) {
+    throw new Error(`Only ${remaining} rights remain of this entitlement`);
+  }
+}
+
+/**
+ * Record subscribing to, or renouncing (selling the letter of), some of a rights entitlement.
+ * A subscription costs quantity × subscription price; renunciation proceeds are taken net of charges.
+ */
+export async function recordRightsElection(
+  userId: number,
+  portfolioId: number,
+  actionId: number,
+  election: "SUBSCRIBE" | "RENOUNCE",
+  date: Date,
+  quantity: string,
+  proceeds?: string
+) {
+  return inTransaction(async (db) => {
+    assertPeriodOpen(await getPortfolio(userId, portfolioId), date.toISOString().split("T")[0]);
+    // Take the stock's lock before reading what remains, so concurrent elections cannot both claim it
+    const [rights] = await db
+      .select({ stockId: corporateActions.stockId })
+      .from(corporateActions)
+      .where(and(eq(corporateActions.id, actionId), eq(corporateActions.userId, userId)))
+      .limit(1);
+    if (rights) await lockStock(userId, rights.stockId);
+    const { action, remaining } = await getRightsEntitlement(userId, actionId, portfolioId);
+    const qty = new Decimal(quantity);
+    assertRightsElection(action, date.toISOString().split("T")[0], qty, remaining);
+
+    const type = election === "SUBSCRIBE" ? "RIGHTS_SUBSCRIPTION" : "RIGHTS_RENUNCIATION";
+    const totalAmount = election === "SUBSCRIBE" ? qty.times(action.subscriptionPrice ?? 0).toFixed(2) : proceeds ?? "0";
+
+    try {
+      const [created] = await db.insert(transactions).values({
+        userId,
+        portfolioId,
+        stockId: action.stockId,
+        type,
+        date: date.toISOString().split("T")[0],
+        quantity: qty.toString(),
+        totalAmount,
+        unitPrice: computeUnitPrice(type, qty.toString(), totalAmount),
+        corporateActionId: action.id,
+        notes: election === "SUBSCRIBE" ? "Rights subscribed" : "Rights renounced",
+      }).returning();
+      await recordRevision(userId, created.id, "CREATE", null, created);
+
+      await recomputeAggregates(userId, portfolioId, action.stockId, undefined, date.toISOString().split("T")[0]);
+    } catch (error) {
+      console.error(`[DB] Failed to record rights election:`, error);
+      throw new Error(`Failed to record rights election: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+}
+
+/**
+ * A stock's aggregate in one portfolio or, without portfolioId, summed across all of them;
+ * the consolidated average cost is the combined cost over the combined shares.
+ */
+export async function getStockAggregates(userId: number, stockId: number, portfolioId?: number) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db.select().from(stockAggregates)
+    .where(
+      and(
+        eq(stockAggregates.stockId, stockId),
+        eq(stockAggregates.userId, userId),
+        portfolioId !== undefined ? eq(stockAggregates.portfolioId, portfolioId) : undefined
+      )
+    );
+  return result.length > 0 ? combineAggregates(result) : null;
+}
+
+/**
+ * Combine one stock's aggregates from several portfolios: shares and amounts add up, and the
+ * average cost is the combined cost over the combined shares. A single row is returned as is.
+ */
+export function combineAggregates<T extends Pick<StockAggregate, "totalShares" | "totalInvested" | "avgCost" | "realizedProfit">>(
+  rows: T[]
+): T {
+  if (rows.length === 1) return rows[0];
+
+  const sum = (field: "totalShares" | "totalInvested" | "realizedProfit") =>
+    rows.reduce((total, row) => total.plus(row[field]), new Decimal(0));
+  const totalShares = sum("totalShares");
+  const totalInvested = sum("totalInvested");
+  return {
+    ...rows[0],
+    totalShares: totalShares.toFixed(8),
+    totalInvested: totalInvested.toFixed(2),
+    avgCost: totalShares.isZero() ? "0" : totalInvested.dividedBy(totalShares).toFixed(4),
+    realizedProfit: sum("realizedProfit").toFixed(4),
+  };
+}
+
+/**
+ * ============================================================================
+ * CASH (SCOPED BY USER AND PORTFOLIO)
+ * ============================================================================
+ */
+
+/**
+ * Cash a transaction moves in or out of the broker account: buys pay the trade value plus
+ * charges, sells receive it less charges, and dividends credit what is left after deductions.
+ */
+export function transactionCashFlow(
+  txn: Pick<Transaction, "type" | "totalAmount"> & Partial<Record<keyof TransactionFees | keyof DividendDeductions, string | null>>
+) {
+  const totalAmount = new Decimal(txn.totalAmount);
+  // Transferred shares take their cost basis along, but no cash changes hands
+  if (txn.type === "TRANSFER_OUT" || txn.type === "TRANSFER_IN") return new Decimal(0);
+  if (txn.type === "DIVIDEND") return dividendNet(txn);
+  if (isAcquisition(txn.type)) return totalAmount.plus(transactionFees(txn)).negated();
+  return totalAmount.minus(transactionFees(txn));
+}
+
+/**
+ * Signed effect of a cash movement: deposits and interest credit cash, withdrawals and fees debit it.
+ */
+export function cashMovementFlow(movement: Pick<CashMovement, "type" | "amount">) {
+  const amount = new Decimal(movement.amount);
+  return movement.type === "DEPOSIT" || movement.type === "INTEREST" ? amount : amount.negated();
+}
+
+export type CashLedgerEntry = {
+  date: string;
+  portfolioId: number;
+  type: CashMovement["type"] | Transaction["type"];
+  cashMovementId: number | null;
+  transactionId: number | null;
+  stockSymbol: string | null;
+  notes: string | null;
+  amount: string; // signed: positive credits cash
+  balance: string; // running balance after this entry
+};
+
+/**
+ * Merge cash movements and trades into one dated ledger with a running balance.
+ * Same-day entries keep the order they were recorded in.
+ */
+export function buildCashLedger(
+  movements: CashMovement[],
+  txns: (Transaction & { stockSymbol?: string | null })[]
+): CashLedgerEntry[] {
+  const rows = [
+    ...movements.map((m) => ({
+      date: m.date,
+      sequence: null,
+      createdAt: m.createdAt,
+      portfolioId: m.portfolioId,
+      type: m.type,
+      cashMovementId: m.id,
+      transactionId: null,
+      stockSymbol: null,
+      notes: m.notes,
+      amount: cashMovementFlow(m),
+    })),
+    ...txns.map((t) => ({
+      date: t.date,
+      sequence: t.sequence ?? null,
+      createdAt: t.createdAt,
+      portfolioId: t.portfolioId,
+      type: t.type,
+      cashMovementId: null,
+      transactionId: t.id,
+      stockSymbol: t.stockSymbol ?? null,
+      notes: t.notes,
+      amount: transactionCashFlow(t),
+    })),
+  ].sort(
+    // As replayOrder: a reordered day follows its sequence, and rows without one come after the rest of the day
+    (a, b) =>
+      a.date.localeCompare(b.date) ||
+      (a.sequence ?? Infinity) - (b.sequence ?? Infinity) ||
+      a.createdAt.getTime() - b.createdAt.getTime()
+  );
+
+  let balance = new Decimal(0);
+  return rows.map(({ createdAt, sequence, amount, ...row }) => {
+    balance = balance.plus(amount);
+    return { ...row, amount: amount.toFixed(CURRENCY_PRECISION), balance: balance.toFixed(CURRENCY_PRECISION) };
+  });
+}
+
+/**
+ * The cash ledger of one portfolio or, without portfolioId, of all of them combined.
+ */
+export async function getCashLedger(userId: number, portfolioId?: number) {
+  const db = await getDb();
+  if (!db) return { entries: [] as CashLedgerEntry[], balance: "0.00" };
+
+  const movements = await db
+    .select()
+    .from(cashMovements)
+    .where(
+      and(
+        eq(cashMovements.userId, userId),
+        portfolioId !== undefined ? eq(cashMovements.portfolioId, portfolioId) : undefined
+      )
+    );
+  const txns = await db
+    .select({ txn: transactions, stockSymbol: stocks.symbol })
+    .from(transactions)
+    .leftJoin(stocks, eq(transactions.stockId, stocks.id))
+    .where(
+      and(
+        eq(transactions.userId, userId),
+        portfolioId !== undefined ? eq(transactions.portfolioId, portfolioId) : undefined,
+        notDeleted
+      )
+    );
+
+  const entries = buildCashLedger(movements, txns.map(({ txn, stockSymbol }) => ({ ...txn, stockSymbol })));
+  return { entries, balance: entries.length > 0 ? entries[entries.length - 1].balance : "0.00" };
+}
+
+export async function addCashMovement(
+  userId: number,
+  portfolioId: number,
+  type: CashMovement["type"],
+  date: Date,
+  amount: string,
+  notes?: string
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  try {
+    const dateStr = date.toISOString().split("T")[0];
+    assertPeriodOpen(await getPortfolio(userId, portfolioId), dateStr);
+    if (!new Decimal(amount).greaterThan(0)) throw new Error("Amount must be positive");
+
+    const [created] = await db
+      .insert(cashMovements)
+      .values({
+        userId,
+        portfolioId,
+        type,
+        date: dateStr,
+        amount,
+        notes: notes || null,
+      })
+      .returning();
+    return created;
+  } catch (error) {
+    if (error instanceof PeriodLockedError) throw error;
+    console.error(`[DB] Failed to add cash movement:`, error);
+    throw new Error(`Failed to add cash movement: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export async function deleteCashMovement(userId: number, id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [movement] = await db
+    .select()
+    .from(cashMovements)
+    .where(and(eq(cashMovements.id, id), eq(cashMovements.userId, userId)))
+    .limit(1);
+  if (!movement) throw new Error("Cash movement not found");
+  assertPeriodOpen(await getPortfolio(userId, movement.portfolioId), movement.date);
+
+  await db.delete(cashMovements).where(eq(cashMovements.id, id));
+}
+
+export async function getWatchlist(userId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select().from(watchlist)
+    .where(eq(watchlist.userId, userId))
+    .orderBy(watchlist.addedAt);
+}
+
+export async function addToWatchlist(userId: number, stockId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const existing = await db.select().from(watchlist)
+    .where(and(eq(watchlist.stockId, stockId), eq(watchlist.userId, userId)))
+    .limit(1);
+
+  if (existing && existing.length > 0) {
+    throw new Error("Stock already in watchlist");
+  }
+
+  await db.insert(watchlist).values({ userId, stockId });
+}
+
+export async function removeFromWatchlist(userId: number, watchlistId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(watchlist).where(and(eq(watchlist.id, watchlistId), eq(watchlist.userId, userId)));
+}
@@ -0,0 +1,287 @@
+import Decimal from "decimal.js";
+import type { CorporateAction, CostBasisMethod, Transaction } from "../drizzle/schema";
+import type { TradingCalendar } from "./trading-calendar";
+import {
+  processTransaction,
+  applyCorporateActionToPositions,
+  emptyPosition,
+  isAcquisition,
+  transactionFees,
+  withoutFees,
+  type StockPosition,
+} from "./db";
+
+/**
+ * The accounting engine behind the reports. It replays the user's transactions in date order
+ * through processTransaction, the same step that writes stockAggregates, so every report
+ * reconciles with the stored aggregates. Each portfolio is replayed on its own, since cost
+ * basis never crosses accounts. A second replay ignores charges to give the gross figures.
+ */
+
+export type ReplaySettings = {
+  tradingWindowDays: number;
+  costBasisMethod: CostBasisMethod;
+  shortSelling: Set<number>; // portfolios that may go short
+  calendar: TradingCalendar; // sessions the trading window counts
+};
+
+/**
+ * Where a portfolio's replay starts: positions restored from snapshots, and how many of the
+ * corporate actions they already include.
+ */
+export type PortfolioStart = {
+  net: Record<number, StockPosition>;
+  gross: Record<number, StockPosition>;
+  appliedActions: number;
+};
+
+type PortfolioReplay = PortfolioStart;
+
+/**
+ * Capital invested, profit realized and dividends received over the transactions replayed.
+ * Dividends are counted as reinvested.
+ */
+export type ReplayTotals = {
+  invested: Decimal;
+  realized: Decimal;
+  dividends: Decimal;
+};
+
+export type Replay = {
+  settings: ReplaySettings;
+  actions: CorporateAction[]; // in effective-date order
+  portfolios: Record<number, PortfolioReplay>;
+  totals: ReplayTotals;
+};
+
+/**
+ * What one transaction did: its stock's state before and after, and the profit it realized
+ * with charges (net) and without (gross). A dividend realizes its amount net of deductions.
+ */
+export type ReplayStep = {
+  txn: Transaction;
+  before: StockPosition["state"];
+  after: StockPosition["state"];
+  realized: Decimal;
+  grossRealized: Decimal;
+};
+
+/**
+ * A day of the replay: its transactions, the totals at its close, and the closing state of
+ * every stock traded that day, by portfolio and stock.
+ */
+export type ReplayDay = {
+  date: string;
+  steps: ReplayStep[];
+  totals: ReplayTotals;
+  stocks: { portfolioId: number; stockId: number; state: StockPosition["state"] }[];
+};
+
+export function createReplay(
+  settings: ReplaySettings,
+  actions: CorporateAction[],
+  start: Record<number, PortfolioStart> = {}
+): Replay {
+  return {
+    settings,
+    actions,
+    portfolios: { ...start },
+    totals: { invested: new Decimal(0), realized: new Decimal(0), dividends: new Decimal(0) },
+  };
+}
+
+function portfolioReplay(replay: Replay, portfolioId: number) {
+  return (replay.portfolios[portfolioId] ??= { net: {}, gross: {}, appliedActions: 0 });
+}
+
+/**
+ * Apply the corporate actions that take effect on or before a date to a portfolio.
+ */
+function applyActions(replay: Replay, portfolio: PortfolioReplay, date: string) {
+  while (portfolio.appliedActions < replay.actions.length && replay.actions[portfolio.appliedActions].effectiveDate <= date) {
+    const action = replay.actions[portfolio.appliedActions++];
+    applyCorporateActionToPositions(portfolio.net, action);
+    applyCorporateActionToPositions(portfolio.gross, action);
+  }
+}
+
+/**
+ * Bring every portfolio's holdings up to a date, applying corporate actions after the last trade.
+ */
+export function replayThrough(replay: Replay, date: string) {
+  for (const portfolio of Object.values(replay.portfolios)) applyActions(replay, portfolio, date);
+}
+
+/**
+ * Replay one transaction and add it to the totals.
+ */
+export function replayTransaction(replay: Replay, txn: Transaction): ReplayStep {
+  const { tradingWindowDays, costBasisMethod, shortSelling, calendar } = replay.settings;
+  const portfolio = portfolioReplay(replay, txn.portfolioId);
+  // Corporate actions take effect before any trade on their ex-date
+  applyActions(replay, portfolio, txn.date);
+
+  const step = (positions: Record<number, StockPosition>, txn: Transaction) => {
+    const position = (positions[txn.stockId] ??= emptyPosition());
+    const before = position.state;
+    position.state = processTransaction(
+      before,
+      txn,
+      position.recentBuys,
+      tradingWindowDays,
+      costBasisMethod,
+      shortSelling.has(txn.portfolioId),
+      calendar
+    );
+    return { before, after: position.state, realized: position.state.realizedProfit.minus(before.realizedProfit) };
+  };
+  const net = step(portfolio.net, txn);
+  const gross = step(portfolio.gross, withoutFees(txn));
+
+  const totals = replay.totals;
+  if (isAcquisition(txn.type)) {
+    totals.invested = totals.invested.plus(txn.totalAmount).plus(transactionFees(txn));
+    totals.realized = totals.realized.plus(net.realized); // Covering a short realizes it
+  } else if (txn.type === "SELL" || txn.type === "RIGHTS_RENUNCIATION") {
+    totals.realized = totals.realized.plus(net.realized);
+  } else if (txn.type === "DIVIDEND") {
+    totals.dividends = totals.dividends.plus(net.realized);
+    totals.invested = totals.invested.plus(net.realized);
+  } else if (txn.type === "TRANSFER_IN" || txn.type === "TRANSFER_OUT") {
+    // Transfers carry their cost basis, so capital moves between portfolios without being realized
+    totals.invested = txn.type === "TRANSFER_IN" ? totals.invested.plus(txn.totalAmount) : totals.invested.minus(txn.totalAmount);
+  }
+
+  return { txn, ...net, grossRealized: gross.realized };
+}
+
+/**
+ * Replay transactions, in date order, and group what they did by day.
+ */
+export function replayDays(replay: Replay, txns: Transaction[]): ReplayDay[] {
+  const days: ReplayDay[] = [];
+  for (const txn of txns) {
+    const step = replayTransaction(replay, txn);
+    let day = days[days.length - 1];
+    if (day?.date !== txn.date) {
+      day = { date: txn.date, steps: [], totals: replay.totals, stocks: [] };
+      days.push(day);
+    }
+    day.steps.push(step);
+    day.totals = { ...replay.totals };
+    const traded = day.stocks.find((s) => s.portfolioId === txn.portfolioId && s.stockId === txn.stockId);
+    if (traded) traded.state = step.after;
+    else day.stocks.push({ portfolioId: txn.portfolioId, stockId: txn.stockId, state: step.after });
+  }
+  return days;
+}
+
+/**
+ * Shares held in each stock, combined across portfolios at their total cost.
+ */
+export function replayHoldings(replay: Replay) {
+  const holdings: Record<number, { quantity: Decimal; cost: Decimal }> = {};
+  for (const portfolio of Object.values(replay.portfolios)) {
+    for (const [stockId, position] of Object.entries(portfolio.net)) {
+      const holding = (holdings[Number(stockId)] ??= { quantity: new Decimal(0), cost: new Decimal(0) });
+      holding.quantity = holding.quantity.plus(position.state.totalShares);
+      holding.cost = holding.cost.plus(position.state.totalShares.times(position.state.avgCost));
+    }
+  }
+  return holdings;
+}
+
+/**
+ * The running balance reported at the close of a day.
+ */
+export function balanceOf(date: string, totals: ReplayTotals) {
+  return {
+    date,
+    totalInvested: totals.invested.toNumber(),
+    totalRealized: totals.realized.toNumber(),
+    totalDividends: totals.dividends.toNumber(),
+    netBalance: totals.invested.plus(totals.realized).plus(totals.dividends).toNumber(),
+  };
+}
+
+/**
+ * A stock and every stock its holding came from through conversions and demergers. A stock
+ * replayed without them starts with none of the cost they moved in, so a report on one stock
+ * replays them all.
+ */
+export function linkedStockIds(actions: Pick<CorporateAction, "stockId" | "targetStockId">[], stockId: number) {
+  const linked = new Set([stockId]);
+  for (let grew = true; grew; ) {
+    grew = false;
+    for (const action of actions) {
+      if (action.targetStockId && linked.has(action.targetStockId) && !linked.has(action.stockId)) {
+        linked.add(action.stockId);
+        grew = true;
+      }
+    }
+  }
+  return Array.from(linked);
+}
+
+/**
+ * A sell that lost money, for the daywise report.
+ */
+export type DayLoss = {
+  stockId: number;
+  quantity: number;
+  unitPrice: number;
+  avgCost: number;
+  totalAmount: number;
+  fees: number;
+  loss: number;
+};
+
+/**
+ * Profit realized each day, with and without charges: sells, renounced rights, buys that cover
+ * a short, and dividends net of deductions. With `stockId`, only that stock's profit is counted.
+ */
+export function dailyProfit(days: ReplayDay[], stockId?: number) {
+  const result: { date: string; profit: number; grossProfit: number; fees: number; losses: DayLoss[] }[] = [];
+  for (const day of days) {
+    let profit = new Decimal(0);
+    let grossProfit = new Decimal(0);
+    let realizing = false;
+    const losses: DayLoss[] = [];
+    for (const { txn, before, realized, grossRealized } of day.steps) {
+      if (stockId !== undefined && txn.stockId !== stockId) continue;
+      const realizes =
+        (txn.type === "SELL" && !!txn.quantity) ||
+        txn.type === "RIGHTS_RENUNCIATION" ||
+        txn.type === "DIVIDEND" ||
+        (isAcquisition(txn.type) && !realized.isZero());
+      if (!realizes) continue;
+      realizing = true;
+      profit = profit.plus(realized);
+      // Deductions are not charges, so a dividend is the same net and gross
+      grossProfit = grossProfit.plus(txn.type === "DIVIDEND" ? realized : grossRealized);
+
+      if (txn.type === "SELL" && realized.isNegative()) {
+        const quantity = new Decimal(txn.quantity!);
+        losses.push({
+          stockId: txn.stockId,
+          quantity: quantity.toNumber(),
+          unitPrice: new Decimal(txn.totalAmount).dividedBy(quantity).toNumber(),
+          avgCost: before.avgCost.toNumber(),
+          totalAmount: new Decimal(txn.totalAmount).toNumber(),
+          fees: transactionFees(txn).toNumber(),
+          loss: realized.toNumber(),
+        });
+      }
+    }
+    if (realizing) {
+      result.push({
+        date: day.date,
+        profit: profit.toNumber(),
+        grossProfit: grossProfit.toNumber(),
+        fees: grossProfit.minus(profit).toNumber(),
+        losses,
+      });
+    }
+  }
+  return result;
+}
@@ -0,0 +1,43 @@
+import { router, protectedProcedure, withPeriodLock } from "../_core/trpc";
+import { z } from "zod";
+import { getCashLedger, addCashMovement, deleteCashMovement } from "../db";
+
+export const cashRouter = router({
+  /**
+   * Cash ledger with running balance, for one portfolio or all of them
+   */
+  ledger: protectedProcedure
+    .input(z.object({ portfolioId: z.number().optional() }).optional())
+    .query(async ({ input, ctx }) => {
+      return await getCashLedger(ctx.user.id, input?.portfolioId);
+    }),
+
+  /**
+   * Record a deposit, withdrawal, account fee or interest credit
+   */
+  add: protectedProcedure
+    .input(
+      z.object({
+        portfolioId: z.number(),
+        type: z.enum(["DEPOSIT", "WITHDRAWAL", "FEE", "INTEREST"]),
+        date: z.date(),
+        amount: z.string(),
+        notes: z.string().optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      return await withPeriodLock(() =>
+        addCashMovement(ctx.user.id, input.portfolioId, input.type, input.date, input.amount, input.notes)
+      );
+    }),
+
+  /**
+   * Delete a cash movement
+   */
+  delete: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      await withPeriodLock(() => deleteCashMovement(ctx.user.id, input.id));
+      return { success: true };
+    }),
+});
@@ -1,32 +1,45 @@
-import { router, protectedProcedure } from "../_core/trpc";
-import { TRPCError } from "@trpc/server";
-import { z } from "zod";
-import { importExcelFile } from "../excel-import";
-
-export const importRouter = router({
-  /**
-   * Import Excel file
-   */
-  excel: protectedProcedure
-    .input(z.object({ fileData: z.string(), filename: z.string() }))
-    .mutation(async ({ input, ctx }) => {
-      if (!ctx.user) {
-        throw new TRPCError({
-          code: "UNAUTHORIZED",
-          message: "You must be logged in to import data",
-        });
-      }
-
-      try {
-        const fileBuffer = Buffer.from(input.fileData, "base64");
-        const result = await importExcelFile(ctx.user.id, fileBuffer, input.filename);
-        return result;
-      } catch (error: any) {
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: `Failed to import Excel: ${error.message}`,
-        });
-      }
-    }),
-});
-
+import { router, protectedProcedure } from "../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { importExcelFile } from "../excel-import";
+
+export const importRouter = router({
+  /**
+   * Import Excel file
+   */
+  excel: protectedProcedure
+    .input(
+      z.object({
+        portfolioId: z.number(),
+        fileData: z.string(),
+        filename: z.string(),
+        confirmOverride: z.boolean().optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.user) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "You must be logged in to import data",
+        });
+      }
+
+      try {
+        const fileBuffer = Buffer.from(input.fileData, "base64");
+        const result = await importExcelFile(
+          ctx.user.id,
+          input.portfolioId,
+          fileBuffer,
+          input.filename,
+          input.confirmOverride
+        );
+        return result;
+      } catch (error: any) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: `Failed to import Excel: ${error.message}`,
+        });
+      }
+    }),
+});
+
@@ -1,24 +1,28 @@
-import { router } from "../_core/trpc";
-import { stockRouter } from "./stock";
-import { transactionRouter } from "./transaction";
-import { watchlistRouter } from "./watchlist";
-import { reportsRouter } from "./reports";
-import { authRouter } from "./auth";
-import { importRouter } from "./import";
-import { settingsRouter } from "./settings";
-
-/**
- * Main App Router
- */
-export const appRouter = router({
-  auth: authRouter,
-  stock: stockRouter,
-  transaction: transactionRouter,
-  watchlist: watchlistRouter,
-  reports: reportsRouter,
-  import: importRouter,
-  settings: settingsRouter,
-});
-
-export type AppRouter = typeof appRouter;
-
+import { router } from "../_core/trpc";
+import { stockRouter } from "./stock";
+import { transactionRouter } from "./transaction";
+import { watchlistRouter } from "./watchlist";
+import { reportsRouter } from "./reports";
+import { authRouter } from "./auth";
+import { importRouter } from "./import";
+import { settingsRouter } from "./settings";
+import { portfolioRouter } from "./portfolio";
+import { cashRouter } from "./cash";
+
+/**
+ * Main App Router
+ */
+export const appRouter = router({
+  auth: authRouter,
+  stock: stockRouter,
+  transaction: transactionRouter,
+  watchlist: watchlistRouter,
+  reports: reportsRouter,
+  import: importRouter,
+  settings: settingsRouter,
+  portfolio: portfolioRouter,
+  cash: cashRouter,
+});
+
+export type AppRouter = typeof appRouter;
+
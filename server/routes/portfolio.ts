@@ -0,0 +1,59 @@
+import { router, protectedProcedure, withPeriodLock } from "../_core/trpc";
+import { z } from "zod";
+import { getPortfolios, createPortfolio, updatePortfolio, deletePortfolio, setPortfolioLock } from "../db";
+
+const portfolioSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  brokerName: z.string().trim().max(100).optional(),
+  allowShortSelling: z.boolean().optional(),
+});
+
+export const portfolioRouter = router({
+  /**
+   * List the user's portfolios (brokerage accounts)
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return await getPortfolios(ctx.user.id);
+  }),
+
+  /**
+   * Create a portfolio
+   */
+  create: protectedProcedure
+    .input(portfolioSchema)
+    .mutation(async ({ input, ctx }) => {
+      return await createPortfolio(ctx.user.id, input.name, input.brokerName, input.allowShortSelling);
+    }),
+
+  /**
+   * Rename a portfolio, change its broker or switch short selling
+   */
+  update: protectedProcedure
+    .input(portfolioSchema.extend({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      await updatePortfolio(ctx.user.id, input.id, input.name, input.brokerName, input.allowShortSelling);
+      return { success: true };
+    }),
+
+  /**
+   * Close the books through a date (YYYY-MM-DD), or reopen them with null. Moving the date back
+   * or clearing it is for admins only
+   */
+  setLock: protectedProcedure
+    .input(z.object({ id: z.number(), lockedThrough: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable() }))
+    .mutation(async ({ input, ctx }) => {
+      return await withPeriodLock(() =>
+        setPortfolioLock(ctx.user.id, input.id, input.lockedThrough, ctx.user.role === "admin")
+      );
+    }),
+
+  /**
+   * Delete a portfolio that has no transactions
+   */
+  delete: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      await deletePortfolio(ctx.user.id, input.id);
+      return { success: true };
+    }),
+});
@@ -1,236 +1,364 @@
-import { router, protectedProcedure } from "../_core/trpc";
-import { z } from "zod";
-import { eq, and, gte, lte, sql, desc, asc, inArray } from "drizzle-orm";
-import { getDb, getStockById, getUserSettings } from "../db";
-import { transactions, stocks, stockAggregates } from "../../drizzle/schema";
-import Decimal from "decimal.js";
-import { processTransaction } from "../db";
-
-export const reportsRouter = router({
-  /**
-   * Get daywise profit data
-   */
-  daywise: protectedProcedure
-    .input(z.object({ from: z.date(), to: z.date(), stockId: z.number().optional() }))
-    .query(async ({ input, ctx }) => {
-      const db = await getDb();
-      if (!db) return [];
-
-      const userSettingsData = await getUserSettings(ctx.user.id);
-      const tradingWindowDays = userSettingsData?.tradingWindowDays ?? 1;
-
-      // Get all transactions up to the end date, ordered chronologically
-      const allTxns = await db
-        .select()
-        .from(transactions)
-        .where(
-          and(
-            lte(transactions.date, input.to.toISOString().split("T")[0]),
-            eq(transactions.userId, ctx.user.id),
-            input.stockId ? eq(transactions.stockId, input.stockId) : undefined
-          )
-        )
-        .orderBy(asc(transactions.date), asc(transactions.createdAt));
-
-      // Replay transactions to calculate accurate profit per day
-      const stockStates: Record<number, {
-        totalShares: Decimal;
-        totalInvested: Decimal;
-        avgCost: Decimal;
-      }> = {};
-      const profitByDate: Record<string, { profit: number; losses: any[] }> = {};
-
-      // Per-stock rolling buy lists for multi-day window FIFO matching
-      const recentBuysByStock: Record<number, Array<{ date: string; quantity: Decimal; unitPrice: Decimal }>> = {};
-
-      for (const txn of allTxns) {
-        if (!stockStates[txn.stockId]) {
-          stockStates[txn.stockId] = {
-            totalShares: new Decimal(0),
-            totalInvested: new Decimal(0),
-            avgCost: new Decimal(0),
-          };
-        }
-        if (!recentBuysByStock[txn.stockId]) {
-          recentBuysByStock[txn.stockId] = [];
-        }
-
-        const state = stockStates[txn.stockId];
-        const recentBuys = recentBuysByStock[txn.stockId];
-        const date = txn.date.toString();
-        const isInRange = txn.date >= input.from.toISOString().split("T")[0] && txn.date <= input.to.toISOString().split("T")[0];
-
-        // processTransaction updates recentBuys in place and returns realized profit for this txn
-        const currentState = {
-          totalShares: state.totalShares,
-          totalInvested: state.totalInvested,
-          avgCost: state.avgCost,
-          realizedProfit: new Decimal(0),
-        };
-        const newState = processTransaction(currentState, txn, recentBuys, tradingWindowDays);
-        stockStates[txn.stockId] = {
-          totalShares: newState.totalShares,
-          totalInvested: newState.totalInvested,
-          avgCost: newState.avgCost,
-        };
-
-        if (isInRange) {
-          if (txn.type === "SELL" && txn.quantity) {
-            const profitValue = newState.realizedProfit.toNumber();
-            if (!profitByDate[date]) {
-              profitByDate[date] = { profit: 0, losses: [] };
-            }
-            profitByDate[date].profit += profitValue;
-
-            if (profitValue < 0) {
-              const qty = new Decimal(txn.quantity.toString());
-              const proceeds = new Decimal(txn.totalAmount.toString());
-              const stock = await getStockById(txn.stockId);
-              profitByDate[date].losses.push({
-                stockId: txn.stockId,
-                stockSymbol: stock?.symbol || "Unknown",
-                quantity: parseFloat(qty.toString()),
-                unitPrice: parseFloat(proceeds.dividedBy(qty).toString()),
-                avgCost: parseFloat(state.avgCost.toString()),
-                totalAmount: parseFloat(proceeds.toString()),
-                loss: profitValue,
-              });
-            }
-          } else if (txn.type === "DIVIDEND") {
-            const dividendAmount = parseFloat(txn.totalAmount.toString());
-            if (!profitByDate[date]) {
-              profitByDate[date] = { profit: 0, losses: [] };
-            }
-            profitByDate[date].profit += dividendAmount;
-          }
-        }
-      }
-
-      return Object.entries(profitByDate)
-        .map(([date, data]) => ({
-          date,
-          profit: data.profit,
-          losses: data.losses,
-        }))
-        .sort((a, b) => a.date.localeCompare(b.date));
-    }),
-
-  /**
-   * Get stock performance data
-   */
-  stockPerformance: protectedProcedure
-    .input(z.object({ stockIds: z.array(z.number()).optional() }))
-    .query(async ({ input, ctx }) => {
-      const db = await getDb();
-      if (!db) return [];
-
-      let query = db
-        .select({
-          stockId: stocks.id,
-          symbol: stocks.symbol,
-          name: stocks.name,
-          totalShares: stockAggregates.totalShares,
-          totalInvested: stockAggregates.totalInvested,
-          avgCost: stockAggregates.avgCost,
-          realizedProfit: stockAggregates.realizedProfit,
-        })
-        .from(stocks)
-        .leftJoin(
-          stockAggregates,
-          and(
-            eq(stocks.id, stockAggregates.stockId),
-            eq(stockAggregates.userId, ctx.user.id)
-          )
-        );
-
-      if (input.stockIds && input.stockIds.length > 0) {
-        query = query.where(inArray(stocks.id, input.stockIds)) as any;
-      }
-
-      const result = await query;
-      return result.map((r) => ({
-        stockId: r.stockId,
-        symbol: r.symbol,
-        name: r.name,
-        totalShares: parseFloat(r.totalShares?.toString() || "0"),
-        totalInvested: parseFloat(r.totalInvested?.toString() || "0"),
-        avgCost: parseFloat(r.avgCost?.toString() || "0"),
-        realizedProfit: parseFloat(r.realizedProfit?.toString() || "0"),
-        currentPrice: 0,
-      }));
-    }),
-
-  /**
-   * Get transaction volume over time
-   */
-  transactionVolume: protectedProcedure
-    .input(z.object({ from: z.date(), to: z.date(), type: z.enum(["BUY", "SELL", "DIVIDEND"]).optional(), stockId: z.number().optional() }))
-    .query(async ({ input, ctx }) => {
-      const db = await getDb();
-      if (!db) return [];
-
-      const result = await db
-        .select({
-          date: transactions.date,
-          type: transactions.type,
-          totalAmount: transactions.totalAmount,
-          quantity: transactions.quantity,
-          symbol: stocks.symbol,
-        })
-        .from(transactions)
-        .leftJoin(stocks, eq(transactions.stockId, stocks.id))
-        .where(
-          and(
-            gte(transactions.date, input.from.toISOString().split("T")[0]),
-            lte(transactions.date, input.to.toISOString().split("T")[0]),
-            eq(transactions.userId, ctx.user.id),
-            input.type ? eq(transactions.type, input.type) : undefined,
-            input.stockId ? eq(transactions.stockId, input.stockId) : undefined
-          )
-        )
-        .orderBy(transactions.date);
-
-      return result.map((r) => ({
-        date: r.date.toString(),
-        type: r.type,
-        totalAmount: parseFloat(r.totalAmount.toString()),
-        quantity: r.quantity ? parseFloat(r.quantity.toString()) : null,
-        symbol: r.symbol || "",
-      }));
-    }),
-
-  /**
-   * Get portfolio distribution
-   */
-  portfolioDistribution: protectedProcedure.query(async ({ ctx }) => {
-    const db = await getDb();
-    if (!db) return [];
-
-    const result = await db
-      .select({
-        stockId: stocks.id,
-        symbol: stocks.symbol,
-        name: stocks.name,
-        totalInvested: stockAggregates.totalInvested,
-        totalShares: stockAggregates.totalShares,
-      })
-      .from(stocks)
-      .leftJoin(
-        stockAggregates,
-        and(
-          eq(stocks.id, stockAggregates.stockId),
-          eq(stockAggregates.userId, ctx.user.id)
-        )
-      )
-      .where(sql`${stockAggregates.totalShares}::numeric > 0`);
-
-    return result.map((r) => ({
-      stockId: r.stockId,
-      symbol: r.symbol,
-      name: r.name,
-      totalInvested: parseFloat(r.totalInvested?.toString() || "0"),
-      totalShares: parseFloat(r.totalShares?.toString() || "0"),
-    }));
-  }),
-});
-
+import { router, protectedProcedure } from "../_core/trpc";
+import { z } from "zod";
+import { eq, and, gt, gte, lte, sql, desc, asc, inArray } from "drizzle-orm";
+import { getDb, getUserSettings, getDisposalsForUser, getCorporateActions } from "../db";
+import { computeCapitalGainsTax, fiscalYearOf, DEFAULT_CGT_SLABS } from "../capital-gains";
+import { transactions, stocks, stockAggregates, positionSnapshots, transactionTypeEnum } from "../../drizzle/schema";
+import Decimal from "decimal.js";
+import { combineAggregates, replayOrder, notDeleted, transactionFees, dividendNet, getShortSellingPortfolioIds, checkpointBefore, restorePosition } from "../db";
+import { tradingCalendar } from "../trading-calendar";
+import { createReplay, replayDays, dailyProfit, linkedStockIds, type PortfolioStart } from "../replay";
+
+// Reports cover one portfolio, or every portfolio when portfolioId is omitted
+const portfolioScope = z.object({ portfolioId: z.number().optional() }).optional();
+
+type AggregateColumns = { totalShares: string; totalInvested: string; avgCost: string; realizedProfit: string };
+
+/**
+ * Fold stock × portfolio aggregate rows (from a left join, so possibly empty) into one row per stock.
+ */
+function groupByStock<T extends { stockId: number } & { [K in keyof AggregateColumns]: string | null }>(rows: T[]) {
+  const byStock = new Map<number, { stock: T; aggregates: AggregateColumns[] }>();
+  for (const row of rows) {
+    const entry = byStock.get(row.stockId) ?? { stock: row, aggregates: [] };
+    if (row.totalShares !== null) entry.aggregates.push(row as T & AggregateColumns);
+    byStock.set(row.stockId, entry);
+  }
+  return Array.from(byStock.values()).map(({ stock, aggregates }) => ({
+    stock,
+    aggregate: aggregates.length > 0 ? combineAggregates(aggregates) : null,
+  }));
+}
+
+export const reportsRouter = router({
+  /**
+   * Get daywise profit data
+   */
+  daywise: protectedProcedure
+    .input(z.object({ from: z.date(), to: z.date(), stockId: z.number().optional(), portfolioId: z.number().optional() }))
+    .query(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) return [];
+
+      const userSettingsData = await getUserSettings(ctx.user.id);
+      const tradingWindowDays = userSettingsData?.tradingWindowDays ?? 1;
+      const costBasisMethod = userSettingsData?.costBasisMethod ?? "AVERAGE";
+
+      // One stock is replayed with the stocks it was converted or demerged from, then reported on its own
+      const allActions = await getCorporateActions(ctx.user.id);
+      const stockIds = input.stockId ? linkedStockIds(allActions, input.stockId) : undefined;
+      const scope = and(
+        eq(transactions.userId, ctx.user.id),
+        stockIds ? inArray(transactions.stockId, stockIds) : undefined,
+        input.portfolioId !== undefined ? eq(transactions.portfolioId, input.portfolioId) : undefined,
+        notDeleted
+      );
+
+      // Start from the month-end snapshots before the range when every position traded by then has one
+      const checkpoint = checkpointBefore(input.from.toISOString().split("T")[0]);
+      const tradedBefore = await db
+        .selectDistinct({ portfolioId: transactions.portfolioId, stockId: transactions.stockId })
+        .from(transactions)
+        .where(and(scope, lte(transactions.date, checkpoint)));
+      const snapshots = await db
+        .select()
+        .from(positionSnapshots)
+        .where(
+          and(
+            eq(positionSnapshots.userId, ctx.user.id),
+            eq(positionSnapshots.date, checkpoint),
+            stockIds ? inArray(positionSnapshots.stockId, stockIds) : undefined,
+            input.portfolioId !== undefined ? eq(positionSnapshots.portfolioId, input.portfolioId) : undefined
+          )
+        );
+      const fromCheckpoint = tradedBefore.every((traded) =>
+        snapshots.some((s) => s.portfolioId === traded.portfolioId && s.stockId === traded.stockId)
+      );
+
+      // Get the transactions up to the end date (after the checkpoint, when starting there), ordered chronologically
+      const allTxns = await db
+        .select()
+        .from(transactions)
+        .where(
+          and(
+            scope,
+            lte(transactions.date, input.to.toISOString().split("T")[0]),
+            fromCheckpoint ? gt(transactions.date, checkpoint) : undefined
+          )
+        )
+        .orderBy(...replayOrder);
+
+      const actions = stockIds
+        ? allActions.filter((a) => stockIds.includes(a.stockId) || (!!a.targetStockId && stockIds.includes(a.targetStockId)))
+        : allActions;
+      const start: Record<number, PortfolioStart> = {};
+      if (fromCheckpoint) {
+        // The snapshots already include the corporate actions up to the checkpoint
+        const appliedActions = actions.filter((a) => a.effectiveDate <= checkpoint).length;
+        for (const snapshot of snapshots) {
+          const portfolio = (start[snapshot.portfolioId] ??= { net: {}, gross: {}, appliedActions });
+          portfolio.net[snapshot.stockId] = restorePosition(snapshot.position).position;
+          portfolio.gross[snapshot.stockId] = restorePosition(snapshot.grossPosition).position;
+        }
+      }
+      const replay = createReplay(
+        {
+          tradingWindowDays,
+          costBasisMethod,
+          shortSelling: await getShortSellingPortfolioIds(ctx.user.id),
+          calendar: tradingCalendar(userSettingsData?.marketHolidays),
+        },
+        actions,
+        start
+      );
+
+      const from = input.from.toISOString().split("T")[0];
+      const profit = dailyProfit(replayDays(replay, allTxns).filter((day) => day.date >= from), input.stockId);
+
+      const lossStockIds = Array.from(new Set(profit.flatMap((day) => day.losses.map((loss) => loss.stockId))));
+      const lossStocks = lossStockIds.length > 0 ? await db.select().from(stocks).where(inArray(stocks.id, lossStockIds)) : [];
+      return profit.map((day) => ({
+        ...day,
+        losses: day.losses.map((loss) => ({
+          ...loss,
+          stockSymbol: lossStocks.find((s) => s.id === loss.stockId)?.symbol || "Unknown",
+        })),
+      }));
+    }),
+
+  /**
+   * Get stock performance data
+   */
+  stockPerformance: protectedProcedure
+    .input(z.object({ stockIds: z.array(z.number()).optional(), portfolioId: z.number().optional() }))
+    .query(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) return [];
+
+      let query = db
+        .select({
+          stockId: stocks.id,
+          symbol: stocks.symbol,
+          name: stocks.name,
+          totalShares: stockAggregates.totalShares,
+          totalInvested: stockAggregates.totalInvested,
+          avgCost: stockAggregates.avgCost,
+          realizedProfit: stockAggregates.realizedProfit,
+        })
+        .from(stocks)
+        .leftJoin(
+          stockAggregates,
+          and(
+            eq(stocks.id, stockAggregates.stockId),
+            eq(stockAggregates.userId, ctx.user.id),
+            input.portfolioId !== undefined ? eq(stockAggregates.portfolioId, input.portfolioId) : undefined
+          )
+        );
+
+      if (input.stockIds && input.stockIds.length > 0) {
+        query = query.where(inArray(stocks.id, input.stockIds)) as any;
+      }
+
+      const result = await query;
+      return groupByStock(result).map(({ stock, aggregate }) => ({
+        stockId: stock.stockId,
+        symbol: stock.symbol,
+        name: stock.name,
+        totalShares: parseFloat(aggregate?.totalShares || "0"),
+        totalInvested: parseFloat(aggregate?.totalInvested || "0"),
+        avgCost: parseFloat(aggregate?.avgCost || "0"),
+        realizedProfit: parseFloat(aggregate?.realizedProfit || "0"),
+        currentPrice: 0,
+      }));
+    }),
+
+  /**
+   * Get transaction volume over time
+   */
+  transactionVolume: protectedProcedure
+    .input(
+      z.object({
+        from: z.date(),
+        to: z.date(),
+        type: z.enum(transactionTypeEnum.enumValues).optional(),
+        stockId: z.number().optional(),
+        portfolioId: z.number().optional(),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) return [];
+
+      const result = await db
+        .select({
+          date: transactions.date,
+          type: transactions.type,
+          totalAmount: transactions.totalAmount,
+          quantity: transactions.quantity,
+          commission: transactions.commission,
+          capitalValueTax: transactions.capitalValueTax,
+          regulatoryLevies: transactions.regulatoryLevies,
+          cdcCharges: transactions.cdcCharges,
+          salesTax: transactions.salesTax,
+          symbol: stocks.symbol,
+        })
+        .from(transactions)
+        .leftJoin(stocks, eq(transactions.stockId, stocks.id))
+        .where(
+          and(
+            gte(transactions.date, input.from.toISOString().split("T")[0]),
+            lte(transactions.date, input.to.toISOString().split("T")[0]),
+            eq(transactions.userId, ctx.user.id),
+            input.type ? eq(transactions.type, input.type) : undefined,
+            input.stockId ? eq(transactions.stockId, input.stockId) : undefined,
+            input.portfolioId !== undefined ? eq(transactions.portfolioId, input.portfolioId) : undefined,
+            notDeleted
+          )
+        )
+        .orderBy(transactions.date);
+
+      return result.map((r) => {
+        const fees = transactionFees(r);
+        const gross = new Decimal(r.totalAmount);
+        // Buyers pay the charges on top; sellers receive the trade value less them
+        const net = r.type === "BUY" ? gross.plus(fees) : gross.minus(fees);
+        return {
+          date: r.date.toString(),
+          type: r.type,
+          totalAmount: gross.toNumber(),
+          fees: fees.toNumber(),
+          netAmount: net.toNumber(),
+          quantity: r.quantity ? parseFloat(r.quantity.toString()) : null,
+          symbol: r.symbol || "",
+        };
+      });
+    }),
+
+  /**
+   * Capital gains tax per disposal and per July–June fiscal year, from the lot ledger
+   */
+  capitalGainsTax: protectedProcedure
+    .input(portfolioScope)
+    .query(async ({ input, ctx }) => {
+      const settings = await getUserSettings(ctx.user.id);
+      const disposals = await getDisposalsForUser(ctx.user.id, input?.portfolioId);
+      const isFiler = settings?.isFiler ?? true;
+
+      return {
+        isFiler,
+        ...computeCapitalGainsTax(disposals, settings?.cgtSlabs ?? DEFAULT_CGT_SLABS, isFiler),
+      };
+    }),
+
+  /**
+   * Dividends per July–June fiscal year: gross, tax withheld, zakat and net, by stock
+   */
+  dividendTax: protectedProcedure
+    .input(portfolioScope)
+    .query(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) return [];
+
+      const rows = await db
+        .select({
+          date: transactions.date,
+          stockId: transactions.stockId,
+          symbol: stocks.symbol,
+          totalAmount: transactions.totalAmount,
+          withholdingTax: transactions.withholdingTax,
+          zakat: transactions.zakat,
+        })
+        .from(transactions)
+        .leftJoin(stocks, eq(transactions.stockId, stocks.id))
+        .where(
+          and(
+            eq(transactions.userId, ctx.user.id),
+            eq(transactions.type, "DIVIDEND"),
+            input?.portfolioId !== undefined ? eq(transactions.portfolioId, input.portfolioId) : undefined,
+            notDeleted
+          )
+        )
+        .orderBy(asc(transactions.date));
+
+      type Totals = { gross: Decimal; withholdingTax: Decimal; zakat: Decimal; net: Decimal; count: number };
+      const emptyTotals = (): Totals => ({
+        gross: new Decimal(0),
+        withholdingTax: new Decimal(0),
+        zakat: new Decimal(0),
+        net: new Decimal(0),
+        count: 0,
+      });
+      const years: Record<string, Totals & { stocks: Record<string, Totals> }> = {};
+
+      for (const row of rows) {
+        const fiscalYear = fiscalYearOf(row.date.toString());
+        const year = (years[fiscalYear] ??= { ...emptyTotals(), stocks: {} });
+        const stock = (year.stocks[row.symbol || "Unknown"] ??= emptyTotals());
+        for (const totals of [year, stock]) {
+          totals.gross = totals.gross.plus(row.totalAmount);
+          totals.withholdingTax = totals.withholdingTax.plus(row.withholdingTax);
+          totals.zakat = totals.zakat.plus(row.zakat);
+          totals.net = totals.net.plus(dividendNet(row));
+          totals.count++;
+        }
+      }
+
+      const toNumbers = (t: Totals) => ({
+        gross: t.gross.toNumber(),
+        withholdingTax: t.withholdingTax.toNumber(),
+        zakat: t.zakat.toNumber(),
+        net: t.net.toNumber(),
+        count: t.count,
+      });
+
+      return Object.entries(years)
+        .map(([fiscalYear, year]) => ({
+          fiscalYear,
+          ...toNumbers(year),
+          stocks: Object.entries(year.stocks)
+            .map(([symbol, totals]) => ({ symbol, ...toNumbers(totals) }))
+            .sort((a, b) => a.symbol.localeCompare(b.symbol)),
+        }))
+        .sort((a, b) => a.fiscalYear.localeCompare(b.fiscalYear));
+    }),
+
+  /**
+   * Get portfolio distribution
+   */
+  portfolioDistribution: protectedProcedure
+    .input(portfolioScope)
+    .query(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) return [];
+
+      const result = await db
+        .select({
+          stockId: stocks.id,
+          symbol: stocks.symbol,
+          name: stocks.name,
+          totalShares: stockAggregates.totalShares,
+          totalInvested: stockAggregates.totalInvested,
+          avgCost: stockAggregates.avgCost,
+          realizedProfit: stockAggregates.realizedProfit,
+        })
+        .from(stocks)
+        .leftJoin(
+          stockAggregates,
+          and(
+            eq(stocks.id, stockAggregates.stockId),
+            eq(stockAggregates.userId, ctx.user.id),
+            input?.portfolioId !== undefined ? eq(stockAggregates.portfolioId, input.portfolioId) : undefined
+          )
+        )
+        .where(sql`${stockAggregates.totalShares}::numeric > 0`);
+
+      return groupByStock(result).map(({ stock, aggregate }) => ({
+        stockId: stock.stockId,
+        symbol: stock.symbol,
+        name: stock.name,
+        totalInvested: parseFloat(aggregate?.totalInvested || "0"),
+        totalShares: parseFloat(aggregate?.totalShares || "0"),
+      }));
+    }),
+});
+
@@ -1,19 +1,128 @@
 import { router, protectedProcedure } from "../_core/trpc";
 import { z } from "zod";
-import { getUserSettings, upsertUserSettings } from "../db";
+import {
+  getUserSettings,
+  upsertUserSettings,
+  recomputeAllAggregatesForUser,
+  getFeeSchedules,
+  saveFeeSchedule,
+  deleteFeeSchedule,
+} from "../db";
+import { DEFAULT_CGT_SLABS } from "../capital-gains";
+import { DEFAULT_PSX_HOLIDAYS } from "../trading-calendar";
+
+const rateSchema = z.string().regex(/^\d+(\.\d+)?$/, "Must be a non-negative number");
+
+const feeScheduleSchema = z.object({
+  id: z.number().optional(),
+  brokerName: z.string().trim().min(1).max(100),
+  commissionType: z.enum(["PERCENT", "PER_SHARE"]),
+  commissionRate: rateSchema,
+  minCommission: rateSchema,
+  salesTaxRate: rateSchema,
+  cvtRate: rateSchema,
+  levyRate: rateSchema,
+  cdcPerShare: rateSchema,
+  isDefault: z.boolean(),
+});
 
 export const settingsRouter = router({
   get: protectedProcedure.query(async ({ ctx }) => {
     const settings = await getUserSettings(ctx.user.id);
     return {
       tradingWindowDays: settings?.tradingWindowDays ?? 1,
+      costBasisMethod: settings?.costBasisMethod ?? "AVERAGE",
+      isFiler: settings?.isFiler ?? true,
+      cgtSlabs: settings?.cgtSlabs ?? DEFAULT_CGT_SLABS,
+      marketHolidays: settings?.marketHolidays ?? DEFAULT_PSX_HOLIDAYS,
     };
   }),
 
+  /**
+   * Set the trading window and recompute every aggregate, and its snapshots, under it
+   */
   setTradingWindow: protectedProcedure
     .input(z.object({ days: z.number().int().min(1).max(7) }))
     .mutation(async ({ input, ctx }) => {
       await upsertUserSettings(ctx.user.id, { tradingWindowDays: input.days });
-      return { tradingWindowDays: input.days };
+      const stocksRecomputed = await recomputeAllAggregatesForUser(ctx.user.id);
+      return { tradingWindowDays: input.days, stocksRecomputed };
+    }),
+
+  /**
+   * Switch the cost-basis method and recompute every aggregate under it
+   */
+  setCostBasisMethod: protectedProcedure
+    .input(z.object({ method: z.enum(["AVERAGE", "FIFO", "LIFO"]) }))
+    .mutation(async ({ input, ctx }) => {
+      await upsertUserSettings(ctx.user.id, { costBasisMethod: input.method });
+      const stocksRecomputed = await recomputeAllAggregatesForUser(ctx.user.id);
+      return { costBasisMethod: input.method, stocksRecomputed };
+    }),
+
+  /**
+   * Set filer status and the capital gains tax rate slabs
+   */
+  setCapitalGainsTax: protectedProcedure
+    .input(
+      z.object({
+        isFiler: z.boolean(),
+        slabs: z
+          .array(
+            z.object({
+              maxHoldingMonths: z.number().int().positive().nullable(),
+              filerRate: rateSchema,
+              nonFilerRate: rateSchema,
+            })
+          )
+          .min(1),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      await upsertUserSettings(ctx.user.id, { isFiler: input.isFiler, cgtSlabs: input.slabs });
+      return { isFiler: input.isFiler, cgtSlabs: input.slabs };
+    }),
+
+  /**
+   * Set the days the exchange is closed, which the trading window skips, and recompute every aggregate
+   */
+  setMarketHolidays: protectedProcedure
+    .input(
+      z.object({
+        holidays: z.array(
+          z.object({
+            date: z.string().regex(/^(\d{4}-)?\d{2}-\d{2}$/, "Use YYYY-MM-DD, or MM-DD for every year"),
+            name: z.string().trim().min(1).max(100),
+          })
+        ),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      await upsertUserSettings(ctx.user.id, { marketHolidays: input.holidays });
+      const stocksRecomputed = await recomputeAllAggregatesForUser(ctx.user.id);
+      return { marketHolidays: input.holidays, stocksRecomputed };
+    }),
+
+  /**
+   * List the user's broker fee schedules, default first
+   */
+  feeSchedules: protectedProcedure.query(async ({ ctx }) => {
+    return await getFeeSchedules(ctx.user.id);
+  }),
+
+  /**
+   * Create or update a broker fee schedule
+   */
+  saveFeeSchedule: protectedProcedure
+    .input(feeScheduleSchema)
+    .mutation(async ({ input, ctx }) => {
+      return await saveFeeSchedule(ctx.user.id, input);
+    }),
+
+  deleteFeeSchedule: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      await deleteFeeSchedule(ctx.user.id, input.id);
+      return { success: true };
     }),
 });
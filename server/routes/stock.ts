@@ -1,112 +1,221 @@
-import { router, protectedProcedure } from "../_core/trpc";
-import { TRPCError } from "@trpc/server";
-import { z } from "zod";
-import { getStockById, getStockBySymbol, getStockAggregates, getTransactionsByStockId, createStock, getAllStocks } from "../db";
-import { getMarketPrice } from "../market";
-
-export const stockRouter = router({
-  /**
-   * Create a new stock
-   */
-  create: protectedProcedure
-    .input(z.object({ symbol: z.string(), name: z.string() }))
-    .mutation(async ({ input }) => {
-      const existing = await getStockBySymbol(input.symbol);
-      if (existing) {
-        throw new TRPCError({ code: "CONFLICT", message: "Stock already exists" });
-      }
-
-      return await createStock(input.symbol, input.name);
-    }),
-
-  /**
-   * List all stocks with aggregates
-   */
-  list: protectedProcedure.query(async ({ ctx }) => {
-    const stocks = await getAllStocks();
-
-    return await Promise.all(
-      stocks.map(async (stock) => {
-        const aggregate = await getStockAggregates(ctx.user.id, stock.id);
-        let currentPrice = 0;
-
-        try {
-          const priceData = await getMarketPrice(stock.symbol);
-          currentPrice = priceData.price > 0 ? priceData.price : 0;
-        } catch (error) {
-          console.error(`Failed to fetch price for ${stock.symbol}:`, error);
-          currentPrice = 0;
-        }
-
-        const avgCost = aggregate ? parseFloat(aggregate.avgCost) : 0;
-        const totalShares = aggregate ? parseFloat(aggregate.totalShares) : 0;
-        const unrealizedProfit = aggregate && currentPrice > 0 && avgCost > 0 && totalShares > 0
-          ? (currentPrice - avgCost) * totalShares
-          : 0;
-
-        const gainLossPercent = aggregate && currentPrice > 0 && avgCost > 0
-          ? ((currentPrice - avgCost) / avgCost) * 100
-          : 0;
-
-        const totalInvested = aggregate ? parseFloat(aggregate.totalInvested) : 0;
-        const realizedProfit = aggregate ? parseFloat(aggregate.realizedProfit) : 0;
-
-        return {
-          id: stock.id,
-          symbol: stock.symbol,
-          name: stock.name,
-          totalShares: aggregate ? parseFloat(aggregate.totalShares) : 0,
-          avgCost: aggregate?.avgCost || "0",
-          totalInvested,
-          currentPrice,
-          unrealizedProfit,
-          realizedProfit,
-          gainLossPercent,
-        };
-      })
-    );
-  }),
-
-  /**
-   * Get stock detail with transactions
-   */
-  getDetail: protectedProcedure
-    .input(z.object({ id: z.number() }))
-    .query(async ({ input, ctx }) => {
-      const stock = await getStockById(input.id);
-      if (!stock) {
-        throw new TRPCError({ code: "NOT_FOUND", message: "Stock not found" });
-      }
-
-      const aggregate = await getStockAggregates(ctx.user.id, input.id);
-      const { transactions } = await getTransactionsByStockId(ctx.user.id, input.id);
-
-      let currentPrice = 0;
-      try {
-        const priceData = await getMarketPrice(stock.symbol);
-        currentPrice = priceData.price;
-      } catch (error) {
-        console.error(`Failed to fetch price for ${stock.symbol}:`, error);
-      }
-
-      const avgCost = aggregate ? parseFloat(aggregate.avgCost) : 0;
-      const totalShares = aggregate ? parseFloat(aggregate.totalShares) : 0;
-      const unrealizedProfit = aggregate && currentPrice > 0 && avgCost > 0 && totalShares > 0
-        ? (currentPrice - avgCost) * totalShares
-        : 0;
-
-      const gainLossPercent = aggregate && currentPrice > 0 && avgCost > 0
-        ? ((currentPrice - avgCost) / avgCost) * 100
-        : 0;
-
-      return {
-        stock,
-        aggregate,
-        currentPrice,
-        unrealizedProfit,
-        gainLossPercent,
-        transactions,
-      };
-    }),
-});
-
+import { router, protectedProcedure, withPeriodLock } from "../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { getStockById, getStockBySymbol, getStockAggregates, getTransactionsByStockId, createStock, getAllStocks, getLotsByStockId, getCorporateActions, addCorporateAction, deleteCorporateAction, getRightsEntitlement, recordRightsElection } from "../db";
+import { getMarketPrice } from "../market";
+
+export const stockRouter = router({
+  /**
+   * Create a new stock
+   */
+  create: protectedProcedure
+    .input(z.object({ symbol: z.string(), name: z.string() }))
+    .mutation(async ({ input }) => {
+      const existing = await getStockBySymbol(input.symbol);
+      if (existing) {
+        throw new TRPCError({ code: "CONFLICT", message: "Stock already exists" });
+      }
+
+      return await createStock(input.symbol, input.name);
+    }),
+
+  /**
+   * List all stocks with aggregates for one portfolio, or consolidated across all of them
+   */
+  list: protectedProcedure
+    .input(z.object({ portfolioId: z.number().optional() }).optional())
+    .query(async ({ input, ctx }) => {
+      const stocks = await getAllStocks();
+
+      return await Promise.all(
+        stocks.map(async (stock) => {
+          const aggregate = await getStockAggregates(ctx.user.id, stock.id, input?.portfolioId);
+          let currentPrice = 0;
+
+          try {
+            const priceData = await getMarketPrice(stock.symbol);
+            currentPrice = priceData.price > 0 ? priceData.price : 0;
+          } catch (error) {
+            console.error(`Failed to fetch price for ${stock.symbol}:`, error);
+            currentPrice = 0;
+          }
+
+          const avgCost = aggregate ? parseFloat(aggregate.avgCost) : 0;
+          const totalShares = aggregate ? parseFloat(aggregate.totalShares) : 0;
+          // Shares are negative for a short, which inverts the sign: it gains as the price falls
+          const unrealizedProfit = aggregate && currentPrice > 0 && avgCost > 0
+            ? (currentPrice - avgCost) * totalShares
+            : 0;
+
+          const gainLossPercent = aggregate && currentPrice > 0 && avgCost > 0
+            ? ((currentPrice - avgCost) / avgCost) * 100 * Math.sign(totalShares || 1)
+            : 0;
+
+          const totalInvested = aggregate ? parseFloat(aggregate.totalInvested) : 0;
+          const realizedProfit = aggregate ? parseFloat(aggregate.realizedProfit) : 0;
+
+          return {
+            id: stock.id,
+            symbol: stock.symbol,
+            name: stock.name,
+            totalShares: aggregate ? parseFloat(aggregate.totalShares) : 0,
+            avgCost: aggregate?.avgCost || "0",
+            totalInvested,
+            currentPrice,
+            unrealizedProfit,
+            realizedProfit,
+            gainLossPercent,
+          };
+        })
+      );
+    }),
+
+  /**
+   * Get stock detail with transactions
+   */
+  getDetail: protectedProcedure
+    .input(z.object({ id: z.number(), portfolioId: z.number().optional() }))
+    .query(async ({ input, ctx }) => {
+      const stock = await getStockById(input.id);
+      if (!stock) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Stock not found" });
+      }
+
+      const aggregate = await getStockAggregates(ctx.user.id, input.id, input.portfolioId);
+      const { transactions } = await getTransactionsByStockId(ctx.user.id, input.id, input.portfolioId);
+
+      let currentPrice = 0;
+      try {
+        const priceData = await getMarketPrice(stock.symbol);
+        currentPrice = priceData.price;
+      } catch (error) {
+        console.error(`Failed to fetch price for ${stock.symbol}:`, error);
+      }
+
+      const avgCost = aggregate ? parseFloat(aggregate.avgCost) : 0;
+      const totalShares = aggregate ? parseFloat(aggregate.totalShares) : 0;
+      const unrealizedProfit = aggregate && currentPrice > 0 && avgCost > 0
+        ? (currentPrice - avgCost) * totalShares
+        : 0;
+
+      // A short gains as the price falls below the average price it was sold at
+      const gainLossPercent = aggregate && currentPrice > 0 && avgCost > 0
+        ? ((currentPrice - avgCost) / avgCost) * 100 * Math.sign(totalShares || 1)
+        : 0;
+
+      return {
+        stock,
+        aggregate,
+        currentPrice,
+        unrealizedProfit,
+        gainLossPercent,
+        transactions,
+      };
+    }),
+
+  /**
+   * Get the tax-lot ledger for a stock
+   */
+  getLots: protectedProcedure
+    .input(z.object({ stockId: z.number(), portfolioId: z.number().optional() }))
+    .query(async ({ input, ctx }) => {
+      return await getLotsByStockId(ctx.user.id, input.stockId, input.portfolioId);
+    }),
+
+  /**
+   * List corporate actions recorded for a stock, including conversions and demergers into it
+   */
+  getCorporateActions: protectedProcedure
+    .input(z.object({ stockId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      const actions = await getCorporateActions(ctx.user.id, input.stockId);
+      // Conversions and demergers name the stock on the other side
+      return await Promise.all(
+        actions.map(async (action) => ({
+          ...action,
+          stockSymbol: action.stockId === input.stockId ? null : (await getStockById(action.stockId))?.symbol ?? null,
+          targetSymbol: action.targetStockId ? (await getStockById(action.targetStockId))?.symbol ?? null : null,
+        }))
+      );
+    }),
+
+  /**
+   * Record a split, bonus, rights issue, conversion or demerger and recompute the holding
+   */
+  addCorporateAction: protectedProcedure
+    .input(
+      z.object({
+        stockId: z.number(),
+        type: z.enum(["SPLIT", "BONUS", "RIGHTS", "CONVERSION", "DEMERGER"]),
+        effectiveDate: z.date(),
+        ratioNew: z.string(),
+        ratioOld: z.string(),
+        subscriptionPrice: z.string().optional(),
+        targetStockId: z.number().optional(),
+        costPercent: z.string().optional(),
+        notes: z.string().optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      await withPeriodLock(() =>
+        addCorporateAction(
+          ctx.user.id,
+          input.stockId,
+          input.type,
+          input.effectiveDate,
+          input.ratioNew,
+          input.ratioOld,
+          input.notes,
+          input.subscriptionPrice,
+          input.targetStockId,
+          input.costPercent
+        )
+      );
+      return { success: true };
+    }),
+
+  deleteCorporateAction: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      await withPeriodLock(() => deleteCorporateAction(ctx.user.id, input.id));
+      return { success: true };
+    }),
+
+  /**
+   * Rights entitlement from the shares held going into the ex-date, and how much is taken up
+   */
+  getRightsEntitlement: protectedProcedure
+    .input(z.object({ actionId: z.number(), portfolioId: z.number().optional() }))
+    .query(async ({ input, ctx }) => {
+      return await getRightsEntitlement(ctx.user.id, input.actionId, input.portfolioId);
+    }),
+
+  /**
+   * Subscribe to or renounce part of a rights entitlement
+   */
+  recordRightsElection: protectedProcedure
+    .input(
+      z.object({
+        portfolioId: z.number(),
+        actionId: z.number(),
+        election: z.enum(["SUBSCRIBE", "RENOUNCE"]),
+        date: z.date(),
+        quantity: z.string(),
+        proceeds: z.string().optional(), // RENOUNCE only, net of any charges
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      await withPeriodLock(() =>
+        recordRightsElection(
+          ctx.user.id,
+          input.portfolioId,
+          input.actionId,
+          input.election,
+          input.date,
+          input.quantity,
+          input.proceeds
+        )
+      );
+      return { success: true };
+    }),
+});
@@ -0,0 +1,57 @@
+import type { MarketHoliday } from "../drizzle/schema";
+
+/**
+ * PSX holidays that fall on the same date every year, used until the user maintains their own
+ * list. Holidays set by the lunar calendar (the Eids, Ashura, Eid Milad-un-Nabi) move from year
+ * to year, so they are added in Settings with their full date once announced.
+ */
+export const DEFAULT_PSX_HOLIDAYS: MarketHoliday[] = [
+  { date: "02-05", name: "Kashmir Solidarity Day" },
+  { date: "03-23", name: "Pakistan Day" },
+  { date: "05-01", name: "Labour Day" },
+  { date: "08-14", name: "Independence Day" },
+  { date: "11-09", name: "Iqbal Day" },
+  { date: "12-25", name: "Quaid-e-Azam Day" },
+];
+
+/**
+ * Days the exchange is closed besides weekends: single dates, and month-days closed every year.
+ */
+export type TradingCalendar = {
+  dates: Set<string>;
+  annual: Set<string>;
+};
+
+/**
+ * A calendar from holidays dated YYYY-MM-DD, or MM-DD for every year. Without a list the
+ * built-in PSX holidays are used.
+ */
+export function tradingCalendar(holidays?: MarketHoliday[] | null): TradingCalendar {
+  const calendar: TradingCalendar = { dates: new Set(), annual: new Set() };
+  for (const { date } of holidays ?? DEFAULT_PSX_HOLIDAYS) {
+    (date.length === 5 ? calendar.annual : calendar.dates).add(date);
+  }
+  return calendar;
+}
+
+export const PSX_CALENDAR = tradingCalendar();
+
+export function isTradingDay(dateStr: string, calendar: TradingCalendar) {
+  const day = new Date(dateStr + "T00:00:00Z").getUTCDay();
+  if (day === 0 || day === 6) return false;
+  return !calendar.dates.has(dateStr) && !calendar.annual.has(dateStr.slice(5));
+}
+
+/**
+ * The first day of a window of `sessions` trading sessions ending on a date. A window of one
+ * session is the date itself; each further session reaches back past weekends and holidays to
+ * the previous trading day.
+ */
+export function sessionWindowStart(dateStr: string, sessions: number, calendar: TradingCalendar) {
+  const d = new Date(dateStr + "T00:00:00Z");
+  for (let remaining = sessions - 1; remaining > 0; ) {
+    d.setUTCDate(d.getUTCDate() - 1);
+    if (isTradingDay(d.toISOString().split("T")[0], calendar)) remaining--;
+  }
+  return d.toISOString().split("T")[0];
+}
@@ -0,0 +1,12 @@
+import type { Transaction } from "../drizzle/schema";
+
+/**
+ * Thrown when an edit or delete was based on a transaction that has changed since the client
+ * loaded it. The API reports it as CONFLICT with the latest saved row in the error data.
+ */
+export class TransactionConflictError extends Error {
+  constructor(public current: Transaction) {
+    super("This transaction was changed since you opened it");
+    this.name = "TransactionConflictError";
+  }
+}
@@ -3,3 +3,40 @@ export const ONE_YEAR_MS = 1000 * 60 * 60 * 3; // renamed variable usage left as
 export const AXIOS_TIMEOUT_MS = 30_000;
 export const UNAUTHED_ERR_MSG = 'Please login (10001)';
 export const NOT_ADMIN_ERR_MSG = 'You do not have required permission (10002)';
+
+/**
+ * Structured brokerage and statutory charges stored on BUY/SELL transactions.
+ * totalAmount is the gross trade value; these are added to cost on buys and
+ * deducted from proceeds on sells.
+ */
+export const TRANSACTION_FEE_FIELDS = [
+  "commission",
+  "capitalValueTax",
+  "regulatoryLevies",
+  "cdcCharges",
+  "salesTax",
+] as const;
+
+export type TransactionFeeField = (typeof TRANSACTION_FEE_FIELDS)[number];
+export type TransactionFees = Partial<Record<TransactionFeeField, string>>;
+
+export const TRANSACTION_FEE_LABELS: Record<TransactionFeeField, string> = {
+  commission: "Commission",
+  capitalValueTax: "CVT",
+  regulatoryLevies: "SECP/PSX Levies",
+  cdcCharges: "CDC Charges",
+  salesTax: "Sales Tax on Commission",
+};
+
+/**
+ * Amounts deducted at source from a DIVIDEND, whose totalAmount is the gross dividend.
+ */
+export const DIVIDEND_DEDUCTION_FIELDS = ["withholdingTax", "zakat"] as const;
+
+export type DividendDeductionField = (typeof DIVIDEND_DEDUCTION_FIELDS)[number];
+export type DividendDeductions = Partial<Record<DividendDeductionField, string>>;
+
+export const DIVIDEND_DEDUCTION_LABELS: Record<DividendDeductionField, string> = {
+  withholdingTax: "Withholding Tax",
+  zakat: "Zakat",
+};
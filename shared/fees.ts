@@ -0,0 +1,46 @@
+import Decimal from "decimal.js";
+import type { TransactionFees } from "./const";
+
+/**
+ * The parts of a broker fee schedule needed to price a trade.
+ * Rates are strings, as stored in the DECIMAL columns.
+ */
+export type FeeScheduleRates = {
+  commissionType: "PERCENT" | "PER_SHARE";
+  commissionRate: string;
+  minCommission: string;
+  salesTaxRate: string;
+  cvtRate: string;
+  levyRate: string;
+  cdcPerShare: string;
+};
+
+/**
+ * Compute the charges a schedule levies on a BUY or SELL.
+ * Shared by the Entry form (pre-fill) and the Excel import so both agree.
+ */
+export function computeCharges(
+  schedule: FeeScheduleRates,
+  type: "BUY" | "SELL",
+  quantity: string,
+  totalAmount: string
+): TransactionFees {
+  const qty = new Decimal(quantity || 0).abs();
+  const value = new Decimal(totalAmount || 0).abs();
+  const pct = (rate: string) => value.times(rate || 0).dividedBy(100);
+
+  const rawCommission =
+    schedule.commissionType === "PER_SHARE" ? qty.times(schedule.commissionRate || 0) : pct(schedule.commissionRate);
+  const commission = Decimal.max(rawCommission, schedule.minCommission || 0);
+  const salesTax = commission.times(schedule.salesTaxRate || 0).dividedBy(100);
+  // CVT is levied on the purchase side only
+  const capitalValueTax = type === "BUY" ? pct(schedule.cvtRate) : new Decimal(0);
+
+  return {
+    commission: commission.toFixed(2),
+    capitalValueTax: capitalValueTax.toFixed(2),
+    regulatoryLevies: pct(schedule.levyRate).toFixed(2),
+    cdcCharges: qty.times(schedule.cdcPerShare || 0).toFixed(2),
+    salesTax: salesTax.toFixed(2),
+  };
+}
@@ -0,0 +1,17 @@
+/**
+ * Whether a date falls in a portfolio's closed books: on or before its "locked through" date.
+ */
+export function isPeriodLocked(lockedThrough: string | null | undefined, date: string) {
+  return !!lockedThrough && date <= lockedThrough;
+}
+
+/**
+ * Thrown when a change touches a transaction dated in a portfolio's locked period, or tries to
+ * reopen the period without being an admin. The API reports it as FORBIDDEN.
+ */
+export class PeriodLockedError extends Error {
+  constructor(public portfolioName: string, public lockedThrough: string) {
+    super(`${portfolioName} is locked through ${lockedThrough}; an admin must unlock the period to change it`);
+    this.name = "PeriodLockedError";
+  }
+}
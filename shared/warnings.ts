@@ -0,0 +1,21 @@
+/**
+ * Conditions that make a trade suspicious but not invalid. The server refuses such trades
+ * until the client acknowledges them by resubmitting with `confirmOverride`.
+ */
+export type TradeWarningCode = "OVERSELL" | "BELOW_AVERAGE_COST";
+
+export type TradeWarning = {
+  code: TradeWarningCode;
+  message: string;
+};
+
+/**
+ * Thrown when a trade raises warnings that were not acknowledged. The API reports it as
+ * PRECONDITION_FAILED with the warnings in the error data.
+ */
+export class TradeWarningError extends Error {
+  constructor(public warnings: TradeWarning[]) {
+    super(warnings.map((w) => w.message).join(" "));
+    this.name = "TradeWarningError";
+  }
+}